@@ -0,0 +1,21 @@
+import { Redirect, useLocalSearchParams } from "expo-router";
+import React from "react";
+
+import { useGameContext } from "../contexts/GameContext";
+import { GAME_SCREENS } from "../screens";
+import { getModeByRoute, isModeEnabled } from "../utils/gameModes";
+
+// Each game is played at its own route, like /colors. Games that don't
+// exist or that a grown-up has turned off go back to the menu.
+export default function GameModeScreen() {
+  const { mode: route } = useLocalSearchParams<{ mode: string }>();
+  const { enabledModes } = useGameContext();
+  const mode = getModeByRoute(route);
+
+  if (!mode || !isModeEnabled(mode, enabledModes)) {
+    return <Redirect href="/" />;
+  }
+
+  const Screen = GAME_SCREENS[mode.id];
+  return <Screen />;
+}
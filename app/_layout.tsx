@@ -6,7 +6,10 @@ import { StatusBar } from "expo-status-bar";
 import { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 
+import AchievementToast from "../components/AchievementToast";
+import ScreenTimeGuard from "../components/ScreenTimeGuard";
 import { GameProvider } from "../contexts/GameContext";
+import { RandomProvider } from "../contexts/RandomContext";
 import { unloadAllSounds } from "../utils/sounds";
 
 // Keep splash screen visible while loading resources
@@ -48,25 +51,28 @@ export default function RootLayout() {
 
   return (
     <GameProvider>
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <Stack
-          screenOptions={{
-            headerShown: false,
-            animation: "slide_from_right",
-            contentStyle: { backgroundColor: "transparent" },
-          }}
-        >
-          <Stack.Screen name="index" />
-          <Stack.Screen name="free-pop" />
-          <Stack.Screen name="colors" />
-          <Stack.Screen name="abc" />
-          <Stack.Screen name="math" />
-          <Stack.Screen name="speed" />
-          <Stack.Screen name="balloon" />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar style="light" />
-      </GestureHandlerRootView>
+      {/* Set EXPO_PUBLIC_RANDOM_SEED to play the same rounds on every start */}
+      <RandomProvider seed={process.env.EXPO_PUBLIC_RANDOM_SEED}>
+        <GestureHandlerRootView style={{ flex: 1 }}>
+          <Stack
+            screenOptions={{
+              headerShown: false,
+              animation: "slide_from_right",
+              contentStyle: { backgroundColor: "transparent" },
+            }}
+          >
+            <Stack.Screen name="index" />
+            {/* Every game, looked up by route in the mode registry */}
+            <Stack.Screen name="[mode]" />
+            <Stack.Screen name="stickers" />
+            <Stack.Screen name="dashboard" />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <AchievementToast />
+          <ScreenTimeGuard />
+          <StatusBar style="light" />
+        </GestureHandlerRootView>
+      </RandomProvider>
     </GameProvider>
   );
 }
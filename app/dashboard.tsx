@@ -0,0 +1,855 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+
+import AnimatedBackground from "../components/AnimatedBackground";
+import BarChart from "../components/BarChart";
+import GameHeader from "../components/GameHeader";
+import ParentalGate from "../components/ParentalGate";
+import ProgressTransfer from "../components/ProgressTransfer";
+import TrendChart from "../components/TrendChart";
+import { useGameContext } from "../contexts/GameContext";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+import { ACHIEVEMENTS } from "../utils/achievements";
+import {
+  GAME_MODES,
+  formatAges,
+  getMode,
+  isModeEnabled,
+} from "../utils/gameModes";
+import {
+  LOCALES,
+  LOCALE_NAMES,
+  MessageKey,
+  Translate,
+  Translation,
+} from "../utils/i18n";
+import {
+  MASTERY_DOMAINS,
+  MasteryDomain,
+  getConfidence,
+  getMostConfusedWith,
+  getWeakestItems,
+} from "../utils/mastery";
+import {
+  GATED_ACTIONS,
+  GATE_CHALLENGES,
+  GateChallenge,
+  GatedAction,
+} from "../utils/parentalGate";
+import {
+  DAILY_LIMIT_OPTIONS,
+  getPlayedToday,
+  getRemainingMs,
+} from "../utils/screenTime";
+import {
+  Period,
+  SESSION_MODES,
+  getAccuracy,
+  summarizeByMode,
+  summarizeByPeriod,
+} from "../utils/sessionHistory";
+
+const PERIOD_OPTIONS: { period: Period; count: number; label: MessageKey }[] = [
+  { period: "day", count: 7, label: "dashboard.lastDays" },
+  { period: "week", count: 8, label: "dashboard.lastWeeks" },
+];
+
+const WEEKDAYS: MessageKey[] = [
+  "dashboard.sun",
+  "dashboard.mon",
+  "dashboard.tue",
+  "dashboard.wed",
+  "dashboard.thu",
+  "dashboard.fri",
+  "dashboard.sat",
+];
+
+const formatPeriodLabel = (start: number, period: Period, t: Translate) => {
+  const date = new Date(start);
+  return period === "day"
+    ? t(WEEKDAYS[date.getDay()])
+    : `${date.getDate()}/${date.getMonth() + 1}`;
+};
+
+const formatDuration = (ms: number, t: Translate) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) {
+    return t("dashboard.seconds", { count: Math.round(ms / 1000) });
+  }
+  if (minutes < 60) return t("dashboard.minutes", { count: minutes });
+  return t("dashboard.hours", {
+    hours: Math.floor(minutes / 60),
+    minutes: minutes % 60,
+  });
+};
+
+const formatAccuracy = (accuracy: number | null) =>
+  accuracy === null ? "–" : `${Math.round(accuracy * 100)}%`;
+
+const formatSessionTime = (time: number, t: Translate) => {
+  const date = new Date(time);
+  const minutes = `${date.getMinutes()}`.padStart(2, "0");
+  return `${t(WEEKDAYS[date.getDay()])} ${date.getDate()}/${date.getMonth() + 1}, ${date.getHours()}:${minutes}`;
+};
+
+const GATED_ACTION_LABELS: Record<GatedAction, MessageKey> = {
+  settings: "dashboard.gate.settings",
+  dashboard: "dashboard.gate.dashboard",
+  reset: "dashboard.gate.reset",
+  externalLink: "dashboard.gate.externalLink",
+  exitGame: "dashboard.gate.exitGame",
+};
+
+const GATE_CHALLENGE_LABELS: Record<GateChallenge, MessageKey> = {
+  none: "dashboard.challenge.none",
+  hold: "dashboard.challenge.hold",
+  arithmetic: "dashboard.challenge.arithmetic",
+};
+
+const TOGGLE_OPTIONS: { enabled: boolean; label: MessageKey }[] = [
+  { enabled: true, label: "dashboard.on" },
+  { enabled: false, label: "dashboard.off" },
+];
+
+// Shown for sessions from a game this version doesn't have
+const UNKNOWN_MODE: { title: MessageKey; color: string } = {
+  title: "mode.unknown",
+  color: "#A0AEC0",
+};
+
+// How many of the latest sessions are listed
+const RECENT_SESSIONS = 10;
+
+const MASTERY_DOMAIN_LABELS: Record<MasteryDomain, MessageKey> = {
+  letter: "dashboard.domain.letter",
+  number: "dashboard.domain.number",
+  color: "dashboard.domain.color",
+  shape: "dashboard.domain.shape",
+  mathFact: "dashboard.domain.mathFact",
+  letterSound: "dashboard.domain.letterSound",
+  letterMatch: "dashboard.domain.letterMatch",
+};
+
+// How many of the least confident items of each kind are listed
+const WEAKEST_ITEMS = 3;
+
+// Colors and shapes are recorded by their English names
+const formatItem = (
+  domain: MasteryDomain,
+  item: string,
+  translation: Translation,
+) => {
+  if (domain === "color") return translation.colorName(item);
+  if (domain === "shape") return translation.shapeName(item);
+  return item;
+};
+
+export default function ParentDashboard() {
+  const {
+    profiles,
+    activeProfile,
+    resetProfileProgress,
+    removeProfile,
+    parentalGate,
+    setGateChallenge,
+    dailyLimit,
+    setDailyLimit,
+    enabledModes,
+    setModeEnabled,
+    screenTime,
+    sessions,
+    totalPops,
+    starsEarned,
+    achievements,
+    language,
+    setLanguage,
+    secondLanguage,
+    setSecondLanguage,
+  } = useGameContext();
+  const translation = useTranslation();
+  const { t } = translation;
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const { requestAccess, gateProps } = useParentalGate();
+  const { period, count } = PERIOD_OPTIONS[periodIndex];
+
+  const periods = useMemo(
+    () => summarizeByPeriod(sessions, period, count),
+    [sessions, period, count],
+  );
+  const since = periods[0].start;
+  const modeSummaries = useMemo(
+    () => summarizeByMode(sessions, since),
+    [sessions, since],
+  );
+  const playedModes = SESSION_MODES.filter(
+    (mode) => modeSummaries[mode].sessions > 0,
+  );
+  const playedToday = getPlayedToday(screenTime);
+  const remainingToday = getRemainingMs(screenTime, dailyLimit);
+  const recentSessions = sessions.slice(-RECENT_SESSIONS).reverse();
+  const { mastery } = activeProfile;
+  const practiceDomains = MASTERY_DOMAINS.map((domain) => ({
+    domain,
+    items: getWeakestItems(
+      mastery,
+      domain,
+      Object.keys(mastery[domain]),
+      WEAKEST_ITEMS,
+    ),
+  })).filter(({ items }) => items.length > 0);
+
+  const totals = [
+    { label: t("menu.totalPops"), value: totalPops },
+    { label: t("dashboard.starsEarned"), value: starsEarned },
+    {
+      label: t("dashboard.bestStreak"),
+      value: activeProfile.daily.bestStreak,
+    },
+    ...GAME_MODES.flatMap((mode) =>
+      mode.stats.map((stat) => ({
+        label: t(stat.label),
+        value: stat.select(activeProfile),
+      })),
+    ),
+  ];
+
+  return (
+    <AnimatedBackground>
+      <GameHeader
+        title={t("menu.grownUps")}
+        subtitle={t("dashboard.progress", { name: activeProfile.name })}
+        colors={["#718096", "#A0AEC0"]}
+        gateExit={false}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* All-time counters */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.allTime")}</Text>
+          <View style={styles.totalsGrid}>
+            {totals.map((total) => (
+              <View key={total.label} style={styles.totalItem}>
+                <Text style={styles.totalValue}>{total.value}</Text>
+                <Text style={styles.totalLabel}>{total.label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Daily or weekly history */}
+        <View style={styles.periodToggle}>
+          {PERIOD_OPTIONS.map((option, index) => (
+            <Pressable
+              key={option.period}
+              onPress={() => setPeriodIndex(index)}
+              style={[
+                styles.periodOption,
+                index === periodIndex && styles.periodOptionSelected,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.periodOptionText,
+                  index === periodIndex && styles.periodOptionTextSelected,
+                ]}
+              >
+                {t(option.label, { count: option.count })}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("common.timePlayed")}</Text>
+          <BarChart
+            data={periods.map((summary) => ({
+              label: formatPeriodLabel(summary.start, period, t),
+              value: Math.round(summary.durationMs / 60000),
+            }))}
+            color="#5B9AE6"
+            formatValue={(minutes) =>
+              t("dashboard.chartMinutes", { count: minutes })
+            }
+          />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.accuracy")}</Text>
+          <TrendChart
+            data={periods.map((summary) => ({
+              label: formatPeriodLabel(summary.start, period, t),
+              value: getAccuracy(summary),
+            }))}
+            color="#4BD5B3"
+          />
+        </View>
+
+        {/* Per-mode time and accuracy trends */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.byGame")}</Text>
+          {playedModes.length === 0 && (
+            <Text style={styles.emptyText}>{t("dashboard.noGames")}</Text>
+          )}
+          {playedModes.map((mode) => {
+            const summary = modeSummaries[mode];
+            const { title, color } = getMode(mode) ?? UNKNOWN_MODE;
+            const trend = summarizeByPeriod(
+              sessions,
+              period,
+              count,
+              Date.now(),
+              mode,
+            );
+            return (
+              <View key={mode} style={styles.modeRow}>
+                <View style={styles.modeHeader}>
+                  <View style={[styles.modeDot, { backgroundColor: color }]} />
+                  <Text style={styles.modeTitle}>{t(title)}</Text>
+                  <Text style={styles.modeStat}>
+                    {formatDuration(summary.durationMs, t)}
+                  </Text>
+                  <Text style={styles.modeStat}>
+                    {formatAccuracy(getAccuracy(summary))}
+                  </Text>
+                </View>
+                {summary.attempts > 0 && (
+                  <TrendChart
+                    data={trend.map((point) => ({
+                      label: formatPeriodLabel(point.start, period, t),
+                      value: getAccuracy(point),
+                    }))}
+                    color={color}
+                    height={60}
+                    showLabels={false}
+                  />
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {/* The least confident items, and what they're mistaken for */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.needsPractice")}</Text>
+          {practiceDomains.length === 0 && (
+            <Text style={styles.emptyText}>{t("dashboard.noPractice")}</Text>
+          )}
+          {practiceDomains.map(({ domain, items }) => (
+            <View key={domain} style={styles.modeRow}>
+              <Text style={styles.modeTitle}>
+                {t(MASTERY_DOMAIN_LABELS[domain])}
+              </Text>
+              {items.map((item) => {
+                const confusedWith = getMostConfusedWith(mastery, domain, item);
+                return (
+                  <View key={item} style={styles.sessionRow}>
+                    <Text style={styles.sessionMode}>
+                      {formatItem(domain, item, translation)}
+                    </Text>
+                    <Text style={styles.sessionTime}>
+                      {confusedWith === null
+                        ? ""
+                        : t("dashboard.confusedWith", {
+                            item: formatItem(domain, confusedWith, translation),
+                          })}
+                    </Text>
+                    <Text style={styles.sessionStat}>
+                      {formatAccuracy(getConfidence(mastery, domain, item))}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+
+        {/* Latest sessions */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.recentSessions")}</Text>
+          {recentSessions.length === 0 && (
+            <Text style={styles.emptyText}>{t("dashboard.noSessions")}</Text>
+          )}
+          {recentSessions.map((session) => (
+            <View
+              key={`${session.startedAt}-${session.mode}`}
+              style={styles.sessionRow}
+            >
+              <Text style={styles.sessionTime}>
+                {formatSessionTime(session.startedAt, t)}
+              </Text>
+              <Text style={styles.sessionMode}>
+                {t((getMode(session.mode) ?? UNKNOWN_MODE).title)}
+              </Text>
+              <Text style={styles.sessionStat}>
+                {formatDuration(session.durationMs, t)}
+              </Text>
+              <Text style={styles.sessionStat}>
+                {formatAccuracy(
+                  session.attempts > 0
+                    ? session.correct / session.attempts
+                    : null,
+                )}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Milestones and when they were reached */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {t("dashboard.achievements", {
+              unlocked: Object.keys(achievements).length,
+              total: ACHIEVEMENTS.length,
+            })}
+          </Text>
+          {ACHIEVEMENTS.map((achievement) => {
+            const unlockedAt = achievements[achievement.id];
+            return (
+              <View key={achievement.id} style={styles.sessionRow}>
+                <Text
+                  style={[
+                    styles.achievementEmoji,
+                    unlockedAt === undefined && styles.lockedAchievement,
+                  ]}
+                >
+                  {achievement.emoji}
+                </Text>
+                <View style={styles.modeInfo}>
+                  <Text style={styles.sessionMode}>{t(achievement.title)}</Text>
+                  <Text style={styles.sessionTime}>
+                    {t(achievement.description)}
+                  </Text>
+                </View>
+                <Text style={styles.sessionTime}>
+                  {unlockedAt === undefined
+                    ? t("dashboard.notYet")
+                    : formatSessionTime(unlockedAt, t)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Which games show on the menu */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.games")}</Text>
+          {GAME_MODES.map((mode) => {
+            const isEnabled = isModeEnabled(mode, enabledModes);
+            return (
+              <View key={mode.id} style={styles.settingRow}>
+                <View
+                  style={[styles.modeDot, { backgroundColor: mode.color }]}
+                />
+                <View style={styles.modeInfo}>
+                  <Text style={styles.modeTitle}>{t(mode.title)}</Text>
+                  <Text style={styles.modeAges}>
+                    {formatAges(mode.ages, t)}
+                  </Text>
+                </View>
+                <View style={styles.segments}>
+                  {TOGGLE_OPTIONS.map(({ enabled, label }) => {
+                    const isSelected = enabled === isEnabled;
+                    return (
+                      <Pressable
+                        key={label}
+                        onPress={() => setModeEnabled(mode.id, enabled)}
+                        style={[
+                          styles.segment,
+                          isSelected && styles.segmentSelected,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.segmentText,
+                            isSelected && styles.segmentTextSelected,
+                          ]}
+                        >
+                          {t(label)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Daily play limit */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.screenTime")}</Text>
+          <Text style={styles.screenTimeText}>
+            {remainingToday === null
+              ? t("dashboard.playedToday", {
+                  played: formatDuration(playedToday, t),
+                })
+              : t("dashboard.playedTodayLeft", {
+                  played: formatDuration(playedToday, t),
+                  left: formatDuration(Math.max(0, remainingToday), t),
+                })}
+          </Text>
+          <View style={styles.limitOptions}>
+            {DAILY_LIMIT_OPTIONS.map((minutes) => {
+              const isSelected = minutes === dailyLimit;
+              return (
+                <Pressable
+                  key={minutes ?? "none"}
+                  onPress={() => setDailyLimit(minutes)}
+                  style={[styles.segment, isSelected && styles.segmentSelected]}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      isSelected && styles.segmentTextSelected,
+                    ]}
+                  >
+                    {minutes === null
+                      ? t("dashboard.noLimit")
+                      : formatDuration(minutes * 60000, t)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* What the games show and say */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.language")}</Text>
+          <View style={styles.limitOptions}>
+            {LOCALES.map((locale) => {
+              const isSelected = locale === language;
+              return (
+                <Pressable
+                  key={locale}
+                  onPress={() => setLanguage(locale)}
+                  style={[styles.segment, isSelected && styles.segmentSelected]}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      isSelected && styles.segmentTextSelected,
+                    ]}
+                  >
+                    {LOCALE_NAMES[locale]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {/* Bilingual mode */}
+          <Text style={styles.secondLanguageText}>
+            {t("dashboard.secondLanguage")}
+          </Text>
+          <View style={styles.limitOptions}>
+            {[null, ...LOCALES.filter((locale) => locale !== language)].map(
+              (locale) => {
+                const isSelected = locale === secondLanguage;
+                return (
+                  <Pressable
+                    key={locale ?? "none"}
+                    onPress={() => setSecondLanguage(locale)}
+                    style={[
+                      styles.segment,
+                      isSelected && styles.segmentSelected,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        isSelected && styles.segmentTextSelected,
+                      ]}
+                    >
+                      {locale === null
+                        ? t("dashboard.off")
+                        : LOCALE_NAMES[locale]}
+                    </Text>
+                  </Pressable>
+                );
+              },
+            )}
+          </View>
+        </View>
+
+        {/* Which grown-up actions are protected, and how */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.parentalGate")}</Text>
+          {GATED_ACTIONS.map((action) => (
+            <View key={action} style={styles.settingRow}>
+              <Text style={styles.settingLabel}>
+                {t(GATED_ACTION_LABELS[action])}
+              </Text>
+              <View style={styles.segments}>
+                {GATE_CHALLENGES.map((challenge) => {
+                  const isSelected = parentalGate[action] === challenge;
+                  return (
+                    <Pressable
+                      key={challenge}
+                      onPress={() => setGateChallenge(action, challenge)}
+                      style={[
+                        styles.segment,
+                        isSelected && styles.segmentSelected,
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentText,
+                          isSelected && styles.segmentTextSelected,
+                        ]}
+                      >
+                        {t(GATE_CHALLENGE_LABELS[challenge])}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Moving progress between devices */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.moveProgress")}</Text>
+          <ProgressTransfer />
+        </View>
+
+        {/* Starting over */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t("dashboard.player")}</Text>
+          <Pressable
+            onPress={() =>
+              requestAccess("reset", () =>
+                resetProfileProgress(activeProfile.id),
+              )
+            }
+            style={styles.resetButton}
+          >
+            <Text style={styles.resetButtonText}>
+              {t("dashboard.resetPlayer", { name: activeProfile.name })}
+            </Text>
+          </Pressable>
+          {profiles.length > 1 && (
+            <Pressable
+              onPress={() =>
+                requestAccess("reset", () => removeProfile(activeProfile.id))
+              }
+              style={styles.resetButton}
+            >
+              <Text style={styles.resetButtonText}>
+                {t("dashboard.removePlayer", { name: activeProfile.name })}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </ScrollView>
+
+      <ParentalGate {...gateProps} />
+    </AnimatedBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 500,
+    backgroundColor: "rgba(255, 255, 255, 0.85)",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontFamily: "BubbleGum",
+    fontSize: 22,
+    color: "#4A5568",
+    marginBottom: 12,
+  },
+  totalsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  totalItem: {
+    width: "33%",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  totalValue: {
+    fontFamily: "BubbleGum",
+    fontSize: 26,
+    color: "#FF6B95",
+  },
+  totalLabel: {
+    fontFamily: "ComicNeue",
+    fontSize: 13,
+    color: "#666",
+    textAlign: "center",
+  },
+  periodToggle: {
+    flexDirection: "row",
+    backgroundColor: "rgba(255, 255, 255, 0.6)",
+    borderRadius: 20,
+    padding: 4,
+    marginBottom: 16,
+  },
+  periodOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  periodOptionSelected: {
+    backgroundColor: "#5B9AE6",
+  },
+  periodOptionText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#4A5568",
+  },
+  periodOptionTextSelected: {
+    color: "white",
+  },
+  emptyText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#718096",
+  },
+  modeRow: {
+    marginBottom: 12,
+  },
+  modeHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  modeDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  modeTitle: {
+    flex: 1,
+    fontFamily: "ComicNeue",
+    fontSize: 17,
+    color: "#4A5568",
+  },
+  modeInfo: {
+    flex: 1,
+  },
+  modeAges: {
+    fontFamily: "ComicNeue",
+    fontSize: 13,
+    color: "#718096",
+  },
+  modeStat: {
+    fontFamily: "ComicNeue",
+    fontSize: 15,
+    color: "#4A5568",
+    minWidth: 64,
+    textAlign: "right",
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#EDF2F7",
+  },
+  sessionTime: {
+    flex: 1.4,
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#718096",
+  },
+  sessionMode: {
+    flex: 1.2,
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#4A5568",
+  },
+  sessionStat: {
+    flex: 0.7,
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#4A5568",
+    textAlign: "right",
+  },
+  achievementEmoji: {
+    fontSize: 24,
+    marginRight: 10,
+  },
+  lockedAchievement: {
+    opacity: 0.3,
+  },
+  screenTimeText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#4A5568",
+    marginBottom: 12,
+  },
+  secondLanguageText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#4A5568",
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  limitOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    backgroundColor: "#EDF2F7",
+    borderRadius: 14,
+    padding: 2,
+    alignSelf: "flex-start",
+  },
+  settingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  settingLabel: {
+    flex: 1,
+    fontFamily: "ComicNeue",
+    fontSize: 15,
+    color: "#4A5568",
+  },
+  segments: {
+    flexDirection: "row",
+    backgroundColor: "#EDF2F7",
+    borderRadius: 14,
+    padding: 2,
+  },
+  segment: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  segmentSelected: {
+    backgroundColor: "#5B9AE6",
+  },
+  segmentText: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#4A5568",
+  },
+  segmentTextSelected: {
+    color: "white",
+  },
+  resetButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#F56565",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  resetButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#E53E3E",
+  },
+});
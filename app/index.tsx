@@ -3,72 +3,39 @@ import { Audio } from "expo-av";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { useRouter } from "expo-router";
-import {
-  Palette,
-  WholeWord,
-  Calculator,
-  Zap,
-  PopcornIcon,
-} from "lucide-react-native";
+import { BookHeart, Lock } from "lucide-react-native";
 import React, { useEffect } from "react";
 import { View, Text, StyleSheet, Pressable } from "react-native";
 import Animated, { FadeInDown, FadeIn } from "react-native-reanimated";
 
 import AnimatedBackground from "../components/AnimatedBackground";
 import AudioSettingDropdown from "../components/AudioSettingDropdown";
+import DailyChallengeCard from "../components/DailyChallengeCard";
 import FloatingAnimal from "../components/FloatingAnimal";
+import ParentalGate from "../components/ParentalGate";
+import ProfileSwitcher from "../components/ProfileSwitcher";
 import { useGameContext } from "../contexts/GameContext";
-
-// Game modes with their details
-const GAME_MODES = [
-  // {
-  //   title: "Free Pop",
-  //   icon: Brain,
-  //   color: "#FF6B95",
-  //   route: "/free-pop" as const,
-  //   animal: "bunny" as const,
-  // },
-  {
-    title: "Colors",
-    icon: Palette,
-    color: "#4BD5B3",
-    route: "/colors" as const,
-    animal: "elephant" as const,
-  },
-  {
-    title: "ABC & 123",
-    icon: WholeWord,
-    color: "#5B9AE6",
-    route: "/abc" as const,
-    animal: "giraffe" as const,
-  },
-  {
-    title: "Math Fun",
-    icon: Calculator,
-    color: "#9D7FE6",
-    route: "/math" as const,
-    animal: "cat" as const,
-  },
-  {
-    title: "Speed Pop",
-    icon: Zap,
-    color: "#FF9858",
-    route: "/speed" as const,
-    animal: "lion" as const,
-  },
-  {
-    title: "Balloon Shapes",
-    icon: PopcornIcon,
-    color: "#FF6B95",
-    route: "/balloon" as const,
-    animal: "bunny" as const,
-  },
-];
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+import { GAME_MODES, GameMode, isModeEnabled } from "../utils/gameModes";
+import { getEquipped } from "../utils/stickers";
 
 export default function MainMenu() {
   const router = useRouter();
   const [sound, setSound] = React.useState<Audio.Sound | null>(null);
-  const { totalPops, audioSetting } = useGameContext();
+  const {
+    totalPops,
+    starsEarned,
+    audioSetting,
+    activeProfile,
+    enabledModes,
+    stickerBook,
+    dailyChallenge,
+    daily,
+    challengeStreak,
+  } = useGameContext();
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
 
   // Load button press sound
   useEffect(() => {
@@ -90,26 +57,47 @@ export default function MainMenu() {
     };
   }, []);
 
-  const handleGameSelect = (
-    route: "/free-pop" | "/colors" | "/abc" | "/math" | "/speed" | "/balloon",
-  ) => {
+  const gameModes = GAME_MODES.filter((mode) =>
+    isModeEnabled(mode, enabledModes),
+  );
+
+  const challengeMode = GAME_MODES.find(
+    (mode) => mode.id === dailyChallenge?.mode,
+  );
+
+  const handleGameSelect = (mode: GameMode) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     if (audioSetting !== "noSound" && audioSetting !== "mute") {
       sound?.replayAsync();
     }
-    router.push(route);
+    router.push({ pathname: "/[mode]", params: { mode: mode.route } });
+  };
+
+  const handleStickerBookOpen = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push("/stickers");
+  };
+
+  const handleDashboardOpen = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    requestAccess("dashboard", () => router.push("/dashboard"));
   };
 
   return (
-    <AnimatedBackground>
+    <AnimatedBackground colors={getEquipped(stickerBook, "theme").background}>
+      {/* Profile switcher positioned top left */}
+      <View style={styles.profileContainer}>
+        <ProfileSwitcher />
+      </View>
+
       {/* Audio Setting Dropdown positioned top right */}
       <View style={styles.dropdownContainer}>
         <AudioSettingDropdown />
       </View>
 
-      {/* Floating animals */}
+      {/* Floating animals, led by the friend chosen in the sticker book */}
       <FloatingAnimal
-        type="bunny"
+        type={getEquipped(stickerBook, "companion").character}
         position={{ top: "10%", left: "5%" }}
         color="rgba(255, 107, 149, 0.5)"
         size={100}
@@ -137,20 +125,34 @@ export default function MainMenu() {
         entering={FadeIn.delay(300).springify()}
         style={styles.titleContainer}
       >
-        <Text style={styles.title}>Pop & Learn</Text>
-        <Text style={styles.subtitle}>Fun learning for little fingers!</Text>
+        <Text style={styles.title}>{t("menu.title")}</Text>
+        <Text style={styles.subtitle}>{t("menu.subtitle")}</Text>
       </Animated.View>
 
+      {/* Today's challenge */}
+      {dailyChallenge && challengeMode && (
+        <View style={styles.challengeContainer}>
+          <DailyChallengeCard
+            challenge={dailyChallenge}
+            progress={daily.progress}
+            completed={daily.completed}
+            streak={challengeStreak}
+            color={challengeMode.color}
+            onPress={() => handleGameSelect(challengeMode)}
+          />
+        </View>
+      )}
+
       {/* Game Mode Buttons */}
       <View style={styles.buttonsContainer}>
-        {GAME_MODES.map((mode, index) => (
+        {gameModes.map((mode, index) => (
           <Animated.View
-            key={mode.title}
+            key={mode.id}
             entering={FadeInDown.delay(500 + index * 200).springify()}
             style={styles.buttonWrapper}
           >
             <Pressable
-              onPress={() => handleGameSelect(mode.route)}
+              onPress={() => handleGameSelect(mode)}
               style={({ pressed }) => [
                 styles.button,
                 pressed && styles.buttonPressed,
@@ -165,7 +167,7 @@ export default function MainMenu() {
                 <View style={styles.iconContainer}>
                   <mode.icon size={28} color="white" />
                 </View>
-                <Text style={styles.buttonText}>{mode.title}</Text>
+                <Text style={styles.buttonText}>{t(mode.title)}</Text>
                 <FloatingAnimal
                   type={mode.animal}
                   size={40}
@@ -188,20 +190,51 @@ export default function MainMenu() {
           colors={["rgba(255, 255, 255, 0.7)", "rgba(255, 255, 255, 0.4)"]}
           style={styles.statsGradient}
         >
-          <Text style={styles.statsTitle}>Your Progress</Text>
+          <Text style={styles.statsTitle}>
+            {t("menu.progress", { name: activeProfile.name })}
+          </Text>
           <View style={styles.statsRow}>
             <View style={styles.statItem}>
               <Text style={styles.statValue}>{totalPops}</Text>
-              <Text style={styles.statLabel}>Total Pops</Text>
+              <Text style={styles.statLabel}>{t("menu.totalPops")}</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{starsEarned}</Text>
+              <Text style={styles.statLabel}>{t("menu.stars")}</Text>
             </View>
           </View>
         </LinearGradient>
+        <Pressable
+          onPress={handleStickerBookOpen}
+          style={styles.stickerButton}
+          accessibilityRole="button"
+        >
+          <BookHeart size={20} color="white" />
+          <Text style={styles.stickerButtonText}>{t("menu.stickerBook")}</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleDashboardOpen}
+          style={styles.parentButton}
+          accessibilityRole="button"
+          accessibilityLabel={t("menu.dashboard")}
+        >
+          <Lock size={14} color="#666" />
+          <Text style={styles.parentButtonText}>{t("menu.grownUps")}</Text>
+        </Pressable>
       </Animated.View>
+
+      <ParentalGate {...gateProps} />
     </AnimatedBackground>
   );
 }
 
 const styles = StyleSheet.create({
+  profileContainer: {
+    position: "absolute",
+    top: 50,
+    left: 20,
+    zIndex: 999,
+  },
   dropdownContainer: {
     position: "absolute",
     top: 50,
@@ -227,6 +260,12 @@ const styles = StyleSheet.create({
     color: "#666",
     marginTop: 8,
   },
+  challengeContainer: {
+    alignItems: "center",
+    paddingHorizontal: 24,
+    marginBottom: 20,
+    width: "100%",
+  },
   buttonsContainer: {
     alignItems: "center",
     paddingHorizontal: 24,
@@ -309,4 +348,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#666",
   },
+  stickerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: "#9D7FE6",
+  },
+  stickerButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "white",
+    fontWeight: "bold",
+    marginLeft: 8,
+  },
+  parentButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "rgba(255, 255, 255, 0.5)",
+  },
+  parentButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#666",
+    marginLeft: 6,
+  },
 });
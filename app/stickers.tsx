@@ -0,0 +1,202 @@
+import * as Haptics from "expo-haptics";
+import { Lock } from "lucide-react-native";
+import React from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+
+import AnimatedBackground from "../components/AnimatedBackground";
+import GameHeader from "../components/GameHeader";
+import { useGameContext } from "../contexts/GameContext";
+import { useSpeech } from "../hooks/useSpeech";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  STICKERS,
+  STICKER_KINDS,
+  STICKER_KIND_LABELS,
+  StickerItem,
+  describeUnlock,
+  getEquipped,
+  isUnlocked,
+} from "../utils/stickers";
+
+// Everything the child has collected and can still win. Stars buy the
+// items that have a price; friends, bubbles and themes are chosen here too.
+export default function StickerBookScreen() {
+  const { stickerBook, starBalance, buySticker, equipSticker } =
+    useGameContext();
+  const { speakText } = useSpeech();
+  const { t } = useTranslation();
+
+  const handlePress = (item: StickerItem) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (isUnlocked(stickerBook, item)) {
+      if (item.kind === "sticker") {
+        speakText(t(item.name));
+      } else {
+        equipSticker(item.id);
+        speakText(t("stickers.picked", { name: t(item.name) }));
+      }
+      return;
+    }
+
+    if (item.unlock.type !== "stars") {
+      speakText(describeUnlock(item.unlock, t));
+    } else if (buySticker(item.id)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      speakText(t("stickers.bought", { name: t(item.name) }));
+    } else {
+      speakText(
+        t("stickers.needMore", {
+          count: item.unlock.cost - starBalance,
+          name: t(item.name),
+        }),
+      );
+    }
+  };
+
+  const isEquipped = (item: StickerItem) =>
+    item.kind !== "sticker" &&
+    getEquipped(stickerBook, item.kind).id === item.id;
+
+  return (
+    <AnimatedBackground colors={getEquipped(stickerBook, "theme").background}>
+      <GameHeader
+        title={t("menu.stickerBook")}
+        subtitle={t("stickers.toSpend", { count: starBalance })}
+        colors={["#9D7FE6", "#D4C7FF"]}
+        gateExit={false}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {STICKER_KINDS.map((kind) => {
+          const items = STICKERS.filter((item) => item.kind === kind);
+          const collected = items.filter((item) =>
+            isUnlocked(stickerBook, item),
+          ).length;
+
+          return (
+            <View key={kind} style={styles.card}>
+              <Text style={styles.cardTitle}>
+                {t(STICKER_KIND_LABELS[kind])} ({collected}/{items.length})
+              </Text>
+              <View style={styles.grid}>
+                {items.map((item) => {
+                  const unlocked = isUnlocked(stickerBook, item);
+                  const equipped = isEquipped(item);
+                  return (
+                    <Pressable
+                      key={item.id}
+                      onPress={() => handlePress(item)}
+                      style={[
+                        styles.item,
+                        !unlocked && styles.lockedItem,
+                        equipped && styles.equippedItem,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={t(item.name)}
+                    >
+                      <Text
+                        style={[styles.emoji, !unlocked && styles.lockedEmoji]}
+                      >
+                        {item.emoji}
+                      </Text>
+                      {!unlocked && (
+                        <View style={styles.lockBadge}>
+                          <Lock size={12} color="white" />
+                        </View>
+                      )}
+                      <Text style={styles.itemName} numberOfLines={1}>
+                        {t(item.name)}
+                      </Text>
+                      <Text style={styles.itemStatus} numberOfLines={2}>
+                        {equipped
+                          ? t("stickers.using")
+                          : unlocked
+                            ? ""
+                            : describeUnlock(item.unlock, t)}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </AnimatedBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 500,
+    backgroundColor: "rgba(255, 255, 255, 0.85)",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontFamily: "BubbleGum",
+    fontSize: 22,
+    color: "#4A5568",
+    marginBottom: 12,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "flex-start",
+  },
+  item: {
+    width: "30%",
+    alignItems: "center",
+    margin: "1.5%",
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: "transparent",
+    backgroundColor: "#F7FAFC",
+  },
+  lockedItem: {
+    backgroundColor: "#EDF2F7",
+  },
+  equippedItem: {
+    borderColor: "#9D7FE6",
+  },
+  emoji: {
+    fontSize: 40,
+  },
+  lockedEmoji: {
+    opacity: 0.25,
+  },
+  lockBadge: {
+    position: "absolute",
+    top: 6,
+    right: 6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: "#A0AEC0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  itemName: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#4A5568",
+    marginTop: 4,
+  },
+  itemStatus: {
+    fontFamily: "ComicNeue",
+    fontSize: 12,
+    color: "#718096",
+    textAlign: "center",
+    minHeight: 28,
+  },
+});
@@ -0,0 +1,124 @@
+import * as Haptics from "expo-haptics";
+import { LinearGradient } from "expo-linear-gradient";
+import React, { useEffect } from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeOut, SlideInUp } from "react-native-reanimated";
+
+import { useGameContext } from "../contexts/GameContext";
+import { useSound } from "../hooks/useSound";
+import { useSpeech } from "../hooks/useSpeech";
+import { useTranslation } from "../hooks/useTranslation";
+
+// How long each achievement stays on screen
+const TOAST_MS = 4000;
+
+// Celebrates achievements one at a time as they're reached, over whatever
+// screen is open. Tapping it moves on to the next one.
+const AchievementToast = () => {
+  const { achievementQueue, dismissAchievement } = useGameContext();
+  const { play } = useSound();
+  const { speakText } = useSpeech();
+  const { t } = useTranslation();
+  const achievement = achievementQueue[0];
+
+  useEffect(() => {
+    if (!achievement) return;
+
+    play("celebration");
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    speakText(
+      t("achievement.spoken", {
+        title: t(achievement.title),
+        description: t(achievement.description),
+      }),
+    );
+
+    const timeout = setTimeout(dismissAchievement, TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [achievement]);
+
+  if (!achievement) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <Animated.View
+        key={achievement.id}
+        entering={SlideInUp.springify()}
+        exiting={FadeOut}
+      >
+        <Pressable
+          onPress={dismissAchievement}
+          accessibilityRole="button"
+          accessibilityLabel={t("achievement.label", {
+            title: t(achievement.title),
+          })}
+        >
+          <LinearGradient
+            colors={["#FFD86B", "#FF9858"]}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.toast}
+          >
+            <Text style={styles.emoji}>{achievement.emoji}</Text>
+            <View style={styles.textContainer}>
+              <Text style={styles.heading}>{t("achievement.heading")}</Text>
+              <Text style={styles.title}>{t(achievement.title)}</Text>
+              <Text style={styles.description}>
+                {t(achievement.description)}
+              </Text>
+            </View>
+          </LinearGradient>
+        </Pressable>
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 50,
+    left: 16,
+    right: 16,
+    alignItems: "center",
+    zIndex: 1000,
+    elevation: 1000,
+  },
+  toast: {
+    flexDirection: "row",
+    alignItems: "center",
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+  },
+  emoji: {
+    fontSize: 44,
+    marginRight: 12,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  heading: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "rgba(255, 255, 255, 0.9)",
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 24,
+    color: "white",
+  },
+  description: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "white",
+  },
+});
+
+export default AchievementToast;
@@ -11,32 +11,37 @@ import {
   TouchableWithoutFeedback,
   StatusBar,
 } from "react-native";
+
+import ParentalGate from "./ParentalGate";
 import { useGameContext, AudioSetting } from "../contexts/GameContext";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+import { MessageKey } from "../utils/i18n";
 
 type Option = {
-  label: string;
+  label: MessageKey;
   value: AudioSetting;
   icon: JSX.Element;
 };
 
 const OPTIONS: Option[] = [
   {
-    label: "Full",
+    label: "audio.full",
     value: "full",
     icon: <Volume size={20} color="#4A5568" />,
   },
   {
-    label: "No Speech",
+    label: "audio.noSpeech",
     value: "noSpeech",
     icon: <MicOff size={20} color="#4A5568" />,
   },
   {
-    label: "No Sound",
+    label: "audio.noSound",
     value: "noSound",
     icon: <EarOff size={20} color="#4A5568" />,
   },
   {
-    label: "Mute",
+    label: "audio.mute",
     value: "mute",
     icon: <VolumeX size={20} color="#4A5568" />,
   },
@@ -45,6 +50,8 @@ const OPTIONS: Option[] = [
 const AudioSettingDropdown = () => {
   const { audioSetting, setAudioSetting } = useGameContext();
   const [open, setOpen] = useState(false);
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
   const [buttonPosition, setButtonPosition] = useState({
     width: 0,
     height: 0,
@@ -79,10 +86,14 @@ const AudioSettingDropdown = () => {
   };
 
   const toggleDropdown = () => {
-    if (!open) {
-      measureButton();
+    if (open) {
+      setOpen(false);
+      return;
     }
-    setOpen((prev) => !prev);
+    requestAccess("settings", () => {
+      measureButton();
+      setOpen(true);
+    });
   };
 
   // Calculate if dropdown should open upward (if near bottom of screen)
@@ -121,11 +132,11 @@ const AudioSettingDropdown = () => {
           ]}
           onPress={toggleDropdown}
           accessibilityRole="button"
-          accessibilityLabel="Audio settings"
+          accessibilityLabel={t("audio.settings")}
         >
           <View style={styles.buttonContent}>
             {React.cloneElement(currentOption.icon, { color: "#FFFFFF" })}
-            <Text style={styles.buttonText}>Audio</Text>
+            <Text style={styles.buttonText}>{t("audio.title")}</Text>
           </View>
         </Pressable>
       </View>
@@ -183,7 +194,7 @@ const AudioSettingDropdown = () => {
                       ]}
                       numberOfLines={1}
                     >
-                      {option.label}
+                      {t(option.label)}
                     </Text>
                   </Pressable>
                 ))}
@@ -192,6 +203,8 @@ const AudioSettingDropdown = () => {
           </View>
         </TouchableWithoutFeedback>
       </Modal>
+
+      <ParentalGate {...gateProps} />
     </View>
   );
 };
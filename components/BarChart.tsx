@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { View, StyleSheet, LayoutChangeEvent } from "react-native";
+import Svg, { Line, Rect, Text as SvgText } from "react-native-svg";
+
+export type BarChartPoint = {
+  label: string;
+  value: number;
+};
+
+type BarChartProps = {
+  data: BarChartPoint[];
+  color: string;
+  height?: number;
+  // Text drawn above each bar that has a value
+  formatValue?: (value: number) => string;
+};
+
+const LABEL_HEIGHT = 18;
+const VALUE_HEIGHT = 16;
+
+// Simple vertical bar chart that fills the width of its container
+const BarChart = ({
+  data,
+  color,
+  height = 160,
+  formatValue = (value) => `${value}`,
+}: BarChartProps) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) =>
+    setWidth(event.nativeEvent.layout.width);
+
+  const max = Math.max(1, ...data.map((point) => point.value));
+  const plotHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+  const slotWidth = data.length > 0 ? width / data.length : 0;
+  const barWidth = slotWidth * 0.6;
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Line
+            x1={0}
+            y1={VALUE_HEIGHT + plotHeight}
+            x2={width}
+            y2={VALUE_HEIGHT + plotHeight}
+            stroke="#CBD5E0"
+            strokeWidth={1}
+          />
+          {data.map((point, index) => {
+            const barHeight = (point.value / max) * plotHeight;
+            const x = index * slotWidth + (slotWidth - barWidth) / 2;
+            const y = VALUE_HEIGHT + plotHeight - barHeight;
+            const centerX = index * slotWidth + slotWidth / 2;
+            return (
+              <React.Fragment key={index}>
+                <Rect
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={4}
+                  fill={color}
+                />
+                {point.value > 0 && (
+                  <SvgText
+                    x={centerX}
+                    y={y - 4}
+                    fontSize={10}
+                    fill="#4A5568"
+                    textAnchor="middle"
+                  >
+                    {formatValue(point.value)}
+                  </SvgText>
+                )}
+                <SvgText
+                  x={centerX}
+                  y={height - 4}
+                  fontSize={11}
+                  fill="#718096"
+                  textAnchor="middle"
+                >
+                  {point.label}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+});
+
+export default BarChart;
@@ -0,0 +1,206 @@
+import React, { useEffect } from "react";
+import { View, Text, Image, StyleSheet } from "react-native";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withDelay,
+  withTiming,
+} from "react-native-reanimated";
+
+import { ANIMAL_IMAGES, AnimalType } from "./FloatingAnimal";
+import { COLORS } from "../utils/colors";
+import { MathProblem, ProblemType } from "../utils/mathProblems";
+
+// More objects than this are too many to count, so no aid is shown
+const MAX_OBJECTS = 20;
+const OBJECT_SIZE = 22;
+
+const DOT_COLORS = Object.values(COLORS.bubbles).map((colors) => colors[0]);
+
+type CountingAidProps = {
+  problem: MathProblem;
+  variant?: "animals" | "dots";
+  animal?: AnimalType;
+};
+
+type Group = {
+  count: number;
+  // How many objects at the end of the group are taken away
+  takeAway?: number;
+  // Shown in place of the objects when the count is what's being asked
+  unknown?: boolean;
+};
+
+type Part = Group | string;
+
+// The groups of objects, and the signs between them, for a problem
+const getParts = (problem: MathProblem): Part[] => {
+  switch (problem.type) {
+    case ProblemType.ADDITION:
+      return [{ count: problem.num1 }, "+", { count: problem.num2 }];
+    case ProblemType.SUBTRACTION:
+      return [{ count: problem.num1, takeAway: problem.num2 }];
+    case ProblemType.MULTIPLICATION:
+      return Array.from({ length: problem.num1 }, () => ({
+        count: problem.num2,
+      }));
+    case ProblemType.DIVISION:
+      return Array.from({ length: problem.answer }, () => ({
+        count: problem.num2,
+      }));
+    case ProblemType.MISSING_OPERAND:
+      return [
+        { count: problem.num1 },
+        problem.operation === ProblemType.ADDITION ? "+" : "−",
+        { count: 0, unknown: true },
+        "=",
+        { count: problem.result },
+      ];
+    case ProblemType.COMPARISON:
+      return [{ count: problem.num1 }, "or", { count: problem.num2 }];
+  }
+};
+
+const CountingObject = ({
+  variant,
+  animal,
+  color,
+  takenAway,
+  delay,
+}: {
+  variant: "animals" | "dots";
+  animal: AnimalType;
+  color: string;
+  takenAway: boolean;
+  delay: number;
+}) => {
+  const opacity = useSharedValue(1);
+  const offset = useSharedValue(0);
+
+  // Objects being taken away float up and fade, one after another
+  useEffect(() => {
+    if (takenAway) {
+      opacity.value = withDelay(delay, withTiming(0.2, { duration: 400 }));
+      offset.value = withDelay(delay, withTiming(-8, { duration: 400 }));
+    } else {
+      opacity.value = 1;
+      offset.value = 0;
+    }
+  }, [takenAway, delay]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+    transform: [{ translateY: offset.value }],
+  }));
+
+  return (
+    <Animated.View style={[styles.object, animatedStyle]}>
+      {variant === "animals" ? (
+        <Image source={ANIMAL_IMAGES[animal]} style={styles.animal} />
+      ) : (
+        <View style={[styles.dot, { backgroundColor: color }]} />
+      )}
+    </Animated.View>
+  );
+};
+
+// Shows the numbers in a math problem as groups of things to count
+const CountingAid = ({
+  problem,
+  variant = "animals",
+  animal = "cat",
+}: CountingAidProps) => {
+  const parts = getParts(problem);
+  const total = parts.reduce(
+    (sum, part) => sum + (typeof part === "string" ? 0 : part.count),
+    0,
+  );
+  if (total === 0 || total > MAX_OBJECTS) return null;
+
+  return (
+    <View style={styles.container}>
+      {parts.map((part, partIndex) => {
+        if (typeof part === "string") {
+          return (
+            <Text key={partIndex} style={styles.sign}>
+              {part}
+            </Text>
+          );
+        }
+        if (part.unknown) {
+          return (
+            <Text key={partIndex} style={styles.sign}>
+              ?
+            </Text>
+          );
+        }
+
+        const takeAway = part.takeAway ?? 0;
+        return (
+          <View key={partIndex} style={styles.group}>
+            {Array.from({ length: part.count }, (_, index) => {
+              const takenAway = index >= part.count - takeAway;
+              return (
+                <CountingObject
+                  key={index}
+                  variant={variant}
+                  animal={animal}
+                  color={DOT_COLORS[partIndex % DOT_COLORS.length]}
+                  takenAway={takenAway}
+                  delay={
+                    takenAway
+                      ? 600 + (index - (part.count - takeAway)) * 300
+                      : 0
+                  }
+                />
+              );
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.7)",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    width: "90%",
+    maxWidth: 500,
+  },
+  group: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    maxWidth: OBJECT_SIZE * 6 + 24,
+    marginHorizontal: 6,
+    marginVertical: 4,
+  },
+  object: {
+    margin: 2,
+  },
+  animal: {
+    width: OBJECT_SIZE,
+    height: OBJECT_SIZE,
+  },
+  dot: {
+    width: OBJECT_SIZE,
+    height: OBJECT_SIZE,
+    borderRadius: OBJECT_SIZE / 2,
+  },
+  sign: {
+    fontFamily: "BubbleGum",
+    fontSize: 24,
+    color: COLORS.math.primary,
+    marginHorizontal: 4,
+  },
+});
+
+export default CountingAid;
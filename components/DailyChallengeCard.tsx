@@ -0,0 +1,143 @@
+import { LinearGradient } from "expo-linear-gradient";
+import React from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  CHALLENGE_BONUS_STARS,
+  DailyChallenge,
+  describeChallenge,
+} from "../utils/dailyChallenge";
+
+interface DailyChallengeCardProps {
+  challenge: DailyChallenge;
+  progress: number;
+  completed: boolean;
+  // Days in a row with the challenge done
+  streak: number;
+  color: string;
+  onPress: () => void;
+}
+
+// Today's goal on the main menu, with how far along it is. Tapping it opens
+// the challenge's game.
+const DailyChallengeCard = ({
+  challenge,
+  progress,
+  completed,
+  streak,
+  color,
+  onPress,
+}: DailyChallengeCardProps) => {
+  const { t, locale } = useTranslation();
+  const description = describeChallenge(challenge, locale);
+
+  return (
+    <Animated.View entering={FadeInDown.delay(400).springify()}>
+      <Pressable
+        onPress={onPress}
+        style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+        accessibilityRole="button"
+        accessibilityLabel={t("daily.label", { challenge: description })}
+      >
+        <LinearGradient
+          colors={[color, color + "99"]}
+          style={styles.gradient}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <View style={styles.headerRow}>
+            <Text style={styles.heading}>🏆 {t("daily.title")}</Text>
+            {streak > 0 && (
+              <Text style={styles.streak}>
+                🔥 {t("daily.streak", { count: streak })}
+              </Text>
+            )}
+          </View>
+          <Text style={styles.description}>{description}</Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${(progress / challenge.target) * 100}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.footer}>
+            {completed
+              ? t("daily.done", { bonus: CHALLENGE_BONUS_STARS })
+              : t("daily.progress", {
+                  progress,
+                  target: challenge.target,
+                  bonus: CHALLENGE_BONUS_STARS,
+                })}
+          </Text>
+        </LinearGradient>
+      </Pressable>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: 18,
+    elevation: 4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+  },
+  cardPressed: {
+    transform: [{ scale: 0.98 }],
+  },
+  gradient: {
+    borderRadius: 18,
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  heading: {
+    fontFamily: "BubbleGum",
+    fontSize: 20,
+    color: "white",
+  },
+  streak: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "white",
+    fontWeight: "bold",
+  },
+  description: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "white",
+    fontWeight: "bold",
+    marginTop: 6,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "rgba(255, 255, 255, 0.35)",
+    marginTop: 10,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 5,
+    backgroundColor: "white",
+  },
+  footer: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "white",
+    marginTop: 6,
+  },
+});
+
+export default DailyChallengeCard;
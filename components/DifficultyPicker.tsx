@@ -0,0 +1,186 @@
+import * as Haptics from "expo-haptics";
+import { Check, Lock } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  View,
+  Pressable,
+  Text,
+  StyleSheet,
+  Modal,
+  StyleProp,
+  TextStyle,
+  ViewStyle,
+  TouchableWithoutFeedback,
+} from "react-native";
+
+import ParentalGate from "./ParentalGate";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+import { MAX_LEVEL, MIN_LEVEL } from "../utils/adaptiveDifficulty";
+
+type DifficultyPickerProps = {
+  level: number;
+  locked: boolean;
+  onSelect: (level: number | null) => void;
+  style?: StyleProp<ViewStyle>;
+  textStyle?: StyleProp<TextStyle>;
+  iconColor?: string;
+  // Opens with a tap rather than a long press, for menus
+  openOnPress?: boolean;
+};
+
+const LEVELS = Array.from(
+  { length: MAX_LEVEL - MIN_LEVEL + 1 },
+  (_, i) => MIN_LEVEL + i,
+);
+
+// Shows the current level; a long press lets an adult lock it
+const DifficultyPicker = ({
+  level,
+  locked,
+  onSelect,
+  style,
+  textStyle,
+  iconColor = "white",
+  openOnPress = false,
+}: DifficultyPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
+
+  const handleOpen = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    requestAccess("settings", () => setOpen(true));
+  };
+
+  const handleSelect = (selected: number | null) => {
+    onSelect(selected);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Pressable
+        onPress={openOnPress ? handleOpen : undefined}
+        onLongPress={openOnPress ? undefined : handleOpen}
+        delayLongPress={800}
+        style={[styles.button, style]}
+        accessibilityRole="button"
+        accessibilityLabel={t(
+          locked ? "difficulty.locked" : "difficulty.level",
+          {
+            level,
+          },
+        )}
+        accessibilityHint={t(
+          openOnPress ? "difficulty.choose" : "difficulty.longPress",
+        )}
+      >
+        {locked && <Lock size={14} color={iconColor} style={styles.lockIcon} />}
+        <Text style={textStyle}>{t("difficulty.level", { level })}</Text>
+      </Pressable>
+
+      <Modal
+        visible={open}
+        transparent
+        animationType="fade"
+        statusBarTranslucent
+        onRequestClose={() => setOpen(false)}
+      >
+        <TouchableWithoutFeedback onPress={() => setOpen(false)}>
+          <View style={styles.modalOverlay}>
+            <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+              <View style={styles.card}>
+                <Text style={styles.title}>{t("common.difficulty")}</Text>
+                <Pressable
+                  style={[styles.option, !locked && styles.selectedOption]}
+                  onPress={() => handleSelect(null)}
+                >
+                  <Text style={styles.optionText}>
+                    {t("difficulty.automatic")}
+                  </Text>
+                  {!locked && <Check size={18} color="#3182CE" />}
+                </Pressable>
+                {LEVELS.map((option) => {
+                  const isSelected = locked && option === level;
+                  return (
+                    <Pressable
+                      key={option}
+                      style={[
+                        styles.option,
+                        isSelected && styles.selectedOption,
+                      ]}
+                      onPress={() => handleSelect(option)}
+                    >
+                      <Text style={styles.optionText}>
+                        {t("difficulty.level", { level: option })}
+                      </Text>
+                      {isSelected && <Lock size={18} color="#3182CE" />}
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+
+      <ParentalGate {...gateProps} />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  lockIcon: {
+    marginRight: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 300,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 20,
+    padding: 16,
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 26,
+    color: "#4A5568",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginVertical: 2,
+  },
+  selectedOption: {
+    backgroundColor: "rgba(235, 244, 255, 0.8)",
+  },
+  optionText: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "#4A5568",
+  },
+});
+
+export default DifficultyPicker;
@@ -1,5 +1,5 @@
 import React from "react";
-import { StyleSheet, Image, DimensionValue } from "react-native";
+import { StyleSheet, Image, DimensionValue, Text } from "react-native";
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
@@ -9,7 +9,7 @@ import Animated, {
   withDelay,
 } from "react-native-reanimated";
 
-const ANIMAL_IMAGES = {
+export const ANIMAL_IMAGES = {
   bunny: { uri: "https://cdn-icons-png.flaticon.com/512/3069/3069172.png" },
   cat: { uri: "https://cdn-icons-png.flaticon.com/512/616/616430.png" },
   dog: { uri: "https://cdn-icons-png.flaticon.com/512/616/616408.png" },
@@ -18,10 +18,25 @@ const ANIMAL_IMAGES = {
   lion: { uri: "https://cdn-icons-png.flaticon.com/512/616/616412.png" },
 };
 
-type AnimalType = keyof typeof ANIMAL_IMAGES;
+export type AnimalType = keyof typeof ANIMAL_IMAGES;
+
+export const ANIMAL_TYPES = Object.keys(ANIMAL_IMAGES) as AnimalType[];
+
+// Characters won in the sticker book, drawn as emoji rather than images
+export const BONUS_CHARACTERS = {
+  panda: "🐼",
+  owl: "🦉",
+  unicorn: "🦄",
+  dragon: "🐉",
+};
+
+export type CharacterType = AnimalType | keyof typeof BONUS_CHARACTERS;
+
+const isAnimal = (type: CharacterType): type is AnimalType =>
+  type in ANIMAL_IMAGES;
 
 type FloatingAnimalProps = {
-  type: AnimalType;
+  type: CharacterType;
   size?: number;
   position?: {
     top?: DimensionValue;
@@ -94,11 +109,17 @@ const FloatingAnimal = ({
         animatedStyle,
       ]}
     >
-      <Image
-        source={ANIMAL_IMAGES[type]}
-        style={[styles.image, { tintColor: color }]}
-        resizeMode="contain"
-      />
+      {isAnimal(type) ? (
+        <Image
+          source={ANIMAL_IMAGES[type]}
+          style={[styles.image, { tintColor: color }]}
+          resizeMode="contain"
+        />
+      ) : (
+        <Text style={[styles.emoji, { fontSize: size * 0.8 }]}>
+          {BONUS_CHARACTERS[type]}
+        </Text>
+      )}
     </Animated.View>
   );
 };
@@ -112,6 +133,9 @@ const styles = StyleSheet.create({
     width: "100%",
     height: "100%",
   },
+  emoji: {
+    textAlign: "center",
+  },
 });
 
 export default FloatingAnimal;
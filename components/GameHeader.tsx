@@ -1,30 +1,68 @@
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
-import { useRouter } from "expo-router";
-import { ArrowLeft } from "lucide-react-native";
-import React from "react";
-import { View, Text, StyleSheet, Pressable } from "react-native";
+import { useNavigation, useRouter } from "expo-router";
+import { ArrowLeft, Pause } from "lucide-react-native";
+import React, { useEffect } from "react";
+import { View, Text, StyleSheet, Pressable, BackHandler } from "react-native";
 
 import AudioSettingDropdown from "../components/AudioSettingDropdown";
+import ParentalGate from "../components/ParentalGate";
+import { useGameContext } from "../contexts/GameContext";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
 
 type GameHeaderProps = {
   title: string;
   subtitle?: string;
   colors?: [string, string, ...string[]];
+  // Whether leaving goes through the exit gate, when a parent has set one
+  gateExit?: boolean;
+  // Shows a pause button while the game can be paused
+  onPause?: () => void;
 };
 
 const GameHeader = ({
   title,
   subtitle,
   colors = ["#FF9A9E", "#FECFEF"],
+  gateExit = true,
+  onPause,
 }: GameHeaderProps) => {
   const router = useRouter();
+  const navigation = useNavigation();
+  const { parentalGate } = useGameContext();
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
+  const exitGated = gateExit && parentalGate.exitGame !== "none";
 
   const handleBackPress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    router.back();
+    if (gateExit) {
+      requestAccess("exitGame", () => router.back());
+    } else {
+      router.back();
+    }
   };
 
+  // The Android back button has to go through the same gate
+  useEffect(() => {
+    if (!exitGated) return;
+
+    const subscription = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => {
+        requestAccess("exitGame", () => router.back());
+        return true;
+      },
+    );
+    return () => subscription.remove();
+  }, [exitGated, requestAccess, router]);
+
+  // The iOS swipe back can't be gated, so it's turned off instead
+  useEffect(() => {
+    navigation.setOptions({ gestureEnabled: !exitGated });
+  }, [exitGated, navigation]);
+
   return (
     <LinearGradient
       colors={colors}
@@ -46,8 +84,27 @@ const GameHeader = ({
         {subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
       </View>
       <View style={styles.dropdownContainer}>
+        {onPause && (
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onPause();
+            }}
+            style={({ pressed }) => [
+              styles.backButton,
+              styles.pauseButton,
+              pressed && styles.backButtonPressed,
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={t("pause.button")}
+          >
+            <Pause size={22} color="white" />
+          </Pressable>
+        )}
         <AudioSettingDropdown />
       </View>
+
+      <ParentalGate {...gateProps} />
     </LinearGradient>
   );
 };
@@ -95,8 +152,13 @@ const styles = StyleSheet.create({
     opacity: 0.9,
   },
   dropdownContainer: {
+    flexDirection: "row",
+    alignItems: "center",
     marginLeft: "auto",
   },
+  pauseButton: {
+    marginRight: 8,
+  },
 });
 
 export default GameHeader;
@@ -0,0 +1,282 @@
+import { Check, Lock } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  Modal,
+  Platform,
+  TouchableWithoutFeedback,
+} from "react-native";
+import Animated, {
+  cancelAnimation,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  GateChallenge,
+  HOLD_DURATION_MS,
+  createArithmeticChallenge,
+} from "../utils/parentalGate";
+
+export type ParentalGateProps = {
+  visible: boolean;
+  challenge: GateChallenge;
+  onPass: () => void;
+  onCancel: () => void;
+};
+
+const HoldChallenge = ({ onPass }: { onPass: () => void }) => {
+  const { t } = useTranslation();
+  const progress = useSharedValue(0);
+
+  const handlePressIn = () => {
+    progress.value = withTiming(
+      1,
+      { duration: HOLD_DURATION_MS },
+      (finished) => {
+        if (finished) runOnJS(onPass)();
+      },
+    );
+  };
+
+  // Letting go early starts the hold over
+  const handlePressOut = () => {
+    cancelAnimation(progress);
+    progress.value = withTiming(0, { duration: 150 });
+  };
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+  }));
+
+  return (
+    <>
+      <Text style={styles.instructions}>
+        {t("gate.holdInstructions", { count: HOLD_DURATION_MS / 1000 })}
+      </Text>
+      <Pressable
+        onPressIn={handlePressIn}
+        onPressOut={handlePressOut}
+        style={styles.holdButton}
+        accessibilityRole="button"
+        accessibilityLabel={t("gate.holdLabel")}
+      >
+        <Animated.View style={[styles.holdFill, fillStyle]} />
+        <Lock size={20} color="white" />
+        <Text style={styles.holdText}>{t("gate.hold")}</Text>
+      </Pressable>
+    </>
+  );
+};
+
+const ArithmeticChallenge = ({ onPass }: { onPass: () => void }) => {
+  const { t } = useTranslation();
+  const [question, setQuestion] = useState(() => createArithmeticChallenge(t));
+  const [input, setInput] = useState("");
+  const [wrong, setWrong] = useState(false);
+
+  // A wrong answer gets a new question, so guesses don't add up
+  const handleCheck = () => {
+    if (parseInt(input, 10) === question.answer) {
+      onPass();
+      return;
+    }
+    setQuestion(createArithmeticChallenge(t));
+    setInput("");
+    setWrong(true);
+  };
+
+  return (
+    <>
+      <Text style={styles.instructions}>
+        {wrong
+          ? t("gate.wrong", { question: question.question })
+          : question.question}
+      </Text>
+      <View style={styles.answerRow}>
+        <TextInput
+          value={input}
+          onChangeText={(text) => setInput(text.replace(/[^0-9]/g, ""))}
+          onSubmitEditing={handleCheck}
+          keyboardType="number-pad"
+          maxLength={3}
+          style={styles.answerInput}
+          accessibilityLabel={t("gate.answer")}
+        />
+        <Pressable
+          onPress={handleCheck}
+          disabled={input.length === 0}
+          style={[
+            styles.checkButton,
+            input.length === 0 && styles.checkButtonDisabled,
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={t("gate.check")}
+        >
+          <Check size={24} color="white" />
+        </Pressable>
+      </View>
+    </>
+  );
+};
+
+// Stands in front of anything meant for grown-ups. The challenge is one a
+// young child is unlikely to pass by tapping around.
+const ParentalGate = ({
+  visible,
+  challenge,
+  onPass,
+  onCancel,
+}: ParentalGateProps) => {
+  const { t } = useTranslation();
+  const [passed, setPassed] = useState(false);
+
+  useEffect(() => {
+    if (visible) setPassed(false);
+  }, [visible]);
+
+  // iOS can't present another modal until this one has fully closed, so the
+  // action runs from onDismiss there
+  const handlePass = () => {
+    setPassed(true);
+    if (Platform.OS !== "ios") onPass();
+  };
+
+  const handleDismiss = () => {
+    if (passed) onPass();
+  };
+
+  return (
+    <Modal
+      visible={visible && !passed}
+      transparent
+      animationType="fade"
+      statusBarTranslucent
+      onRequestClose={onCancel}
+      onDismiss={handleDismiss}
+    >
+      <TouchableWithoutFeedback onPress={onCancel}>
+        <View style={styles.modalOverlay}>
+          <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+            <View style={styles.card}>
+              <Text style={styles.title}>{t("gate.title")}</Text>
+              {challenge === "arithmetic" ? (
+                <ArithmeticChallenge onPass={handlePass} />
+              ) : (
+                <HoldChallenge onPass={handlePass} />
+              )}
+              <Pressable onPress={onCancel} style={styles.cancelButton}>
+                <Text style={styles.cancelText}>{t("gate.cancel")}</Text>
+              </Pressable>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 320,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 20,
+    padding: 20,
+    alignItems: "center",
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 26,
+    color: "#4A5568",
+    marginBottom: 8,
+  },
+  instructions: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "#4A5568",
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  holdButton: {
+    width: "100%",
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: "#A0AEC0",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  holdFill: {
+    position: "absolute",
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: "#3182CE",
+  },
+  holdText: {
+    fontFamily: "BubbleGum",
+    fontSize: 22,
+    color: "white",
+    marginLeft: 8,
+  },
+  answerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  answerInput: {
+    width: 100,
+    height: 52,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#CBD5E0",
+    fontFamily: "ComicNeue",
+    fontSize: 24,
+    color: "#4A5568",
+    textAlign: "center",
+  },
+  checkButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: "#3182CE",
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 12,
+  },
+  checkButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    marginTop: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  cancelText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#718096",
+  },
+});
+
+export default ParentalGate;
@@ -0,0 +1,153 @@
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import { Home, Play, RotateCcw } from "lucide-react-native";
+import React from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeIn } from "react-native-reanimated";
+
+import DifficultyPicker from "./DifficultyPicker";
+import ParentalGate from "./ParentalGate";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+
+type PauseMenuProps = {
+  visible: boolean;
+  onResume: () => void;
+  onRestart: () => void;
+  // Left out by games that don't have levels
+  difficulty?: {
+    level: number;
+    locked: boolean;
+    onSelect: (level: number | null) => void;
+  };
+  color?: string;
+};
+
+// Covers a paused game. It's drawn over the screen rather than in a modal so
+// the difficulty picker and parental gate can open on top of it.
+const PauseMenu = ({
+  visible,
+  onResume,
+  onRestart,
+  difficulty,
+  color = "#5B9AE6",
+}: PauseMenuProps) => {
+  const router = useRouter();
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
+
+  if (!visible) return null;
+
+  const handlePress = (action: () => void) => () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    action();
+  };
+
+  const handleExit = () => requestAccess("exitGame", () => router.back());
+
+  return (
+    <Animated.View entering={FadeIn} style={styles.overlay}>
+      <View style={styles.card}>
+        <Text style={[styles.title, { color }]}>{t("pause.title")}</Text>
+
+        <Pressable
+          onPress={handlePress(onResume)}
+          style={[
+            styles.option,
+            styles.resumeOption,
+            { backgroundColor: color },
+          ]}
+          accessibilityRole="button"
+        >
+          <Play size={22} color="white" />
+          <Text style={[styles.optionText, styles.resumeText]}>
+            {t("pause.resume")}
+          </Text>
+        </Pressable>
+
+        <Pressable
+          onPress={handlePress(onRestart)}
+          style={[styles.option, { borderColor: color }]}
+          accessibilityRole="button"
+        >
+          <RotateCcw size={20} color={color} />
+          <Text style={styles.optionText}>{t("pause.restart")}</Text>
+        </Pressable>
+
+        {difficulty && (
+          <DifficultyPicker
+            {...difficulty}
+            openOnPress
+            style={[styles.option, { borderColor: color }]}
+            textStyle={styles.optionText}
+            iconColor={color}
+          />
+        )}
+
+        <Pressable
+          onPress={handlePress(handleExit)}
+          style={[styles.option, { borderColor: color }]}
+          accessibilityRole="button"
+        >
+          <Home size={20} color={color} />
+          <Text style={styles.optionText}>{t("pause.leave")}</Text>
+        </Pressable>
+      </View>
+
+      <ParentalGate {...gateProps} />
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    zIndex: 100,
+    elevation: 100,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 320,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 36,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 2,
+    marginTop: 10,
+  },
+  resumeOption: {
+    borderColor: "transparent",
+  },
+  optionText: {
+    fontFamily: "ComicNeue",
+    fontSize: 20,
+    color: "#4A5568",
+    marginLeft: 8,
+  },
+  resumeText: {
+    color: "white",
+  },
+});
+
+export default PauseMenu;
@@ -0,0 +1,303 @@
+import * as Haptics from "expo-haptics";
+import { Check, UserPlus } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  View,
+  Pressable,
+  Text,
+  TextInput,
+  StyleSheet,
+  Image,
+  Modal,
+  TouchableWithoutFeedback,
+} from "react-native";
+
+import { ANIMAL_IMAGES, ANIMAL_TYPES, AnimalType } from "./FloatingAnimal";
+import { useGameContext } from "../contexts/GameContext";
+import { useTranslation } from "../hooks/useTranslation";
+
+const MAX_NAME_LENGTH = 16;
+
+const Avatar = ({ type, size = 32 }: { type: AnimalType; size?: number }) => (
+  <View
+    style={[
+      styles.avatar,
+      { width: size, height: size, borderRadius: size / 2 },
+    ]}
+  >
+    <Image
+      source={ANIMAL_IMAGES[type]}
+      style={{ width: size * 0.7, height: size * 0.7 }}
+      resizeMode="contain"
+    />
+  </View>
+);
+
+const ProfileSwitcher = () => {
+  const { profiles, activeProfile, addProfile, switchProfile } =
+    useGameContext();
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newAvatar, setNewAvatar] = useState<AnimalType>(ANIMAL_TYPES[0]);
+
+  const closeModal = () => {
+    setOpen(false);
+    setIsAdding(false);
+    setNewName("");
+  };
+
+  const handleSelect = (id: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    switchProfile(id);
+    closeModal();
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const id = addProfile(name, newAvatar);
+    switchProfile(id);
+    closeModal();
+  };
+
+  return (
+    <View>
+      <Pressable
+        style={({ pressed }) => [styles.button, pressed && styles.pressed]}
+        onPress={() => setOpen(true)}
+        accessibilityRole="button"
+        accessibilityLabel={t("profiles.switch")}
+      >
+        <Avatar type={activeProfile.avatar} size={28} />
+        <Text style={styles.buttonText} numberOfLines={1}>
+          {activeProfile.name}
+        </Text>
+      </Pressable>
+
+      <Modal
+        visible={open}
+        transparent
+        animationType="fade"
+        statusBarTranslucent
+        onRequestClose={closeModal}
+      >
+        <TouchableWithoutFeedback onPress={closeModal}>
+          <View style={styles.modalOverlay}>
+            <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+              <View style={styles.card}>
+                <Text style={styles.title}>{t("profiles.title")}</Text>
+
+                {profiles.map((profile) => {
+                  const isActive = profile.id === activeProfile.id;
+                  return (
+                    <Pressable
+                      key={profile.id}
+                      style={({ pressed }) => [
+                        styles.option,
+                        isActive && styles.selectedOption,
+                        pressed && styles.pressed,
+                      ]}
+                      onPress={() => handleSelect(profile.id)}
+                    >
+                      <Avatar type={profile.avatar} />
+                      <Text
+                        style={[
+                          styles.optionText,
+                          isActive && styles.selectedOptionText,
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {profile.name}
+                      </Text>
+                      {isActive && <Check size={20} color="#3182CE" />}
+                    </Pressable>
+                  );
+                })}
+
+                {isAdding ? (
+                  <View style={styles.addContainer}>
+                    <TextInput
+                      style={styles.input}
+                      value={newName}
+                      onChangeText={setNewName}
+                      placeholder={t("profiles.name")}
+                      maxLength={MAX_NAME_LENGTH}
+                      autoFocus
+                      onSubmitEditing={handleAdd}
+                    />
+                    <View style={styles.avatarRow}>
+                      {ANIMAL_TYPES.map((type) => (
+                        <Pressable
+                          key={type}
+                          onPress={() => setNewAvatar(type)}
+                          style={[
+                            styles.avatarChoice,
+                            newAvatar === type && styles.avatarChoiceSelected,
+                          ]}
+                          accessibilityLabel={type}
+                        >
+                          <Avatar type={type} size={36} />
+                        </Pressable>
+                      ))}
+                    </View>
+                    <Pressable
+                      style={[
+                        styles.addButton,
+                        !newName.trim() && styles.addButtonDisabled,
+                      ]}
+                      onPress={handleAdd}
+                      disabled={!newName.trim()}
+                    >
+                      <Text style={styles.addButtonText}>
+                        {t("profiles.add")}
+                      </Text>
+                    </Pressable>
+                  </View>
+                ) : (
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.option,
+                      pressed && styles.pressed,
+                    ]}
+                    onPress={() => setIsAdding(true)}
+                  >
+                    <UserPlus size={20} color="#4A5568" />
+                    <Text style={styles.optionText}>{t("profiles.new")}</Text>
+                  </Pressable>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+};
+
+export default ProfileSwitcher;
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+    paddingLeft: 4,
+    paddingRight: 12,
+    maxWidth: 180,
+    backgroundColor: "rgba(255, 107, 149, 0.9)",
+    borderRadius: 20,
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  pressed: {
+    opacity: 0.8,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  avatar: {
+    backgroundColor: "#FFF5F8",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 360,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 20,
+    padding: 16,
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 28,
+    color: "#FF6B95",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginVertical: 2,
+  },
+  selectedOption: {
+    backgroundColor: "rgba(235, 244, 255, 0.8)",
+  },
+  optionText: {
+    fontFamily: "ComicNeue",
+    marginLeft: 12,
+    fontSize: 18,
+    color: "#4A5568",
+    flex: 1,
+  },
+  selectedOptionText: {
+    color: "#3182CE",
+  },
+  addContainer: {
+    marginTop: 8,
+  },
+  input: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    borderWidth: 1,
+    borderColor: "rgba(226, 232, 240, 1)",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: "#333333",
+  },
+  avatarRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    marginVertical: 12,
+  },
+  avatarChoice: {
+    padding: 3,
+    margin: 3,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  avatarChoiceSelected: {
+    borderColor: "#FF6B95",
+  },
+  addButton: {
+    backgroundColor: "#FF6B95",
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontFamily: "BubbleGum",
+    fontSize: 20,
+    color: "white",
+  },
+});
@@ -0,0 +1,195 @@
+import { Download, Share2, Table } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  Share,
+} from "react-native";
+
+import ParentalGate from "./ParentalGate";
+import { useGameContext } from "../contexts/GameContext";
+import { useParentalGate } from "../hooks/useParentalGate";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  ImportError,
+  createCsvSummary,
+  createExport,
+  serializeExport,
+} from "../utils/progressTransfer";
+
+type Status = { message: string; error: boolean } | null;
+
+// Sharing progress out through the share sheet, and pasting it back in on
+// another device
+const ProgressTransfer = () => {
+  const { profiles, activeProfile, importProgress } = useGameContext();
+  const { requestAccess, gateProps } = useParentalGate();
+  const { t } = useTranslation();
+  const [importing, setImporting] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [status, setStatus] = useState<Status>(null);
+
+  const share = (title: string, message: string) => {
+    requestAccess("externalLink", () => {
+      Share.share({ title, message }).catch((error) =>
+        console.error("Failed to share progress:", error),
+      );
+    });
+  };
+
+  const handleShareProgress = () =>
+    share(
+      t("dashboard.progress", { name: activeProfile.name }),
+      serializeExport(createExport([activeProfile])),
+    );
+
+  const handleShareSummary = () =>
+    share(t("transfer.summaryTitle"), createCsvSummary(profiles));
+
+  const handleImport = () => {
+    try {
+      const { added, merged } = importProgress(importText);
+      const parts = [
+        merged.length > 0 &&
+          t("transfer.updated", { names: merged.join(", ") }),
+        added.length > 0 && t("transfer.added", { names: added.join(", ") }),
+      ].filter(Boolean);
+      setStatus({ message: parts.join(" "), error: false });
+      setImportText("");
+      setImporting(false);
+    } catch (error) {
+      setStatus({
+        message:
+          error instanceof ImportError ? t(error.key) : t("transfer.failed"),
+        error: true,
+      });
+    }
+  };
+
+  return (
+    <View>
+      <Pressable onPress={handleShareProgress} style={styles.button}>
+        <Share2 size={18} color="#5B9AE6" />
+        <Text style={styles.buttonText}>
+          {t("transfer.share", { name: activeProfile.name })}
+        </Text>
+      </Pressable>
+      <Pressable onPress={handleShareSummary} style={styles.button}>
+        <Table size={18} color="#5B9AE6" />
+        <Text style={styles.buttonText}>{t("transfer.shareSummary")}</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => {
+          setImporting((prev) => !prev);
+          setStatus(null);
+        }}
+        style={styles.button}
+      >
+        <Download size={18} color="#5B9AE6" />
+        <Text style={styles.buttonText}>{t("transfer.import")}</Text>
+      </Pressable>
+
+      {importing && (
+        <View style={styles.importContainer}>
+          <Text style={styles.hint}>{t("transfer.hint")}</Text>
+          <TextInput
+            value={importText}
+            onChangeText={setImportText}
+            multiline
+            autoCorrect={false}
+            autoCapitalize="none"
+            placeholder={t("transfer.placeholder")}
+            style={styles.importInput}
+          />
+          <Pressable
+            onPress={handleImport}
+            disabled={importText.trim().length === 0}
+            style={[
+              styles.importButton,
+              importText.trim().length === 0 && styles.importButtonDisabled,
+            ]}
+          >
+            <Text style={styles.importButtonText}>
+              {t("transfer.importButton")}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+
+      {status && (
+        <Text style={[styles.status, status.error && styles.statusError]}>
+          {status.message}
+        </Text>
+      )}
+
+      <ParentalGate {...gateProps} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#5B9AE6",
+    marginBottom: 8,
+  },
+  buttonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#3182CE",
+    marginLeft: 8,
+  },
+  importContainer: {
+    marginTop: 4,
+  },
+  hint: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "#718096",
+    marginBottom: 8,
+  },
+  importInput: {
+    height: 120,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#CBD5E0",
+    padding: 10,
+    fontSize: 12,
+    color: "#4A5568",
+    textAlignVertical: "top",
+  },
+  importButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#5B9AE6",
+    alignItems: "center",
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "white",
+  },
+  status: {
+    fontFamily: "ComicNeue",
+    fontSize: 15,
+    color: "#38A169",
+    marginTop: 8,
+  },
+  statusError: {
+    color: "#E53E3E",
+  },
+});
+
+export default ProgressTransfer;
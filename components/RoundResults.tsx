@@ -0,0 +1,263 @@
+import * as Haptics from "expo-haptics";
+import { ChevronsUp, RotateCcw, Star } from "lucide-react-native";
+import React, { useEffect } from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeIn, ZoomIn } from "react-native-reanimated";
+
+import { useSpeech } from "../hooks/useSpeech";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  BEST_LABELS,
+  GameResult,
+  MAX_STARS,
+  Reward,
+  describeResult,
+  getRewards,
+} from "../utils/results";
+
+type RoundResultsProps = {
+  // Hidden while there's no result
+  result: GameResult | null;
+  onReplay: () => void;
+  // Left out by games without levels, or when there's no level above
+  onNextLevel?: () => void;
+  // Anything else won in the game, shown after the stars
+  rewards?: Reward[];
+  color?: string;
+};
+
+const formatTime = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}`;
+};
+
+// The end of a game: stars, how it went, new bests and what was won. It's
+// drawn over the screen like the pause menu, and read out when it appears.
+const RoundResults = ({
+  result,
+  onReplay,
+  onNextLevel,
+  rewards = [],
+  color = "#5B9AE6",
+}: RoundResultsProps) => {
+  const { speakText } = useSpeech();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (result) speakText(describeResult(result, t));
+  }, [result]);
+
+  if (!result) return null;
+
+  const handlePress = (action: () => void) => () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    action();
+  };
+
+  const allRewards = [...getRewards(result, t), ...rewards];
+  // The next level is offered once a level has been mastered
+  const showNextLevel = onNextLevel && result.stars === MAX_STARS;
+
+  return (
+    <Animated.View entering={FadeIn} style={styles.overlay}>
+      <View style={styles.card}>
+        <Text style={[styles.title, { color }]}>{t("results.title")}</Text>
+
+        <View style={styles.stars}>
+          {Array.from({ length: MAX_STARS }, (_, index) => {
+            const earned = index < result.stars;
+            return (
+              <Animated.View
+                key={index}
+                entering={ZoomIn.delay(200 + index * 250).springify()}
+              >
+                <Star
+                  size={52}
+                  color={earned ? "#FFC93C" : "#CBD5E0"}
+                  fill={earned ? "#FFD86B" : "transparent"}
+                />
+              </Animated.View>
+            );
+          })}
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{result.score}</Text>
+            <Text style={styles.statLabel}>{t("common.score")}</Text>
+          </View>
+          {result.accuracy !== null && (
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>
+                {Math.round(result.accuracy * 100)}%
+              </Text>
+              <Text style={styles.statLabel}>{t("results.right")}</Text>
+            </View>
+          )}
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {formatTime(result.durationMs)}
+            </Text>
+            <Text style={styles.statLabel}>{t("common.time")}</Text>
+          </View>
+        </View>
+
+        {result.newBests.map((kind) => (
+          <Animated.View
+            key={kind}
+            entering={ZoomIn.delay(1000)}
+            style={[styles.best, { backgroundColor: color }]}
+          >
+            <Text style={styles.bestText}>🏆 {t(BEST_LABELS[kind])}!</Text>
+          </Animated.View>
+        ))}
+
+        <View style={styles.rewards}>
+          {allRewards.map((reward) => (
+            <View key={reward.label} style={styles.reward}>
+              <Text style={styles.rewardEmoji}>{reward.emoji}</Text>
+              <Text style={styles.rewardLabel}>{reward.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Pressable
+          onPress={handlePress(onReplay)}
+          style={[
+            styles.option,
+            styles.primaryOption,
+            { backgroundColor: color },
+          ]}
+          accessibilityRole="button"
+        >
+          <RotateCcw size={20} color="white" />
+          <Text style={[styles.optionText, styles.primaryText]}>
+            {t("results.playAgain")}
+          </Text>
+        </Pressable>
+
+        {showNextLevel && (
+          <Pressable
+            onPress={handlePress(onNextLevel)}
+            style={[styles.option, { borderColor: color }]}
+            accessibilityRole="button"
+          >
+            <ChevronsUp size={22} color={color} />
+            <Text style={styles.optionText}>{t("results.nextLevel")}</Text>
+          </Pressable>
+        )}
+      </View>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    zIndex: 90,
+    elevation: 90,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 340,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    elevation: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 36,
+    textAlign: "center",
+  },
+  stars: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginVertical: 12,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginBottom: 8,
+  },
+  stat: {
+    alignItems: "center",
+  },
+  statValue: {
+    fontFamily: "BubbleGum",
+    fontSize: 28,
+    color: "#4A5568",
+  },
+  statLabel: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#718096",
+  },
+  best: {
+    alignSelf: "center",
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginTop: 6,
+  },
+  bestText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "white",
+    fontWeight: "bold",
+  },
+  rewards: {
+    marginTop: 10,
+  },
+  reward: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F7FAFC",
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginTop: 6,
+  },
+  rewardEmoji: {
+    fontSize: 22,
+    marginRight: 8,
+  },
+  rewardLabel: {
+    flex: 1,
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: "#4A5568",
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 2,
+    marginTop: 10,
+  },
+  primaryOption: {
+    borderColor: "transparent",
+    marginTop: 16,
+  },
+  optionText: {
+    fontFamily: "ComicNeue",
+    fontSize: 20,
+    color: "#4A5568",
+    marginLeft: 8,
+  },
+  primaryText: {
+    color: "white",
+  },
+});
+
+export default RoundResults;
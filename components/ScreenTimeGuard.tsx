@@ -0,0 +1,115 @@
+import { LinearGradient } from "expo-linear-gradient";
+import * as Speech from "expo-speech";
+import { Lock, Moon } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
+import { Text, StyleSheet, Pressable, Modal } from "react-native";
+
+import ParentalGate from "./ParentalGate";
+import { useGameContext } from "../contexts/GameContext";
+import { pauseActiveGame } from "../hooks/useRoundEngine";
+import { useScreenTime } from "../hooks/useScreenTime";
+import { useSpeech } from "../hooks/useSpeech";
+import { useTranslation } from "../hooks/useTranslation";
+import { EXTRA_TIME_MS } from "../utils/screenTime";
+
+// Keeps track of the daily play limit and covers the whole app with a calm
+// rest screen once it runs out. Only a grown-up can get past it.
+const ScreenTimeGuard = () => {
+  const { activeProfile, grantExtraTime } = useGameContext();
+  const { timeUp } = useScreenTime();
+  const { speakText } = useSpeech();
+  const { t } = useTranslation();
+  const [gateOpen, setGateOpen] = useState(false);
+
+  // Stop the game underneath rather than let it carry on behind the screen
+  useEffect(() => {
+    if (timeUp) {
+      pauseActiveGame();
+      Speech.stop();
+    } else {
+      setGateOpen(false);
+    }
+  }, [timeUp]);
+
+  return (
+    <Modal
+      visible={timeUp}
+      animationType="fade"
+      statusBarTranslucent
+      // Spoken once the game has gone quiet
+      onShow={() => speakText(t("screenTime.restSpoken"))}
+      // The back button can't close it
+      onRequestClose={() => {}}
+    >
+      <LinearGradient colors={["#2D3A6B", "#5B6BA6"]} style={styles.container}>
+        <Moon size={96} color="#FFE9A8" fill="#FFE9A8" />
+        <Text style={styles.title}>{t("screenTime.title")}</Text>
+        <Text style={styles.message}>
+          {t("screenTime.message", { name: activeProfile.name })}
+        </Text>
+
+        <Pressable
+          onPress={() => setGateOpen(true)}
+          style={styles.parentButton}
+          accessibilityRole="button"
+          accessibilityLabel={t("screenTime.moreTimeLabel")}
+        >
+          <Lock size={14} color="rgba(255, 255, 255, 0.7)" />
+          <Text style={styles.parentButtonText}>
+            {t("screenTime.moreTime", { count: EXTRA_TIME_MS / 60000 })}
+          </Text>
+        </Pressable>
+      </LinearGradient>
+
+      {/* Always a sum here, whatever the other gates are set to */}
+      <ParentalGate
+        visible={gateOpen}
+        challenge="arithmetic"
+        onPass={() => {
+          setGateOpen(false);
+          grantExtraTime(EXTRA_TIME_MS);
+        }}
+        onCancel={() => setGateOpen(false)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  title: {
+    fontFamily: "BubbleGum",
+    fontSize: 44,
+    color: "white",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  message: {
+    fontFamily: "ComicNeue",
+    fontSize: 20,
+    color: "rgba(255, 255, 255, 0.9)",
+    textAlign: "center",
+    maxWidth: 420,
+  },
+  parentButton: {
+    position: "absolute",
+    bottom: 40,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  parentButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 14,
+    color: "rgba(255, 255, 255, 0.7)",
+    marginLeft: 6,
+  },
+});
+
+export default ScreenTimeGuard;
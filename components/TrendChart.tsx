@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { View, StyleSheet, LayoutChangeEvent } from "react-native";
+import Svg, { Circle, Line, Polyline, Text as SvgText } from "react-native-svg";
+
+export type TrendChartPoint = {
+  label: string;
+  // From 0 to 1, or null when there is nothing to show for this point
+  value: number | null;
+};
+
+type TrendChartProps = {
+  data: TrendChartPoint[];
+  color: string;
+  height?: number;
+  showLabels?: boolean;
+};
+
+const LABEL_HEIGHT = 18;
+const PADDING = 8;
+
+// Line chart for values between 0 and 1, such as accuracy over time. Gaps
+// are skipped over rather than drawn as zero.
+const TrendChart = ({
+  data,
+  color,
+  height = 120,
+  showLabels = true,
+}: TrendChartProps) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) =>
+    setWidth(event.nativeEvent.layout.width);
+
+  const plotHeight = height - PADDING * 2 - (showLabels ? LABEL_HEIGHT : 0);
+  const slotWidth = data.length > 0 ? width / data.length : 0;
+  const pointX = (index: number) => index * slotWidth + slotWidth / 2;
+  const pointY = (value: number) => PADDING + (1 - value) * plotHeight;
+
+  const points = data
+    .map((point, index) =>
+      point.value === null
+        ? null
+        : { x: pointX(index), y: pointY(point.value) },
+    )
+    .filter((point): point is { x: number; y: number } => point !== null);
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {[0, 0.5, 1].map((gridValue) => (
+            <Line
+              key={gridValue}
+              x1={0}
+              y1={pointY(gridValue)}
+              x2={width}
+              y2={pointY(gridValue)}
+              stroke="#E2E8F0"
+              strokeWidth={1}
+              strokeDasharray={gridValue === 0 ? undefined : "4 4"}
+            />
+          ))}
+          {points.length > 1 && (
+            <Polyline
+              points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+              fill="none"
+              stroke={color}
+              strokeWidth={3}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+          )}
+          {points.map(({ x, y }, index) => (
+            <Circle key={index} cx={x} cy={y} r={4} fill={color} />
+          ))}
+          {showLabels &&
+            data.map((point, index) => (
+              <SvgText
+                key={index}
+                x={pointX(index)}
+                y={height - 4}
+                fontSize={11}
+                fill="#718096"
+                textAnchor="middle"
+              >
+                {point.label}
+              </SvgText>
+            ))}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+});
+
+export default TrendChart;
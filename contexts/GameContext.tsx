@@ -1,15 +1,121 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+} from "react";
+import { AppState } from "react-native";
 
-export type AudioSetting = "full" | "noSpeech" | "noSound" | "mute";
+import { AnimalType } from "../components/FloatingAnimal";
+import {
+  Achievement,
+  AchievementData,
+  checkAchievements,
+  unlockAchievements,
+} from "../utils/achievements";
+import {
+  AdaptiveMode,
+  DifficultyData,
+  RoundResult,
+  lockLevel,
+  recordRound,
+  stepUp,
+} from "../utils/adaptiveDifficulty";
+import {
+  CHALLENGE_BONUS_STARS,
+  ChallengeActivity,
+  DailyChallenge,
+  DailyData,
+  forDay,
+  generateChallenge,
+  getCurrentStreak,
+  recordChallengeActivity,
+} from "../utils/dailyChallenge";
+import { Locale } from "../utils/i18n";
+import {
+  AnswerRecord,
+  MasteryData,
+  MasteryDomain,
+  getConfidence,
+  recordAnswer as addAnswerToMastery,
+} from "../utils/mastery";
+import {
+  GateChallenge,
+  GatedAction,
+  ParentalGateConfig,
+} from "../utils/parentalGate";
+import {
+  ImportResult,
+  importProfiles,
+  parseExport,
+} from "../utils/progressTransfer";
+import { GameResult, PersonalBests, mergeBest } from "../utils/results";
+import {
+  ScreenTimeData,
+  addExtraTime,
+  addPlayTime as addToScreenTime,
+  getDayKey,
+} from "../utils/screenTime";
+import { SessionLog, addEventLog } from "../utils/sessionEvents";
+import {
+  SessionMode,
+  SessionRecord,
+  addSession,
+} from "../utils/sessionHistory";
+import {
+  RepetitionData,
+  RepetitionDeck,
+  reviewCard,
+} from "../utils/spacedRepetition";
+import { SpellingData, recordCompletedWord } from "../utils/spelling";
+import {
+  StickerBook,
+  awardStickers,
+  buySticker as buyFromBook,
+  equipSticker as equipFromBook,
+  getStarBalance,
+} from "../utils/stickers";
+import {
+  AudioSetting,
+  CountingAidSetting,
+  PersistedData,
+  Profile,
+  ProfileSettings,
+  ProfileStats,
+  Store,
+  createDefaultData,
+  createProfile,
+  createStore,
+} from "../utils/storage";
+
+export type {
+  AudioSetting,
+  CountingAidSetting,
+  Profile,
+  ProfileSettings,
+  ProfileStats,
+} from "../utils/storage";
 
 type GameContextType = {
+  profiles: Profile[];
+  activeProfile: Profile;
+  addProfile: (name: string, avatar: AnimalType) => string;
+  updateProfile: (
+    id: string,
+    changes: Partial<Pick<Profile, "name" | "avatar">>,
+  ) => void;
+  removeProfile: (id: string) => void;
+  resetProfileProgress: (id: string) => void;
+  importProgress: (text: string) => ImportResult;
+  switchProfile: (id: string) => void;
   totalPops: number;
   shapesCompleted: number;
   colorsLearned: number;
   lettersLearned: number;
   mathProblemsCompleted: number;
   highScore: number;
+  starsEarned: number;
   audioSetting: AudioSetting;
   incrementPops: (count?: number) => void;
   incrementShapesCompleted: () => void;
@@ -18,35 +124,89 @@ type GameContextType = {
   incrementMathProblems: () => void;
   updateHighScore: (score: number) => void;
   setAudioSetting: (setting: AudioSetting) => void;
+  countingAid: CountingAidSetting;
+  setCountingAid: (setting: CountingAidSetting) => void;
+  mastery: MasteryData;
+  recordAnswer: (
+    domain: MasteryDomain,
+    item: string,
+    answer: Omit<AnswerRecord, "timestamp">,
+  ) => void;
+  getItemConfidence: (domain: MasteryDomain, item: string) => number;
+  difficulty: DifficultyData;
+  recordRoundResult: (mode: AdaptiveMode, result: RoundResult) => void;
+  setDifficultyLock: (mode: AdaptiveMode, level: number | null) => void;
+  levelUp: (mode: AdaptiveMode) => void;
+  repetition: RepetitionData;
+  reviewItem: (deck: RepetitionDeck, item: string, correct: boolean) => void;
+  spelling: SpellingData;
+  recordWordCompleted: (word: string) => void;
+  sessions: SessionRecord[];
+  recordSession: (session: SessionRecord) => void;
+  eventLogs: SessionLog[];
+  recordEventLog: (log: SessionLog) => void;
+  bests: PersonalBests;
+  recordGameResult: (result: GameResult) => void;
+  achievements: AchievementData;
+  // Achievements reached but not yet celebrated, oldest first
+  achievementQueue: Achievement[];
+  dismissAchievement: () => void;
+  stickerBook: StickerBook;
+  // Stars that can still be spent in the sticker book
+  starBalance: number;
+  // Returns false when the item can't be bought
+  buySticker: (id: string) => boolean;
+  equipSticker: (id: string) => void;
+  // Today's challenge, or null when none of its games are switched on
+  dailyChallenge: DailyChallenge | null;
+  // Progress on today's challenge
+  daily: DailyData;
+  // Days in a row with the challenge done
+  challengeStreak: number;
+  dailyLimit: number | null;
+  setDailyLimit: (minutes: number | null) => void;
+  enabledModes: ProfileSettings["enabledModes"];
+  setModeEnabled: (mode: SessionMode, enabled: boolean) => void;
+  language: Locale;
+  setLanguage: (language: Locale) => void;
+  secondLanguage: Locale | null;
+  setSecondLanguage: (language: Locale | null) => void;
+  screenTime: ScreenTimeData;
+  addPlayTime: (ms: number) => void;
+  grantExtraTime: (ms: number) => void;
+  parentalGate: ParentalGateConfig;
+  setGateChallenge: (action: GatedAction, challenge: GateChallenge) => void;
 };
 
+const defaultStore = createStore();
+
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
-export const GameProvider = ({ children }: { children: React.ReactNode }) => {
-  const [totalPops, setTotalPops] = useState(0);
-  const [shapesCompleted, setShapesCompleted] = useState(0);
-  const [colorsLearned, setColorsLearned] = useState(0);
-  const [lettersLearned, setLettersLearned] = useState(0);
-  const [mathProblemsCompleted, setMathProblemsCompleted] = useState(0);
-  const [highScore, setHighScore] = useState(0);
-  const [audioSetting, setAudioSetting] = useState<AudioSetting>("full");
+export const GameProvider = ({
+  children,
+  store = defaultStore,
+}: {
+  children: React.ReactNode;
+  store?: Store;
+}) => {
+  const [data, setData] = useState<PersistedData>(createDefaultData);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [achievementQueue, setAchievementQueue] = useState<Achievement[]>([]);
+  const storeRef = useRef(store);
+
+  const { profiles, activeProfileId, parentalGate } = data;
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) || profiles[0];
 
   // Load saved data when the app starts
   useEffect(() => {
     const loadSavedData = async () => {
       try {
-        const savedData = await AsyncStorage.getItem("gameStats");
-        if (savedData) {
-          const parsedData = JSON.parse(savedData);
-          setTotalPops(parsedData.totalPops || 0);
-          setShapesCompleted(parsedData.shapesCompleted || 0);
-          setColorsLearned(parsedData.colorsLearned || 0);
-          setLettersLearned(parsedData.lettersLearned || 0);
-          setMathProblemsCompleted(parsedData.mathProblemsCompleted || 0);
-          setHighScore(parsedData.highScore || 0);
-          setAudioSetting(parsedData.audioSetting || "full");
-        }
+        setData(await storeRef.current.load());
+        setIsLoaded(true);
       } catch (error) {
+        // Play on without saving, rather than write over data that's still
+        // there but couldn't be read this time
         console.error("Failed to load game stats:", error);
       }
     };
@@ -54,72 +214,426 @@ export const GameProvider = ({ children }: { children: React.ReactNode }) => {
     loadSavedData();
   }, []);
 
-  // Save data whenever it changes
+  // Queue a save whenever data changes, but never before the saved data loads
   useEffect(() => {
-    const saveData = async () => {
-      try {
-        const dataToSave = {
-          totalPops,
-          shapesCompleted,
-          colorsLearned,
-          lettersLearned,
-          mathProblemsCompleted,
-          highScore,
-          audioSetting,
-        };
-        await AsyncStorage.setItem("gameStats", JSON.stringify(dataToSave));
-      } catch (error) {
-        console.error("Failed to save game stats:", error);
+    if (isLoaded) {
+      storeRef.current.save(data);
+    }
+  }, [isLoaded, data]);
+
+  // Write pending changes straight away when the app leaves the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextAppState) => {
+      if (nextAppState.match(/inactive|background/)) {
+        storeRef.current.flush();
       }
+    });
+
+    return () => {
+      subscription.remove();
+      storeRef.current.flush();
     };
+  }, []);
+
+  const setProfiles = (updater: (prev: Profile[]) => Profile[]) => {
+    setData((prev) => ({ ...prev, profiles: updater(prev.profiles) }));
+  };
+
+  const setActiveProfileId = (id: string) => {
+    setData((prev) => ({ ...prev, activeProfileId: id }));
+  };
+
+  const updateActiveProfile = (updater: (profile: Profile) => Profile) => {
+    setProfiles((prev) =>
+      prev.map((profile) =>
+        profile.id === activeProfile.id ? updater(profile) : profile,
+      ),
+    );
+  };
+
+  // Progress goals in the sticker book are awarded as soon as they're met
+  const withAwards = (profile: Profile): Profile => ({
+    ...profile,
+    stickerBook: awardStickers(profile.stickerBook, profile.stats),
+  });
+
+  // Counts play towards today's challenge, with bonus stars once it's done
+  const withChallengeProgress = (
+    profile: Profile,
+    activity: ChallengeActivity,
+  ): Profile => {
+    const challenge = generateChallenge(
+      getDayKey(Date.now()),
+      profile.settings.enabledModes,
+    );
+    if (!challenge) return profile;
+
+    const daily = recordChallengeActivity(profile.daily, challenge, activity);
+    if (!daily.completed || forDay(profile.daily, challenge.day).completed) {
+      return { ...profile, daily };
+    }
+    return withAwards({
+      ...profile,
+      daily,
+      stats: {
+        ...profile.stats,
+        starsEarned: profile.stats.starsEarned + CHALLENGE_BONUS_STARS,
+      },
+    });
+  };
+
+  const updateStats = (updater: (stats: ProfileStats) => ProfileStats) => {
+    updateActiveProfile((profile) =>
+      withAwards({ ...profile, stats: updater(profile.stats) }),
+    );
+  };
+
+  // Unlock and celebrate achievements as soon as they're reached, whatever
+  // changed to reach them
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const reached = checkAchievements(
+      activeProfile.achievements,
+      activeProfile,
+    );
+    if (reached.length === 0) return;
+
+    updateActiveProfile((profile) => ({
+      ...profile,
+      achievements: unlockAchievements(profile.achievements, reached),
+    }));
+    setAchievementQueue((queue) => [...queue, ...reached]);
+  }, [isLoaded, activeProfile]);
+
+  const dismissAchievement = () => {
+    setAchievementQueue((queue) => queue.slice(1));
+  };
+
+  const addProfile = (name: string, avatar: AnimalType) => {
+    const profile = createProfile(name, avatar);
+    setProfiles((prev) => [...prev, profile]);
+    return profile.id;
+  };
+
+  const updateProfile = (
+    id: string,
+    changes: Partial<Pick<Profile, "name" | "avatar">>,
+  ) => {
+    setProfiles((prev) =>
+      prev.map((profile) =>
+        profile.id === id ? { ...profile, ...changes } : profile,
+      ),
+    );
+  };
 
-    saveData();
-  }, [
-    totalPops,
-    shapesCompleted,
-    colorsLearned,
-    lettersLearned,
-    mathProblemsCompleted,
-    highScore,
-    audioSetting,
-  ]);
+  const removeProfile = (id: string) => {
+    // There must always be at least one profile to play with
+    if (profiles.length <= 1) return;
+
+    const remaining = profiles.filter((profile) => profile.id !== id);
+    setProfiles(() => remaining);
+    if (id === activeProfile.id) {
+      setActiveProfileId(remaining[0].id);
+    }
+  };
+
+  // Start a profile over, keeping only who it is and how it's set up
+  const resetProfileProgress = (id: string) => {
+    setProfiles((prev) =>
+      prev.map((profile) =>
+        profile.id === id
+          ? {
+              ...createProfile(
+                profile.name,
+                profile.avatar,
+                undefined,
+                profile.settings,
+              ),
+              id,
+              // Starting over doesn't hand out more play time for today
+              screenTime: profile.screenTime,
+            }
+          : profile,
+      ),
+    );
+  };
+
+  // Merges exported progress into this device's players. Throws when the
+  // text can't be read, leaving everything as it was.
+  const importProgress = (text: string) => {
+    const result = importProfiles(profiles, parseExport(text));
+    setProfiles(() => result.profiles);
+    return result;
+  };
+
+  // Checked against the latest profiles, so a player added a moment ago can
+  // be switched to straight away
+  const switchProfile = (id: string) => {
+    setData((prev) =>
+      prev.profiles.some((profile) => profile.id === id)
+        ? { ...prev, activeProfileId: id }
+        : prev,
+    );
+  };
 
   const incrementPops = (count = 1) => {
-    setTotalPops((prev) => prev + count);
+    updateStats((stats) => ({ ...stats, totalPops: stats.totalPops + count }));
   };
 
   const incrementShapesCompleted = () => {
-    setShapesCompleted((prev) => prev + 1);
+    updateStats((stats) => ({
+      ...stats,
+      shapesCompleted: stats.shapesCompleted + 1,
+    }));
   };
 
   const incrementColorsLearned = () => {
-    setColorsLearned((prev) => prev + 1);
+    updateStats((stats) => ({
+      ...stats,
+      colorsLearned: stats.colorsLearned + 1,
+    }));
   };
 
   const incrementLettersLearned = () => {
-    setLettersLearned((prev) => prev + 1);
+    updateStats((stats) => ({
+      ...stats,
+      lettersLearned: stats.lettersLearned + 1,
+    }));
   };
 
   const incrementMathProblems = () => {
-    setMathProblemsCompleted((prev) => prev + 1);
+    updateStats((stats) => ({
+      ...stats,
+      mathProblemsCompleted: stats.mathProblemsCompleted + 1,
+    }));
   };
 
   const updateHighScore = (score: number) => {
-    if (score > highScore) {
-      setHighScore(score);
-    }
+    updateStats((stats) =>
+      score > stats.highScore ? { ...stats, highScore: score } : stats,
+    );
+  };
+
+  const setAudioSetting = (setting: AudioSetting) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: { ...profile.settings, audioSetting: setting },
+    }));
+  };
+
+  const setCountingAid = (setting: CountingAidSetting) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: { ...profile.settings, countingAid: setting },
+    }));
+  };
+
+  const setDailyLimit = (minutes: number | null) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: { ...profile.settings, dailyLimit: minutes },
+    }));
+  };
+
+  const setLanguage = (language: Locale) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: {
+        ...profile.settings,
+        language,
+        // Repeating a prompt in the same language would just say it twice
+        secondLanguage:
+          profile.settings.secondLanguage === language
+            ? null
+            : profile.settings.secondLanguage,
+      },
+    }));
+  };
+
+  const setSecondLanguage = (secondLanguage: Locale | null) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: { ...profile.settings, secondLanguage },
+    }));
+  };
+
+  const setModeEnabled = (mode: SessionMode, enabled: boolean) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      settings: {
+        ...profile.settings,
+        enabledModes: { ...profile.settings.enabledModes, [mode]: enabled },
+      },
+    }));
+  };
+
+  const recordAnswer = (
+    domain: MasteryDomain,
+    item: string,
+    answer: Omit<AnswerRecord, "timestamp">,
+  ) => {
+    updateActiveProfile((profile) =>
+      withChallengeProgress(
+        {
+          ...profile,
+          mastery: addAnswerToMastery(profile.mastery, domain, item, {
+            ...answer,
+            timestamp: Date.now(),
+          }),
+        },
+        { type: "answer", domain, item, correct: answer.correct },
+      ),
+    );
+  };
+
+  const getItemConfidence = (domain: MasteryDomain, item: string) =>
+    getConfidence(activeProfile.mastery, domain, item);
+
+  const updateDifficulty = (
+    mode: AdaptiveMode,
+    updater: (
+      state: DifficultyData[AdaptiveMode],
+    ) => DifficultyData[AdaptiveMode],
+  ) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      difficulty: {
+        ...profile.difficulty,
+        [mode]: updater(profile.difficulty[mode]),
+      },
+    }));
+  };
+
+  const recordRoundResult = (mode: AdaptiveMode, result: RoundResult) => {
+    updateDifficulty(mode, (state) => recordRound(state, result));
+  };
+
+  const setDifficultyLock = (mode: AdaptiveMode, level: number | null) => {
+    updateDifficulty(mode, (state) => lockLevel(state, level));
+  };
+
+  const levelUp = (mode: AdaptiveMode) => {
+    updateDifficulty(mode, stepUp);
   };
 
+  const reviewItem = (deck: RepetitionDeck, item: string, correct: boolean) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      repetition: {
+        ...profile.repetition,
+        [deck]: {
+          ...profile.repetition[deck],
+          [item]: reviewCard(
+            profile.repetition[deck][item],
+            correct,
+            Date.now(),
+          ),
+        },
+      },
+    }));
+  };
+
+  const recordWordCompleted = (word: string) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      spelling: recordCompletedWord(profile.spelling, word, Date.now()),
+    }));
+  };
+
+  const recordSession = (session: SessionRecord) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      sessions: addSession(profile.sessions, session),
+    }));
+  };
+
+  const recordGameResult = (result: GameResult) => {
+    updateActiveProfile((profile) =>
+      withChallengeProgress(
+        withAwards({
+          ...profile,
+          stats: {
+            ...profile.stats,
+            starsEarned: profile.stats.starsEarned + result.stars,
+          },
+          bests: {
+            ...profile.bests,
+            [result.mode]: mergeBest(profile.bests[result.mode], {
+              score: result.score,
+              accuracy: result.accuracy,
+              stars: result.stars,
+            }),
+          },
+        }),
+        { type: "game", mode: result.mode, stars: result.stars },
+      ),
+    );
+  };
+
+  const buySticker = (id: string) => {
+    const { stickerBook, stats } = activeProfile;
+    if (!buyFromBook(stickerBook, stats, id)) return false;
+
+    updateActiveProfile((profile) => ({
+      ...profile,
+      stickerBook:
+        buyFromBook(profile.stickerBook, profile.stats, id) ??
+        profile.stickerBook,
+    }));
+    return true;
+  };
+
+  const equipSticker = (id: string) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      stickerBook: equipFromBook(profile.stickerBook, id),
+    }));
+  };
+
+  const recordEventLog = (log: SessionLog) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      eventLogs: addEventLog(profile.eventLogs, log),
+    }));
+  };
+
+  const addPlayTime = (ms: number) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      screenTime: addToScreenTime(profile.screenTime, ms, Date.now()),
+    }));
+  };
+
+  const grantExtraTime = (ms: number) => {
+    updateActiveProfile((profile) => ({
+      ...profile,
+      screenTime: addExtraTime(profile.screenTime, ms, Date.now()),
+    }));
+  };
+
+  const setGateChallenge = (action: GatedAction, challenge: GateChallenge) => {
+    setData((prev) => ({
+      ...prev,
+      parentalGate: { ...prev.parentalGate, [action]: challenge },
+    }));
+  };
+
+  const today = getDayKey(Date.now());
+
   return (
     <GameContext.Provider
       value={{
-        totalPops,
-        shapesCompleted,
-        colorsLearned,
-        lettersLearned,
-        mathProblemsCompleted,
-        highScore,
-        audioSetting,
+        profiles,
+        activeProfile,
+        addProfile,
+        updateProfile,
+        removeProfile,
+        resetProfileProgress,
+        importProgress,
+        switchProfile,
+        ...activeProfile.stats,
+        audioSetting: activeProfile.settings.audioSetting,
         incrementPops,
         incrementShapesCompleted,
         incrementColorsLearned,
@@ -127,6 +641,54 @@ export const GameProvider = ({ children }: { children: React.ReactNode }) => {
         incrementMathProblems,
         updateHighScore,
         setAudioSetting,
+        countingAid: activeProfile.settings.countingAid,
+        setCountingAid,
+        mastery: activeProfile.mastery,
+        recordAnswer,
+        getItemConfidence,
+        difficulty: activeProfile.difficulty,
+        recordRoundResult,
+        setDifficultyLock,
+        levelUp,
+        repetition: activeProfile.repetition,
+        reviewItem,
+        spelling: activeProfile.spelling,
+        recordWordCompleted,
+        sessions: activeProfile.sessions,
+        recordSession,
+        eventLogs: activeProfile.eventLogs,
+        recordEventLog,
+        bests: activeProfile.bests,
+        recordGameResult,
+        achievements: activeProfile.achievements,
+        achievementQueue,
+        dismissAchievement,
+        stickerBook: activeProfile.stickerBook,
+        starBalance: getStarBalance(
+          activeProfile.stickerBook,
+          activeProfile.stats,
+        ),
+        buySticker,
+        equipSticker,
+        dailyChallenge: generateChallenge(
+          today,
+          activeProfile.settings.enabledModes,
+        ),
+        daily: forDay(activeProfile.daily, today),
+        challengeStreak: getCurrentStreak(activeProfile.daily, today),
+        dailyLimit: activeProfile.settings.dailyLimit,
+        setDailyLimit,
+        enabledModes: activeProfile.settings.enabledModes,
+        setModeEnabled,
+        language: activeProfile.settings.language,
+        setLanguage,
+        secondLanguage: activeProfile.settings.secondLanguage,
+        setSecondLanguage,
+        screenTime: activeProfile.screenTime,
+        addPlayTime,
+        grantExtraTime,
+        parentalGate,
+        setGateChallenge,
       }}
     >
       {children}
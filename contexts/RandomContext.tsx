@@ -0,0 +1,31 @@
+import React, { createContext, useContext, useRef } from "react";
+
+import { Random, createRandom, hashSeed } from "../utils/random";
+
+// Games draw every random choice from here. Outside a provider, or with no
+// seed, that's Math.random.
+const RandomContext = createContext<Random>(Math.random);
+
+export const RandomProvider = ({
+  children,
+  seed,
+  random,
+}: {
+  children: React.ReactNode;
+  // Replays the same rounds every time the app starts, for bug reports
+  seed?: string;
+  // Used as is, so tests can script each choice
+  random?: Random;
+}) => {
+  const randomRef = useRef<Random>(
+    random ?? (seed ? createRandom(hashSeed(seed)) : Math.random),
+  );
+
+  return (
+    <RandomContext.Provider value={randomRef.current}>
+      {children}
+    </RandomContext.Provider>
+  );
+};
+
+export const useRandom = () => useContext(RandomContext);
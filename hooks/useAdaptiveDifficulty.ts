@@ -0,0 +1,38 @@
+import { useCallback } from "react";
+
+import { useGameContext } from "../contexts/GameContext";
+import {
+  AdaptiveMode,
+  MAX_LEVEL,
+  RoundResult,
+  getDifficultyParams,
+} from "../utils/adaptiveDifficulty";
+
+export const useAdaptiveDifficulty = <M extends AdaptiveMode>(mode: M) => {
+  const { difficulty, recordRoundResult, setDifficultyLock, levelUp } =
+    useGameContext();
+  const { level, locked } = difficulty[mode];
+
+  const recordRound = useCallback(
+    (result: RoundResult) => recordRoundResult(mode, result),
+    [mode, recordRoundResult],
+  );
+
+  const setLock = useCallback(
+    (lockedLevel: number | null) => setDifficultyLock(mode, lockedLevel),
+    [mode, setDifficultyLock],
+  );
+
+  const nextLevel = useCallback(() => levelUp(mode), [mode, levelUp]);
+
+  return {
+    level,
+    locked,
+    // Locked levels stay put, so there's no next level to offer
+    canLevelUp: !locked && level < MAX_LEVEL,
+    params: getDifficultyParams(mode, level),
+    recordRound,
+    setLock,
+    levelUp: nextLevel,
+  };
+};
@@ -0,0 +1,14 @@
+import { useGameContext } from "../contexts/GameContext";
+import { getEquipped } from "../utils/stickers";
+
+// The friend, bubble skin and theme chosen in the sticker book, for every
+// screen that draws them
+export function useEquipped() {
+  const { stickerBook } = useGameContext();
+
+  return {
+    companion: getEquipped(stickerBook, "companion").character,
+    bubbles: getEquipped(stickerBook, "bubbleSkin").bubbles,
+    background: getEquipped(stickerBook, "theme").background,
+  };
+}
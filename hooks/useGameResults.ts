@@ -0,0 +1,81 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+
+import { useTranslation } from "./useTranslation";
+import { useGameContext } from "../contexts/GameContext";
+import { GameResult, evaluateGame } from "../utils/results";
+import { SessionMode } from "../utils/sessionHistory";
+import { getUnlockedSince, toReward } from "../utils/stickers";
+
+type GameTally = {
+  startedAt: number;
+  correct: number;
+  attempts: number;
+  finished: boolean;
+};
+
+const createTally = (): GameTally => ({
+  startedAt: Date.now(),
+  correct: 0,
+  attempts: 0,
+  finished: false,
+});
+
+// Keeps count of one game's answers and, when it ends, rates it, saves the
+// stars and personal bests and holds the result, and anything unlocked in the
+// sticker book while playing, for the results screen.
+// Games call resetResults when a new game starts.
+export const useGameResults = (mode: SessionMode) => {
+  const { bests, recordGameResult, stickerBook } = useGameContext();
+  const { t } = useTranslation();
+  // The latest values, since games finish from engine callbacks
+  const latestRef = useRef({ bests, recordGameResult });
+  latestRef.current = { bests, recordGameResult };
+  const tallyRef = useRef(createTally());
+  const [result, setResult] = useState<GameResult | null>(null);
+
+  const resetResults = useCallback(() => {
+    tallyRef.current = createTally();
+    setResult(null);
+  }, []);
+
+  const countAnswer = useCallback((correct: boolean) => {
+    tallyRef.current.attempts += 1;
+    tallyRef.current.correct += correct ? 1 : 0;
+  }, []);
+
+  // Games without a score of their own count right answers. Only the first
+  // call for a game counts.
+  const finishGame = useCallback(
+    (score?: number) => {
+      const tally = tallyRef.current;
+      if (tally.finished) return;
+      tally.finished = true;
+
+      const gameResult = evaluateGame(
+        {
+          mode,
+          score: score ?? tally.correct,
+          correct: tally.correct,
+          attempts: tally.attempts,
+          durationMs: Date.now() - tally.startedAt,
+        },
+        latestRef.current.bests[mode],
+      );
+      latestRef.current.recordGameResult(gameResult);
+      setResult(gameResult);
+    },
+    [mode],
+  );
+
+  const rewards = useMemo(
+    () =>
+      result
+        ? getUnlockedSince(stickerBook, tallyRef.current.startedAt).map(
+            (item) => toReward(item, t),
+          )
+        : [],
+    [result, stickerBook, t],
+  );
+
+  return { result, rewards, resetResults, countAnswer, finishGame };
+};
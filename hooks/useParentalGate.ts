@@ -0,0 +1,41 @@
+import { useCallback, useState } from "react";
+
+import { ParentalGateProps } from "../components/ParentalGate";
+import { useGameContext } from "../contexts/GameContext";
+import { GateChallenge, GatedAction } from "../utils/parentalGate";
+
+type PendingAccess = {
+  challenge: GateChallenge;
+  onPass: () => void;
+};
+
+// Runs grown-up actions behind the challenge configured for them. Spread
+// gateProps onto a ParentalGate rendered by the same screen.
+export const useParentalGate = () => {
+  const { parentalGate } = useGameContext();
+  const [pending, setPending] = useState<PendingAccess | null>(null);
+
+  const requestAccess = useCallback(
+    (action: GatedAction, onPass: () => void) => {
+      const challenge = parentalGate[action];
+      if (challenge === "none") {
+        onPass();
+        return;
+      }
+      setPending({ challenge, onPass });
+    },
+    [parentalGate],
+  );
+
+  const gateProps: ParentalGateProps = {
+    visible: pending !== null,
+    challenge: pending?.challenge ?? "hold",
+    onPass: () => {
+      setPending(null);
+      pending?.onPass();
+    },
+    onCancel: () => setPending(null),
+  };
+
+  return { requestAccess, gateProps };
+};
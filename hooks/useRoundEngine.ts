@@ -0,0 +1,228 @@
+import * as Speech from "expo-speech";
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import { AppState } from "react-native";
+
+import {
+  RoundAction,
+  RoundEngineConfig,
+  RoundState,
+  createRoundState,
+  isPausable,
+  isTimeUp,
+  roundReducer,
+} from "../utils/roundEngine";
+
+type RoundEngineOptions = {
+  // How long each round lasts, or null for no time limit
+  roundDurationMs?: number | null;
+  // How long the intro lasts before play begins; 0 skips it
+  introMs?: number;
+  // How long the end-of-round celebration lasts before the next round
+  // starts, or null to wait for nextRound
+  roundCompleteMs?: number | null;
+  // How many rounds make up a game, or null to play until finish is called
+  roundsPerGame?: number | null;
+  // Start the first round as soon as the screen opens
+  autoStart?: boolean;
+  onRoundStart?: (round: number) => void;
+  onTimeUp?: () => void;
+  // Called whenever a game reaches its results, however it got there
+  onFinish?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+};
+
+// How often a timed round's clock is updated
+const TICK_MS = 250;
+
+// Pause handlers for the games on screen, so play can be stopped from
+// outside a game, e.g. when the day's screen time runs out
+const pauseListeners = new Set<() => void>();
+
+/** Pauses any game being played, as its pause button would. */
+export const pauseActiveGame = () => {
+  pauseListeners.forEach((listener) => listener());
+};
+
+/**
+ * Runs the round life cycle for a game screen: intros, countdowns, the
+ * pause between rounds and the results. Play pauses by itself when the app
+ * goes to the background and picks up again when it comes back. Callbacks
+ * passed to schedule only run while the screen is open and play carries on;
+ * pausing or leaving cancels them and stops any speech.
+ */
+export const useRoundEngine = ({
+  roundDurationMs = null,
+  introMs = 0,
+  roundCompleteMs = null,
+  roundsPerGame = null,
+  autoStart = false,
+  ...callbacks
+}: RoundEngineOptions = {}) => {
+  const config: RoundEngineConfig = {
+    roundDurationMs,
+    hasIntro: introMs > 0,
+    roundsPerGame,
+  };
+  const configRef = useRef(config);
+  configRef.current = config;
+  // The latest callbacks, since they're called from effects and timers
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const [state, dispatch] = useReducer(
+    (current: RoundState, action: RoundAction) =>
+      roundReducer(current, action, configRef.current),
+    undefined,
+    createRoundState,
+  );
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const mountedRef = useRef(true);
+  const timeoutsRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const isMounted = useCallback(() => mountedRef.current, []);
+
+  const schedule = useCallback((callback: () => void, delayMs: number) => {
+    const timeout = setTimeout(() => {
+      timeoutsRef.current.delete(timeout);
+      if (mountedRef.current) callback();
+    }, delayMs);
+    timeoutsRef.current.add(timeout);
+    return timeout;
+  }, []);
+
+  const clearScheduled = useCallback(() => {
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current.clear();
+  }, []);
+
+  const start = useCallback(() => dispatch({ type: "start" }), []);
+  const beginPlay = useCallback(() => dispatch({ type: "beginPlay" }), []);
+  const completeRound = useCallback(
+    () => dispatch({ type: "completeRound" }),
+    [],
+  );
+  const nextRound = useCallback(() => dispatch({ type: "nextRound" }), []);
+  const finish = useCallback(() => dispatch({ type: "finish" }), []);
+  const pause = useCallback(() => dispatch({ type: "pause" }), []);
+  const resume = useCallback(() => dispatch({ type: "resume" }), []);
+  const reset = useCallback(() => dispatch({ type: "reset" }), []);
+
+  // Cleanup when the screen closes
+  useEffect(() => {
+    mountedRef.current = true;
+    if (autoStart) dispatch({ type: "start" });
+
+    return () => {
+      mountedRef.current = false;
+      clearScheduled();
+      Speech.stop();
+    };
+  }, []);
+
+  // Pause in the background, and only resume a pause that wasn't asked for
+  useEffect(() => {
+    let autoPaused = false;
+    const subscription = AppState.addEventListener("change", (nextAppState) => {
+      if (nextAppState === "active") {
+        if (autoPaused) dispatch({ type: "resume" });
+        autoPaused = false;
+      } else if (isPausable(stateRef.current.phase)) {
+        autoPaused = true;
+        dispatch({ type: "pause" });
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    const listener = () => {
+      if (isPausable(stateRef.current.phase)) dispatch({ type: "pause" });
+    };
+    pauseListeners.add(listener);
+    return () => {
+      pauseListeners.delete(listener);
+    };
+  }, []);
+
+  // Move on from the intro and the end-of-round celebration
+  useEffect(() => {
+    if (state.phase === "intro") {
+      const timeout = setTimeout(beginPlay, introMs);
+      return () => clearTimeout(timeout);
+    }
+    if (state.phase === "roundComplete" && roundCompleteMs !== null) {
+      const timeout = setTimeout(nextRound, roundCompleteMs);
+      return () => clearTimeout(timeout);
+    }
+  }, [state.phase, state.roundId, introMs, roundCompleteMs]);
+
+  // Count down timed rounds
+  const timed = state.timeRemainingMs !== null;
+  useEffect(() => {
+    if (state.phase !== "playing" || !timed) return;
+
+    let lastTick = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      dispatch({ type: "tick", elapsedMs: now - lastTick });
+      lastTick = now;
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [state.phase, timed]);
+
+  useEffect(() => {
+    if (state.roundId > 0) callbacksRef.current.onRoundStart?.(state.round);
+  }, [state.roundId]);
+
+  const previousRef = useRef({ phase: state.phase, roundId: state.roundId });
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { phase: state.phase, roundId: state.roundId };
+    if (previous.phase === state.phase) return;
+
+    if (state.phase === "paused") {
+      clearScheduled();
+      Speech.stop();
+      callbacksRef.current.onPause?.();
+    } else if (
+      previous.phase === "paused" &&
+      previous.roundId === state.roundId
+    ) {
+      // Restarting while paused starts a new round rather than resuming
+      callbacksRef.current.onResume?.();
+    }
+    if (previous.phase === "playing" && isTimeUp(state)) {
+      callbacksRef.current.onTimeUp?.();
+    }
+    if (state.phase === "results") {
+      callbacksRef.current.onFinish?.();
+    }
+  }, [state.phase]);
+
+  return {
+    phase: state.phase,
+    canPause: isPausable(state.phase),
+    round: state.round,
+    // Whole seconds left, for display
+    timeRemaining:
+      state.timeRemainingMs === null
+        ? null
+        : Math.ceil(state.timeRemainingMs / 1000),
+    timeRemainingMs: state.timeRemainingMs,
+    start,
+    beginPlay,
+    completeRound,
+    nextRound,
+    finish,
+    pause,
+    resume,
+    reset,
+    schedule,
+    clearScheduled,
+    isMounted,
+  };
+};
@@ -0,0 +1,119 @@
+import { usePathname } from "expo-router";
+import { useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+import { useSpeech } from "./useSpeech";
+import { useTranslation } from "./useTranslation";
+import { useGameContext } from "../contexts/GameContext";
+import { MessageKey } from "../utils/i18n";
+import { getPassedWarning, getRemainingMs } from "../utils/screenTime";
+
+const TICK_MS = 1000;
+// Play time is saved in chunks rather than every second
+const SAVE_EVERY_MS = 15 * 1000;
+// Longer gaps between ticks mean the device was asleep, not being played with
+const MAX_TICK_MS = 5 * TICK_MS;
+
+// Time spent here is the grown-ups', not the child's
+const UNCOUNTED_ROUTES = ["/dashboard"];
+
+const WARNING_MESSAGES: Record<number, MessageKey> = {
+  [5 * 60 * 1000]: "screenTime.fiveMinutes",
+  [60 * 1000]: "screenTime.oneMinute",
+};
+
+// Counts active play time on every screen while the app is in the
+// foreground, gives spoken warnings as the daily limit gets close, and
+// reports when it has run out.
+export const useScreenTime = () => {
+  const { activeProfile, screenTime, dailyLimit, addPlayTime } =
+    useGameContext();
+  const { speakText } = useSpeech();
+  const { t } = useTranslation();
+  const pathname = usePathname();
+  const [unsavedMs, setUnsavedMs] = useState(0);
+  // The latest values, since they're read from the timer
+  const addPlayTimeRef = useRef(addPlayTime);
+  addPlayTimeRef.current = addPlayTime;
+  const unsavedRef = useRef(0);
+
+  const remainingMs = getRemainingMs(
+    screenTime,
+    dailyLimit,
+    Date.now(),
+    unsavedMs,
+  );
+  const timeUp = remainingMs !== null && remainingMs <= 0;
+  const counting = !timeUp && !UNCOUNTED_ROUTES.includes(pathname);
+
+  useEffect(() => {
+    if (!counting) return;
+
+    let lastTick = Date.now();
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    const save = () => {
+      if (unsavedRef.current > 0) {
+        addPlayTimeRef.current(unsavedRef.current);
+      }
+      unsavedRef.current = 0;
+      setUnsavedMs(0);
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      unsavedRef.current += Math.min(now - lastTick, MAX_TICK_MS);
+      lastTick = now;
+      if (unsavedRef.current >= SAVE_EVERY_MS) {
+        save();
+      } else {
+        setUnsavedMs(unsavedRef.current);
+      }
+    };
+
+    const start = () => {
+      if (interval) return;
+      lastTick = Date.now();
+      interval = setInterval(tick, TICK_MS);
+    };
+
+    const stop = () => {
+      if (!interval) return;
+      clearInterval(interval);
+      interval = null;
+      tick();
+      save();
+    };
+
+    if (AppState.currentState === "active") start();
+    const subscription = AppState.addEventListener("change", (nextAppState) => {
+      if (nextAppState === "active") {
+        start();
+      } else {
+        stop();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      stop();
+    };
+  }, [counting]);
+
+  // Speak up as the remaining time passes each warning. Switching profiles
+  // isn't time passing, so says nothing.
+  const previousRef = useRef({ id: activeProfile.id, remainingMs });
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { id: activeProfile.id, remainingMs };
+    if (previous.id !== activeProfile.id) return;
+    if (previous.remainingMs === null || remainingMs === null) return;
+
+    const warning = getPassedWarning(previous.remainingMs, remainingMs);
+    if (warning !== null) {
+      speakText(t(WARNING_MESSAGES[warning]));
+    }
+  }, [activeProfile.id, remainingMs]);
+
+  return { remainingMs, timeUp };
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef } from "react";
+import { AppState } from "react-native";
+
+import { useGameContext } from "../contexts/GameContext";
+import {
+  SessionEvent,
+  SessionEventInput,
+  appendEvent,
+} from "../utils/sessionEvents";
+import { SessionMode } from "../utils/sessionHistory";
+
+type ActiveSession = {
+  startedAt: number;
+  attempts: number;
+  correct: number;
+  events: SessionEvent[];
+  // When the child was last asked for something, for pop latencies
+  promptedAt: number;
+};
+
+const createSession = (): ActiveSession => {
+  const now = Date.now();
+  return {
+    startedAt: now,
+    attempts: 0,
+    correct: 0,
+    events: [],
+    promptedAt: now,
+  };
+};
+
+// Records a session for a game screen: it ends when the screen closes or the
+// app goes to the background, and a new one starts when the app comes back.
+// Every game feeds its rounds, pops, hints and pauses into the session's
+// event log through logEvent.
+export const useSessionTracker = (mode: SessionMode) => {
+  const { recordSession, recordEventLog } = useGameContext();
+  // The latest recorders, since the session is saved from effect cleanups
+  const recordersRef = useRef({ recordSession, recordEventLog });
+  recordersRef.current = { recordSession, recordEventLog };
+  const sessionRef = useRef(createSession());
+  const activeRef = useRef(false);
+
+  useEffect(() => {
+    const start = () => {
+      if (activeRef.current) return;
+      activeRef.current = true;
+      sessionRef.current = createSession();
+    };
+
+    const end = () => {
+      if (!activeRef.current) return;
+      activeRef.current = false;
+      const { startedAt, attempts, correct, events } = sessionRef.current;
+      recordersRef.current.recordSession({
+        mode,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        attempts,
+        correct,
+      });
+      recordersRef.current.recordEventLog({ mode, startedAt, events });
+    };
+
+    start();
+    const subscription = AppState.addEventListener("change", (nextAppState) => {
+      if (nextAppState === "active") {
+        start();
+      } else {
+        end();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      end();
+    };
+  }, [mode]);
+
+  // Adds an event to the log. Pops with a right or wrong answer count
+  // towards the session's accuracy, and are timed from the round start or
+  // previous pop unless the game knows better.
+  const logEvent = useCallback((input: SessionEventInput) => {
+    const session = sessionRef.current;
+    const time = Date.now();
+
+    let event: SessionEvent;
+    if (input.type === "pop") {
+      event = {
+        ...input,
+        latencyMs: input.latencyMs ?? time - session.promptedAt,
+        time,
+      };
+      if (input.correct !== null) {
+        session.attempts += 1;
+        session.correct += input.correct ? 1 : 0;
+      }
+    } else {
+      event = { ...input, time };
+    }
+
+    if (input.type === "roundStart" || input.type === "pop") {
+      session.promptedAt = time;
+    }
+    session.events = appendEvent(session.events, event);
+  }, []);
+
+  return { logEvent };
+};
@@ -2,27 +2,77 @@ import * as Speech from "expo-speech";
 import { useEffect } from "react";
 
 import { useGameContext } from "../contexts/GameContext";
+import {
+  SPEECH_LANGUAGES,
+  Translation,
+  createTranslation,
+} from "../utils/i18n";
+import { pickVoice } from "../utils/voices";
+
+// The device's voices, shared by every caller and read when speaking, so
+// callbacks made before they arrived still use them. Android reports none
+// until its speech engine has started, so an empty list is asked for again.
+let cachedVoices: Speech.Voice[] = [];
 
 export function useSpeech() {
-  const { audioSetting } = useGameContext();
+  const { audioSetting, language, secondLanguage } = useGameContext();
+
   useEffect(() => {
     if (audioSetting === "mute" || audioSetting === "noSpeech") {
       stopSpeaking();
     }
   }, [audioSetting]);
 
+  useEffect(() => {
+    if (cachedVoices.length > 0) return;
+    Speech.getAvailableVoicesAsync()
+      .then((voices) => {
+        cachedVoices = voices;
+      })
+      .catch((error) => console.error("Error loading voices:", error));
+  }, []);
+
   const speakText = (text: string, options: Speech.SpeechOptions = {}) => {
     if (audioSetting === "noSpeech" || audioSetting === "mute") return;
-    if (!options.language) {
-      options.language = "en-GB";
-    }
+    const speechLanguage = options.language ?? SPEECH_LANGUAGES[language];
     stopSpeaking();
-    Speech.speak(text, options);
+    Speech.speak(text, {
+      ...options,
+      language: speechLanguage,
+      voice: options.voice ?? pickVoice(cachedVoices, speechLanguage),
+    });
+  };
+
+  // Says a prompt in the player's language and then, in bilingual mode, again
+  // in their second one. The options apply to both; onDone runs at the end.
+  const speakBilingual = (
+    say: (translation: Translation) => string,
+    options: Speech.SpeechOptions = {},
+  ) => {
+    const primary = createTranslation(language);
+    if (!secondLanguage || secondLanguage === language) {
+      speakText(say(primary), {
+        ...options,
+        language: primary.speechLanguage,
+      });
+      return;
+    }
+
+    const second = createTranslation(secondLanguage);
+    speakText(say(primary), {
+      ...options,
+      language: primary.speechLanguage,
+      onDone: () =>
+        speakText(say(second), {
+          ...options,
+          language: second.speechLanguage,
+        }),
+    });
   };
 
   const stopSpeaking = () => {
     Speech.stop();
   };
 
-  return { speakText, stopSpeaking };
+  return { speakText, speakBilingual, stopSpeaking };
 }
@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+
+import { useGameContext } from "../contexts/GameContext";
+import { createTranslation } from "../utils/i18n";
+
+// Messages, color, shape and letter names in the player's language
+export function useTranslation() {
+  const { language } = useGameContext();
+
+  return useMemo(() => createTranslation(language), [language]);
+}
@@ -0,0 +1,860 @@
+import * as Haptics from "expo-haptics";
+import { LinearGradient } from "expo-linear-gradient";
+import * as Speech from "expo-speech";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
+
+import AnimatedBackground from "../components/AnimatedBackground";
+import DifficultyPicker from "../components/DifficultyPicker";
+import FloatingAnimal from "../components/FloatingAnimal";
+import GameHeader from "../components/GameHeader";
+import PauseMenu from "../components/PauseMenu";
+import PopBubble from "../components/PopBubble";
+import RoundResults from "../components/RoundResults";
+import { useGameContext } from "../contexts/GameContext";
+import { useRandom } from "../contexts/RandomContext";
+import { COLORS } from "../utils/colors";
+import { MessageKey, Translation } from "../utils/i18n";
+import {
+  ALPHABET,
+  LETTER_SOUNDS,
+  LOWERCASE_ALPHABET,
+  NUMBERS,
+} from "../utils/letters";
+import { MasteryDomain } from "../utils/mastery";
+import { pickOne, shuffle } from "../utils/random";
+import { loadSound } from "../utils/sounds";
+import { RepetitionDeck, selectNextItem } from "../utils/spacedRepetition";
+import { getWordsForLevel } from "../utils/spelling";
+
+import { useAdaptiveDifficulty } from "@/hooks/useAdaptiveDifficulty";
+import { useEquipped } from "@/hooks/useEquipped";
+import { useGameResults } from "@/hooks/useGameResults";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
+import { useSound } from "@/hooks/useSound";
+import { useSpeech } from "@/hooks/useSpeech";
+import { useTranslation } from "@/hooks/useTranslation";
+
+enum GameMode {
+  ALPHABET = "alphabet",
+  LOWERCASE = "lowercase",
+  MATCHING = "matching",
+  PHONICS = "phonics",
+  NUMBERS = "numbers",
+  SPELLING = "spelling",
+}
+
+// Order the mode button cycles through
+const MODE_ORDER = Object.values(GameMode);
+
+// Targets found before the results are shown
+const ROUNDS_PER_GAME = 5;
+
+// Spelling always uses the full grid so longer words fit with distractors
+const SPELLING_GRID_SIZE = 4;
+
+type ModeConfig = {
+  // Short label for the mode button
+  label: MessageKey;
+  subtitle: MessageKey;
+  metricTitle: MessageKey;
+  // Word shown above the target card
+  findText: MessageKey;
+  deck: RepetitionDeck;
+  domain: MasteryDomain;
+  // What a round can ask the child to find at a difficulty level
+  items: (level: number) => string[];
+  // The bubble to pop next, after `progress` correct pops this round
+  answer: (target: string, progress: number) => string;
+  // The target's letters are popped one at a time, in order
+  spellsTarget?: boolean;
+  // Bubbles that can be mixed in around the answer
+  distractors: (target: string) => string[];
+  // What the target card shows
+  display: (target: string) => string;
+  // What's said, in a given language. Letters are named the way that
+  // language's alphabet says them.
+  prompt: (translation: Translation, target: string) => string;
+  praise: (translation: Translation, target: string) => string;
+  retry: (
+    translation: Translation,
+    popped: string,
+    target: string,
+    expected: string,
+  ) => string;
+};
+
+const sameItem = (target: string) => target;
+const fixedItems = (items: string[]) => () => items;
+const otherItems = (items: string[]) => (target: string) =>
+  items.filter((item) => item !== target);
+
+const MODES: Record<GameMode, ModeConfig> = {
+  [GameMode.ALPHABET]: {
+    label: "abc.alphabet.label",
+    subtitle: "abc.alphabet.subtitle",
+    metricTitle: "abc.lettersLearned",
+    findText: "common.find",
+    deck: "letter",
+    domain: "letter",
+    items: fixedItems(ALPHABET),
+    answer: sameItem,
+    distractors: otherItems(ALPHABET),
+    display: sameItem,
+    prompt: ({ t, letterName }, target) =>
+      t("abc.alphabet.prompt", { target: letterName(target) }),
+    praise: ({ t, letterName }, target) =>
+      t("abc.alphabet.praise", { target: letterName(target) }),
+    retry: ({ t, letterName }, popped, target) =>
+      t("abc.alphabet.retry", {
+        popped: letterName(popped),
+        target: letterName(target),
+      }),
+  },
+  [GameMode.LOWERCASE]: {
+    label: "abc.lowercase.label",
+    subtitle: "abc.lowercase.subtitle",
+    metricTitle: "abc.lettersLearned",
+    findText: "common.find",
+    deck: "letter",
+    domain: "letter",
+    items: fixedItems(LOWERCASE_ALPHABET),
+    answer: sameItem,
+    distractors: otherItems(LOWERCASE_ALPHABET),
+    display: sameItem,
+    prompt: ({ t, letterName }, target) =>
+      t("abc.lowercase.prompt", { target: letterName(target) }),
+    praise: ({ t, letterName }, target) =>
+      t("abc.lowercase.praise", { target: letterName(target) }),
+    retry: ({ t, letterName }, popped, target) =>
+      t("abc.lowercase.retry", {
+        popped: letterName(popped),
+        target: letterName(target),
+      }),
+  },
+  [GameMode.MATCHING]: {
+    label: "abc.matching.label",
+    subtitle: "abc.matching.subtitle",
+    metricTitle: "abc.matching.metric",
+    findText: "abc.matching.find",
+    deck: "letterMatch",
+    domain: "letterMatch",
+    items: fixedItems(ALPHABET),
+    answer: (target) => target.toLowerCase(),
+    distractors: (target) =>
+      otherItems(LOWERCASE_ALPHABET)(target.toLowerCase()),
+    display: sameItem,
+    prompt: ({ t, letterName }, target) =>
+      t("abc.matching.prompt", { target: letterName(target) }),
+    praise: ({ t, letterName }, target) =>
+      t("abc.matching.praise", {
+        target: letterName(target),
+        little: letterName(target.toLowerCase()),
+      }),
+    retry: ({ t, letterName }, popped, target) =>
+      t("abc.matching.retry", {
+        popped: letterName(popped),
+        little: letterName(target.toLowerCase()),
+      }),
+  },
+  [GameMode.PHONICS]: {
+    label: "abc.phonics.label",
+    subtitle: "abc.phonics.subtitle",
+    metricTitle: "abc.phonics.metric",
+    findText: "abc.phonics.find",
+    deck: "letterSound",
+    domain: "letterSound",
+    items: fixedItems(LOWERCASE_ALPHABET),
+    answer: sameItem,
+    // Letters that share a sound (like c and k) would both be right
+    distractors: (target) =>
+      LOWERCASE_ALPHABET.filter(
+        (item) => LETTER_SOUNDS[item].spoken !== LETTER_SOUNDS[target].spoken,
+      ),
+    display: (target) => LETTER_SOUNDS[target].symbol,
+    prompt: ({ t }, target) =>
+      t("abc.phonics.prompt", {
+        sound: LETTER_SOUNDS[target].spoken,
+        example: LETTER_SOUNDS[target].example,
+      }),
+    praise: ({ t, letterName }, target) =>
+      t("abc.phonics.praise", {
+        target: letterName(target),
+        sound: LETTER_SOUNDS[target].spoken,
+        example: LETTER_SOUNDS[target].example,
+      }),
+    retry: ({ t, letterName }, popped, target) =>
+      t("abc.phonics.retry", {
+        popped: letterName(popped),
+        poppedSound: LETTER_SOUNDS[popped].spoken,
+        sound: LETTER_SOUNDS[target].spoken,
+      }),
+  },
+  [GameMode.NUMBERS]: {
+    label: "abc.numbers.label",
+    subtitle: "abc.numbers.subtitle",
+    metricTitle: "abc.numbers.metric",
+    findText: "common.find",
+    deck: "number",
+    domain: "number",
+    items: fixedItems(NUMBERS),
+    answer: sameItem,
+    distractors: otherItems(NUMBERS),
+    display: sameItem,
+    prompt: ({ t }, target) => t("abc.numbers.prompt", { target }),
+    praise: ({ t }, target) => t("abc.numbers.praise", { target }),
+    retry: ({ t }, popped, target) =>
+      t("abc.numbers.retry", { popped, target }),
+  },
+  [GameMode.SPELLING]: {
+    label: "abc.spelling.label",
+    subtitle: "abc.spelling.subtitle",
+    metricTitle: "abc.spelling.metric",
+    findText: "abc.spelling.find",
+    deck: "word",
+    // Each letter is recorded, so mix-ups show up in letter mastery
+    domain: "letter",
+    items: getWordsForLevel,
+    answer: (target, progress) => target[progress],
+    spellsTarget: true,
+    // Only letters the word doesn't use, so there's one way to spell it
+    distractors: (target) =>
+      ALPHABET.filter((letter) => !target.includes(letter)),
+    display: sameItem,
+    prompt: ({ t }, target) =>
+      t("abc.spelling.prompt", { word: target.toLowerCase() }),
+    praise: ({ t, letterName }, target) =>
+      t("abc.spelling.praise", {
+        letters: target.split("").map(letterName).join(", "),
+        word: target.toLowerCase(),
+      }),
+    retry: ({ t, letterName }, popped, target, expected) =>
+      t("abc.spelling.retry", {
+        popped: letterName(popped),
+        word: target.toLowerCase(),
+        expected: letterName(expected),
+      }),
+  },
+};
+
+export default function AbcGame() {
+  const {
+    incrementPops,
+    incrementLettersLearned,
+    recordAnswer,
+    repetition,
+    reviewItem,
+    recordWordCompleted,
+  } = useGameContext();
+  const { companion, bubbles, background } = useEquipped();
+  const { speakText, speakBilingual } = useSpeech();
+  const random = useRandom();
+  const translation = useTranslation();
+  const { t, letterName, speechLanguage } = translation;
+  const { level, locked, canLevelUp, params, recordRound, setLock, levelUp } =
+    useAdaptiveDifficulty("abc");
+  const [mode, setMode] = useState<GameMode>(GameMode.ALPHABET);
+  const [currentTarget, setCurrentTarget] = useState("");
+  // Correct pops so far this round; for spelling, the letters filled in
+  const [progress, setProgress] = useState(0);
+  const [bubbleContents, setBubbleContents] = useState<string[]>([]);
+  const [popStates, setPopStates] = useState<boolean[]>([]);
+  const [gridSize, setGridSize] = useState(params.gridSize);
+  const [showCelebration, setShowCelebration] = useState(false);
+  const [completedCount, setCompletedCount] = useState(0);
+  // State to track total time played (in seconds)
+  const [totalTimePlayed, setTotalTimePlayed] = useState(0);
+  // State for collapsing/expanding the metrics display
+  const [metricsExpanded, setMetricsExpanded] = useState(true);
+  // When the child was last asked to find something, for response times
+  const promptTimeRef = useRef(Date.now());
+  // Pops and response times in the current round, for adaptive difficulty
+  const roundStatsRef = useRef({ pops: 0, correct: 0, responseTotal: 0 });
+  // Read when a round starts, so a level change never restarts a round
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const levelRef = useRef(level);
+  levelRef.current = level;
+  // Latest review history, so picking a target never restarts a round
+  const repetitionRef = useRef(repetition);
+  repetitionRef.current = repetition;
+  const lastTargetRef = useRef<string | undefined>(undefined);
+  // Wrongly popped bubbles the word still needs, waiting to come back
+  const returningRef = useRef<number[]>([]);
+
+  const { play } = useSound();
+  const { logEvent } = useSessionTracker("abc");
+  const { result, rewards, resetResults, countAnswer, finishGame } =
+    useGameResults("abc");
+
+  // Helper function to format seconds as MM:SS
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = time % 60;
+    return `${minutes}:${seconds < 10 ? "0" : ""}${seconds}`;
+  };
+
+  // Function to speak text using TTS
+  const speakTextCB = useCallback(
+    (text: string) => {
+      speakText(text, {
+        language: speechLanguage,
+        pitch: 1.2,
+        rate: 0.9,
+      });
+    },
+    [speechLanguage],
+  );
+
+  // Brings back the letters waiting to return. Pausing cancels the timer
+  // that would do it, so resuming calls this too.
+  const returnLetters = useCallback(() => {
+    const indices = returningRef.current;
+    if (indices.length === 0) return;
+    returningRef.current = [];
+    setPopStates((prev) => {
+      const newStates = [...prev];
+      indices.forEach((index) => {
+        newStates[index] = false;
+      });
+      return newStates;
+    });
+  }, []);
+
+  // Initialize the game round
+  const initializeGame = useCallback(
+    (round: number) => {
+      const config = MODES[mode];
+
+      const { targetCount } = paramsRef.current;
+      const gridSize = config.spellsTarget
+        ? SPELLING_GRID_SIZE
+        : paramsRef.current.gridSize;
+      const totalBubbles = gridSize * gridSize;
+
+      // Reset state for the current round
+      setGridSize(gridSize);
+      setPopStates(Array(totalBubbles).fill(false));
+      returningRef.current = [];
+      setProgress(0);
+      setShowCelebration(false);
+      roundStatsRef.current = { pops: 0, correct: 0, responseTotal: 0 };
+
+      // Revisit weak items before moving on to new ones
+      const target = selectNextItem(
+        repetitionRef.current[config.deck],
+        config.items(levelRef.current),
+        Date.now(),
+        lastTargetRef.current,
+      );
+      lastTargetRef.current = target;
+      setCurrentTarget(target);
+      promptTimeRef.current = Date.now();
+      logEvent({ type: "roundStart", target, level: levelRef.current });
+
+      // Generate bubble contents: the word's letters when spelling, otherwise
+      // several instances of the answer
+      const contents = config.spellsTarget
+        ? target.split("")
+        : Array<string>(targetCount).fill(config.answer(target, 0));
+
+      // Fill remaining spots with other letters/numbers
+      const remainingSpots = totalBubbles - contents.length;
+      const distractors = config.distractors(target);
+      for (let i = 0; i < remainingSpots; i++) {
+        contents.push(pickOne(distractors, random));
+      }
+
+      setBubbleContents(shuffle(contents, random));
+
+      // Announce the new target using TTS
+      if (round === 1) resetResults();
+      const announcement = round === 1 ? "abc.gameStarted" : "abc.quick";
+      speakBilingual(
+        (translation) =>
+          translation.t(announcement, {
+            prompt: config.prompt(translation, target),
+          }),
+        { pitch: 1.2, rate: 0.9 },
+      );
+    },
+    [mode, speakBilingual, logEvent, resetResults, random],
+  );
+
+  // Each target is a round, with a celebration before the next one and the
+  // results after the last
+  const {
+    phase,
+    canPause,
+    round,
+    start,
+    completeRound,
+    pause,
+    resume,
+    schedule,
+  } = useRoundEngine({
+    roundCompleteMs: 2000,
+    roundsPerGame: ROUNDS_PER_GAME,
+    autoStart: true,
+    onRoundStart: initializeGame,
+    onFinish: () => finishGame(),
+    onPause: () => logEvent({ type: "pause" }),
+    onResume: () => {
+      logEvent({ type: "resume" });
+      returnLetters();
+    },
+  });
+
+  const paused = phase === "paused";
+  const finished = phase === "results";
+
+  // Increase total time played every second, except while paused or
+  // showing the results
+  useEffect(() => {
+    if (paused || finished) return;
+
+    const timer = setInterval(() => {
+      setTotalTimePlayed((prev) => prev + 1);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [paused, finished]);
+
+  // Initial setup: load sounds and initialize speech
+  useEffect(() => {
+    loadSound("pop");
+    loadSound("correct");
+    loadSound("incorrect");
+    loadSound("celebration");
+
+    Speech.getAvailableVoicesAsync().then(() => {
+      console.log("Speech module initialized");
+    });
+
+    return () => {
+      Speech.stop();
+    };
+  }, []);
+
+  // Switch game mode
+  const nextMode =
+    MODE_ORDER[(MODE_ORDER.indexOf(mode) + 1) % MODE_ORDER.length];
+  const switchMode = useCallback(() => {
+    // The old target may not exist in the new mode's items
+    lastTargetRef.current = undefined;
+    setCurrentTarget("");
+    setMode(nextMode);
+    start();
+  }, [nextMode, start]);
+
+  const restartGame = () => {
+    setCompletedCount(0);
+    setTotalTimePlayed(0);
+    start();
+  };
+
+  // Handle bubble pop event
+  const handlePop = useCallback(
+    (index: number, content: string) => {
+      if (popStates[index] || phase !== "playing") return;
+
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      // Mark the bubble as popped
+      setPopStates((prev) => {
+        const newStates = [...prev];
+        newStates[index] = true;
+        return newStates;
+      });
+
+      const config = MODES[mode];
+      const answer = config.answer(currentTarget, progress);
+      const isCorrect = content === answer;
+      const responseTimeMs = Date.now() - promptTimeRef.current;
+      recordAnswer(
+        config.domain,
+        config.spellsTarget ? answer : currentTarget,
+        {
+          correct: isCorrect,
+          responseTimeMs,
+          chosen: isCorrect ? undefined : content,
+        },
+      );
+      logEvent({
+        type: "pop",
+        item: content,
+        correct: isCorrect,
+        latencyMs: responseTimeMs,
+      });
+      promptTimeRef.current = Date.now();
+      countAnswer(isCorrect);
+
+      const roundStats = roundStatsRef.current;
+      roundStats.pops += 1;
+      roundStats.correct += isCorrect ? 1 : 0;
+      roundStats.responseTotal += responseTimeMs;
+
+      // Check if the popped bubble is the target letter/number
+      if (isCorrect) {
+        play("correct");
+        incrementPops();
+
+        const newPopStates = [...popStates];
+        newPopStates[index] = true;
+        setProgress(progress + 1);
+
+        const remaining = config.spellsTarget
+          ? currentTarget.length - (progress + 1)
+          : bubbleContents.filter(
+              (item, idx) => item === answer && !newPopStates[idx],
+            ).length;
+
+        if (remaining === 0) {
+          play("celebration");
+          setShowCelebration(true);
+          incrementLettersLearned();
+          setCompletedCount((prev) => prev + 1);
+          logEvent({ type: "roundEnd", completed: true });
+          recordRound({
+            accuracy: roundStats.correct / roundStats.pops,
+            averageResponseMs: roundStats.responseTotal / roundStats.pops,
+          });
+          // Only a round without mistakes moves the item up a box
+          reviewItem(
+            config.deck,
+            currentTarget,
+            roundStats.correct === roundStats.pops,
+          );
+          if (config.spellsTarget) recordWordCompleted(currentTarget);
+          speakTextCB(config.praise(translation, currentTarget));
+
+          completeRound();
+        } else if (config.spellsTarget) {
+          speakTextCB(letterName(content));
+        } else if (remaining <= 3) {
+          speakTextCB(t("abc.findMore", { count: remaining }));
+        }
+      } else {
+        play("incorrect");
+        speakTextCB(config.retry(translation, content, currentTarget, answer));
+
+        // A letter the word still needs comes back so it can be spelled
+        if (
+          config.spellsTarget &&
+          currentTarget.slice(progress).includes(content)
+        ) {
+          returningRef.current.push(index);
+          schedule(returnLetters, 600);
+        }
+      }
+    },
+    [
+      mode,
+      phase,
+      popStates,
+      progress,
+      currentTarget,
+      bubbleContents,
+      incrementPops,
+      incrementLettersLearned,
+      recordAnswer,
+      logEvent,
+      countAnswer,
+      recordRound,
+      reviewItem,
+      recordWordCompleted,
+      speakTextCB,
+      completeRound,
+      schedule,
+      returnLetters,
+      translation,
+    ],
+  );
+
+  return (
+    <AnimatedBackground colors={background}>
+      {/* Wrap the header in a View to push it down */}
+      <GameHeader
+        title={t("mode.abc")}
+        subtitle={t(MODES[mode].subtitle)}
+        colors={[COLORS.abc.primary, COLORS.abc.secondary]}
+        onPause={canPause ? pause : undefined}
+      />
+
+      <FloatingAnimal
+        type={companion}
+        position={{ top: 100, right: 20 }}
+        size={90}
+        color="rgba(91, 154, 230, 0.6)"
+      />
+
+      <View style={styles.container}>
+        {/* Target display and mode toggle */}
+        <LinearGradient
+          colors={[COLORS.abc.primary, COLORS.abc.secondary]}
+          style={styles.targetContainer}
+        >
+          <View style={styles.targetTextContainer}>
+            <Text style={styles.findText}>{t(MODES[mode].findText)}</Text>
+            {MODES[mode].spellsTarget ? (
+              <View style={styles.letterSlots}>
+                {currentTarget.split("").map((letter, index) => (
+                  <View key={index} style={styles.letterSlot}>
+                    <Text style={styles.letterSlotText}>
+                      {index < progress ? letter : ""}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.targetText}>
+                {currentTarget && MODES[mode].display(currentTarget)}
+              </Text>
+            )}
+          </View>
+          <Pressable onPress={switchMode} style={styles.modeButton}>
+            <Text style={styles.modeButtonText}>
+              {t(MODES[nextMode].label)}
+            </Text>
+          </Pressable>
+        </LinearGradient>
+
+        {/* Bubble grid */}
+        <View style={styles.gridContainer}>
+          <View style={[styles.grid, { width: gridSize * 85 }]}>
+            {bubbleContents.map((content, index) => (
+              <PopBubble
+                key={`${mode}-${round}-${index}`}
+                id={`${index}`}
+                isPopped={popStates[index]}
+                onPop={() => handlePop(index, content)}
+                colors={bubbles[index % bubbles.length]}
+                size={65}
+                content={<Text style={styles.bubbleContent}>{content}</Text>}
+              />
+            ))}
+          </View>
+        </View>
+
+        {/* Collapsible metrics display */}
+        <Pressable
+          onPress={() => setMetricsExpanded((prev) => !prev)}
+          style={styles.metricsToggle}
+        >
+          <Text style={styles.metricsToggleText}>
+            {metricsExpanded
+              ? `${t("common.hideMetrics")} ▲`
+              : `${t("common.showMetrics")} ▼`}
+          </Text>
+        </Pressable>
+        {metricsExpanded && (
+          <View style={styles.metricsContainer}>
+            <View style={styles.metricItem}>
+              <Text style={styles.metricTitle}>
+                {t(MODES[mode].metricTitle)}
+              </Text>
+              <Text style={styles.metricValue}>{completedCount}</Text>
+            </View>
+            <View style={styles.metricItem}>
+              <Text style={styles.metricTitle}>{t("common.timePlayed")}</Text>
+              <Text style={styles.metricValue}>
+                {formatTime(totalTimePlayed)}
+              </Text>
+            </View>
+            <View style={styles.metricItem}>
+              <Text style={styles.metricTitle}>{t("common.difficulty")}</Text>
+              <DifficultyPicker
+                level={level}
+                locked={locked}
+                onSelect={setLock}
+                textStyle={styles.metricValue}
+                iconColor={COLORS.abc.primary}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Celebration overlay */}
+        {showCelebration && (
+          <Animated.View
+            entering={FadeIn}
+            exiting={FadeOut}
+            style={styles.celebrationOverlay}
+          >
+            <Text style={styles.celebrationText}>{t("common.greatJob")}</Text>
+            <Text
+              style={styles.celebrationLetter}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {mode === GameMode.MATCHING
+                ? `${currentTarget}${currentTarget.toLowerCase()}`
+                : currentTarget}
+            </Text>
+          </Animated.View>
+        )}
+      </View>
+
+      <RoundResults
+        result={result}
+        rewards={rewards}
+        onReplay={restartGame}
+        onNextLevel={
+          canLevelUp
+            ? () => {
+                levelUp();
+                restartGame();
+              }
+            : undefined
+        }
+        color={COLORS.abc.primary}
+      />
+
+      <PauseMenu
+        visible={paused}
+        onResume={resume}
+        onRestart={restartGame}
+        difficulty={{ level, locked, onSelect: setLock }}
+        color={COLORS.abc.primary}
+      />
+    </AnimatedBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 20,
+  },
+  targetContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderRadius: 16,
+    width: "90%",
+    maxWidth: 500,
+    marginVertical: 16,
+  },
+  targetTextContainer: {
+    flexDirection: "column",
+  },
+  findText: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "white",
+    opacity: 0.9,
+  },
+  targetText: {
+    fontFamily: "BubbleGum",
+    fontSize: 42,
+    color: "white",
+    textShadowColor: "rgba(0, 0, 0, 0.2)",
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  letterSlots: {
+    flexDirection: "row",
+    marginTop: 6,
+  },
+  letterSlot: {
+    width: 36,
+    height: 44,
+    marginRight: 6,
+    borderBottomWidth: 3,
+    borderBottomColor: "white",
+    justifyContent: "flex-end",
+    alignItems: "center",
+  },
+  letterSlotText: {
+    fontFamily: "BubbleGum",
+    fontSize: 32,
+    color: "white",
+    textShadowColor: "rgba(0, 0, 0, 0.2)",
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  modeButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.3)",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  modeButtonText: {
+    fontFamily: "ComicNeue",
+    fontSize: 18,
+    color: "white",
+    fontWeight: "bold",
+  },
+  gridContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+  },
+  bubbleContent: {
+    fontFamily: "BubbleGum",
+    fontSize: 28,
+    color: "white",
+    textShadowColor: "rgba(0, 0, 0, 0.2)",
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  metricsToggle: {
+    marginVertical: 10,
+  },
+  metricsToggleText: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: COLORS.text.primary,
+    textDecorationLine: "underline",
+  },
+  metricsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    paddingHorizontal: 10,
+  },
+  metricItem: {
+    flex: 1,
+    minWidth: 150,
+    alignItems: "center",
+    marginHorizontal: 10,
+    marginVertical: 5,
+  },
+  metricTitle: {
+    fontFamily: "ComicNeue",
+    fontSize: 16,
+    color: COLORS.text.primary,
+  },
+  metricValue: {
+    fontFamily: "BubbleGum",
+    fontSize: 24,
+    color: COLORS.abc.primary,
+  },
+  celebrationOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    justifyContent: "center",
+    alignItems: "center",
+    zIndex: 10,
+  },
+  celebrationText: {
+    fontFamily: "BubbleGum",
+    fontSize: 42,
+    color: COLORS.abc.primary,
+    marginBottom: 20,
+  },
+  celebrationLetter: {
+    fontFamily: "BubbleGum",
+    fontSize: 80,
+    color: COLORS.abc.primary,
+  },
+});
@@ -2,30 +2,38 @@ import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import * as Speech from "expo-speech";
 import React, { useState, useEffect, useCallback, useRef } from "react";
-import {
-  View,
-  Text,
-  StyleSheet,
-  Pressable,
-  AppState,
-  Dimensions,
-} from "react-native";
+import { View, Text, StyleSheet, Pressable, Dimensions } from "react-native";
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
   withTiming,
   Easing,
+  cancelAnimation,
 } from "react-native-reanimated";
 
 import AnimatedBackground from "../components/AnimatedBackground";
+import DifficultyPicker from "../components/DifficultyPicker";
 import FloatingAnimal from "../components/FloatingAnimal";
 import GameHeader from "../components/GameHeader";
+import PauseMenu from "../components/PauseMenu";
+import RoundResults from "../components/RoundResults";
 import { useGameContext } from "../contexts/GameContext";
-
+import { useRandom } from "../contexts/RandomContext";
+import { chance, pickOne } from "../utils/random";
+
+import { useAdaptiveDifficulty } from "@/hooks/useAdaptiveDifficulty";
+import { useEquipped } from "@/hooks/useEquipped";
+import { useGameResults } from "@/hooks/useGameResults";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
 import { useSound } from "@/hooks/useSound";
 import { useSpeech } from "@/hooks/useSpeech";
+import { useTranslation } from "@/hooks/useTranslation";
 import { loadSound } from "@/utils/sounds";
 
+// Shapes found before the results are shown
+const TARGETS_PER_GAME = 10;
+
 // Shape types
 enum ShapeType {
   CIRCLE = "circle",
@@ -47,13 +55,6 @@ type BalloonShape = {
   floatDelay: number;
 };
 
-// Game difficulty settings
-enum Difficulty {
-  EASY = "easy",
-  MEDIUM = "medium",
-  HARD = "hard",
-}
-
 const isOverlapping = (
   candidateX: number,
   candidateSize: number,
@@ -237,6 +238,7 @@ const BalloonItem = React.memo(
     popped,
     yStart,
     floatDelay,
+    paused,
     onPress,
     onOffScreen,
   }: {
@@ -249,21 +251,29 @@ const BalloonItem = React.memo(
     popped: boolean;
     yStart: number;
     floatDelay: number;
+    paused: boolean;
     onPress: () => void;
     onOffScreen: (id: string) => void;
   }) => {
     const yPosition = useSharedValue(yStart);
 
+    // Reset initial position
     useEffect(() => {
-      if (popped) return;
-
-      // Reset initial position
       yPosition.value = yStart;
+    }, [yStart]);
+
+    useEffect(() => {
+      if (popped) return;
+      // Freeze where it is; it floats on from there when play resumes
+      if (paused) {
+        cancelAnimation(yPosition);
+        return;
+      }
 
       const timer = setTimeout(() => {
         // Set the target Y far above the screen so the balloon fully floats off
         const targetY = -size * 3;
-        const distance = yStart - targetY;
+        const distance = yPosition.value - targetY;
         const duration = (distance / speed) * 1000;
 
         yPosition.value = withTiming(targetY, {
@@ -273,7 +283,7 @@ const BalloonItem = React.memo(
       }, floatDelay);
 
       return () => clearTimeout(timer);
-    }, [yStart, size, speed, floatDelay, popped]);
+    }, [yStart, size, speed, floatDelay, popped, paused]);
 
     useEffect(() => {
       const checkOffScreen = () => {
@@ -317,87 +327,83 @@ const BalloonItem = React.memo(
 
 export default function BalloonShapesGame() {
   const gameContext = useGameContext();
+  const { companion, bubbles, background } = useEquipped();
   const incrementPops = gameContext?.incrementPops;
   const incrementShapesLearned = gameContext?.incrementShapesCompleted;
+  const recordAnswer = gameContext?.recordAnswer;
 
   const { play } = useSound();
-  const { speakText } = useSpeech();
-
-  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.EASY);
+  const { logEvent } = useSessionTracker("balloon");
+  const { result, rewards, resetResults, countAnswer, finishGame } =
+    useGameResults("balloon");
+  const { speakText, speakBilingual } = useSpeech();
+  const random = useRandom();
+  const { t, shapeName } = useTranslation();
+
+  const { level, locked, canLevelUp, params, recordRound, setLock, levelUp } =
+    useAdaptiveDifficulty("balloon");
   const [balloons, setBalloons] = useState<BalloonShape[]>([]);
   const [score, setScore] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
-  const [gameStarted, setGameStarted] = useState(false);
   const [currentTargetShape, setCurrentTargetShape] =
     useState<ShapeType | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
 
-  const appState = useRef(AppState.currentState);
-  const isComponentMounted = useRef(true);
   const isSpeakingRef = useRef<boolean>(false);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const gameTimerRef = useRef<NodeJS.Timeout | null>(null);
   const timeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTime = useRef(Date.now());
   const offScreenBalloons = useRef<Set<string>>(new Set());
-
-  // Number of active balloons based on difficulty
-  const getActiveBalloonCount = useCallback(() => {
-    switch (difficulty) {
-      case Difficulty.EASY:
-        return 6;
-      case Difficulty.MEDIUM:
-        return 10;
-      case Difficulty.HARD:
-        return 14;
-      default:
-        return 6;
-    }
-  }, [difficulty]);
-
-  // Color palette for balloons
-  const balloonColors = [
-    "#FF6B95", // Pink
-    "#4BD5B3", // Teal
-    "#5B9AE6", // Blue
-    "#9D7FE6", // Purple
-    "#FF9858", // Orange
-    "#8BC34A", // Green
-  ];
-
-  // App state monitoring
-  useEffect(() => {
-    const subscription = AppState.addEventListener("change", (nextAppState) => {
-      if (
-        appState.current === "active" &&
-        nextAppState.match(/inactive|background/)
-      ) {
-        cleanUp();
-      } else if (
-        appState.current.match(/inactive|background/) &&
-        nextAppState === "active"
-      ) {
-        if (isComponentMounted.current) {
-          startTime.current = Date.now() - elapsedTime * 1000;
-          if (gameStarted) {
-            resumeGame();
-          }
-        }
+  // When the current target was announced, for response times
+  const promptTimeRef = useRef(Date.now());
+  // When the current target was chosen and how many pops it has taken
+  const targetSetAtRef = useRef(Date.now());
+  const targetPopsRef = useRef(0);
+  const targetsFoundRef = useRef(0);
+
+  // Balloons take the main color of each bubble in the chosen skin
+  const balloonColors = bubbles.map(([color]) => color);
+
+  // The whole game is one untimed round; targets change as they're found,
+  // and finding the last one ends the game
+  const {
+    phase,
+    canPause,
+    start: startGame,
+    finish,
+    pause,
+    resume,
+    schedule,
+    isMounted,
+  } = useRoundEngine({
+    onRoundStart: () => {
+      resetResults();
+      startTime.current = Date.now();
+      setElapsedTime(0);
+      setScore(0);
+      targetsFoundRef.current = 0;
+      initializeBalloons();
+    },
+    onFinish: () => finishGame(score),
+    onPause: () => logEvent({ type: "pause" }),
+    onResume: () => {
+      logEvent({ type: "resume" });
+      startTime.current = Date.now() - elapsedTime * 1000;
+      // Remind of current target
+      if (currentTargetShape) {
+        speakTargetInstruction(currentTargetShape);
       }
-      appState.current = nextAppState;
-    });
-
-    return () => {
-      subscription.remove();
-    };
-  }, [elapsedTime, gameStarted]);
+    },
+  });
+  const gameStarted = phase !== "idle";
+  const paused = phase === "paused";
+  const finished = phase === "results";
 
   // Elapsed time tracking
   useEffect(() => {
+    if (!gameStarted || paused || finished) return;
+
     timeIntervalRef.current = setInterval(() => {
-      if (gameStarted) {
-        setElapsedTime(Math.floor((Date.now() - startTime.current) / 1000));
-      }
+      setElapsedTime(Math.floor((Date.now() - startTime.current) / 1000));
     }, 1000);
 
     return () => {
@@ -406,43 +412,7 @@ export default function BalloonShapesGame() {
         timeIntervalRef.current = null;
       }
     };
-  }, [gameStarted]);
-
-  // Component lifecycle
-  useEffect(() => {
-    isComponentMounted.current = true;
-
-    return () => {
-      isComponentMounted.current = false;
-      cleanUp();
-    };
-  }, []);
-
-  // Clean up function
-  const cleanUp = useCallback(() => {
-    if (timerRef.current) {
-      clearTimeout(timerRef.current);
-      timerRef.current = null;
-    }
-
-    if (gameTimerRef.current) {
-      clearTimeout(gameTimerRef.current);
-      gameTimerRef.current = null;
-    }
-
-    if (timeIntervalRef.current) {
-      clearInterval(timeIntervalRef.current);
-      timeIntervalRef.current = null;
-    }
-
-    try {
-      Speech.stop();
-    } catch (error) {
-      console.error("Error stopping speech during cleanup:", error);
-    }
-
-    isSpeakingRef.current = false;
-  }, []);
+  }, [gameStarted, paused, finished]);
 
   // Handle off-screen balloons
   const handleOffScreenBalloon = useCallback((id: string) => {
@@ -454,7 +424,7 @@ export default function BalloonShapesGame() {
     if (!gameStarted) return;
 
     const animationInterval = setInterval(() => {
-      if (isComponentMounted.current && offScreenBalloons.current.size > 0) {
+      if (isMounted() && offScreenBalloons.current.size > 0) {
         // Get IDs of balloons that are off screen
         const offScreenIds = Array.from(offScreenBalloons.current);
 
@@ -484,11 +454,9 @@ export default function BalloonShapesGame() {
                 (b) => !b.popped,
               );
               if (availableBalloons.length > 0) {
-                const randomIndex = Math.floor(
-                  Math.random() * availableBalloons.length,
-                );
+                const { id } = pickOne(availableBalloons, random);
                 const balloonIndex = updatedBalloons.findIndex(
-                  (b) => b.id === availableBalloons[randomIndex].id,
+                  (b) => b.id === id,
                 );
                 if (balloonIndex !== -1) {
                   updatedBalloons[balloonIndex].type =
@@ -506,25 +474,22 @@ export default function BalloonShapesGame() {
       }
     }, 1000);
 
-    // Store this interval for cleanup
-    gameTimerRef.current = animationInterval as unknown as NodeJS.Timeout;
-
     return () => {
       clearInterval(animationInterval);
     };
-  }, [gameStarted, currentTargetShape]);
+  }, [gameStarted, currentTargetShape, random]);
 
   // Speak shape name
   const speakShapeName = useCallback(
-    (shapeName: string) => {
-      if (!isComponentMounted.current) return;
+    (shape: string) => {
+      if (!isMounted()) return;
 
       if (isSpeakingRef.current) {
         Speech.stop();
       }
 
       isSpeakingRef.current = true;
-      speakText(shapeName, {
+      speakText(shapeName(shape), {
         rate: 0.8,
         pitch: 1.2,
         onDone: () => {
@@ -535,61 +500,56 @@ export default function BalloonShapesGame() {
         },
       });
     },
-    [speakText],
+    [speakText, shapeName],
   );
 
   // Speak the target shape instruction
   const speakTargetInstruction = useCallback(
-    (shapeName: string) => {
-      if (!isComponentMounted.current) return;
+    (shape: string) => {
+      if (!isMounted()) return;
 
       if (isSpeakingRef.current) {
         Speech.stop();
       }
 
-      const speech = `Find the ${shapeName}!`;
+      promptTimeRef.current = Date.now();
 
       isSpeakingRef.current = true;
-      speakText(speech, {
-        rate: 0.8,
-        pitch: 1.1,
-        onDone: () => {
-          isSpeakingRef.current = false;
-        },
-        onStopped: () => {
-          isSpeakingRef.current = false;
+      speakBilingual(
+        ({ t, shapeName }) => t("balloon.find", { shape: shapeName(shape) }),
+        {
+          rate: 0.8,
+          pitch: 1.1,
+          onDone: () => {
+            isSpeakingRef.current = false;
+          },
+          onStopped: () => {
+            isSpeakingRef.current = false;
+          },
         },
-      });
+      );
     },
-    [speakText],
+    [speakBilingual],
   );
 
   // Create a new balloon
   const createBalloon = useCallback(
     (id: string): BalloonShape => {
-      const randomShape =
-        Object.values(ShapeType)[
-          Math.floor(Math.random() * Object.values(ShapeType).length)
-        ];
+      const randomShape = pickOne(Object.values(ShapeType), random);
 
-      const randomColor =
-        balloonColors[Math.floor(Math.random() * balloonColors.length)];
+      const randomColor = pickOne(balloonColors, random);
 
-      const size = Math.random() * 30 + 70; // Size between 70-100
+      const size = random() * 30 + 70; // Size between 70-100
       // Choose an x value randomly from 0 to SCREEN_WIDTH - size.
       const maxX = SCREEN_WIDTH - size;
-      const randomX = Math.random() * maxX;
-
-      let speedMultiplier = 1;
-      if (difficulty === Difficulty.MEDIUM) speedMultiplier = 1.5;
-      if (difficulty === Difficulty.HARD) speedMultiplier = 2;
+      const randomX = random() * maxX;
 
-      const speed = (Math.random() * 3 + 5) * speedMultiplier * 7;
+      const speed = (random() * 3 + 5) * params.speedMultiplier * 7;
 
       // Y position is set near the bottom edge.
       const yStart = SCREEN_HEIGHT - 20;
       // A short delay so they start moving within about 0.5 seconds.
-      const floatDelay = Math.random() * 500;
+      const floatDelay = random() * 500;
 
       return {
         id,
@@ -603,14 +563,14 @@ export default function BalloonShapesGame() {
         floatDelay,
       };
     },
-    [balloonColors, difficulty],
+    [balloonColors, params, random],
   );
 
   // Initialize balloons
   const initializeBalloons = useCallback(() => {
-    if (!isComponentMounted.current) return;
+    if (!isMounted()) return;
 
-    const count = getActiveBalloonCount();
+    const count = params.balloonCount;
     const newBalloons: BalloonShape[] = [];
 
     for (let i = 0; i < count; i++) {
@@ -628,26 +588,34 @@ export default function BalloonShapesGame() {
     }
 
     // Set a random target shape
-    const shapes = Object.values(ShapeType);
-    const randomTargetShape = shapes[Math.floor(Math.random() * shapes.length)];
+    const randomTargetShape = pickOne(Object.values(ShapeType), random);
     setCurrentTargetShape(randomTargetShape);
+    targetSetAtRef.current = Date.now();
+    targetPopsRef.current = 0;
+    logEvent({ type: "roundStart", target: randomTargetShape, level });
 
     // Ensure at least one balloon is the target shape.
     const hasTarget = newBalloons.some((b) => b.type === randomTargetShape);
     if (!hasTarget && newBalloons.length > 0) {
-      const randomIndex = Math.floor(Math.random() * newBalloons.length);
-      newBalloons[randomIndex].type = randomTargetShape;
+      pickOne(newBalloons, random).type = randomTargetShape;
     }
 
     setBalloons(newBalloons);
 
     // Speak the target instruction after a short delay.
-    setTimeout(() => {
-      if (isComponentMounted.current) {
-        speakTargetInstruction(randomTargetShape);
-      }
+    schedule(() => {
+      speakTargetInstruction(randomTargetShape);
     }, 500);
-  }, [createBalloon, getActiveBalloonCount, speakTargetInstruction]);
+  }, [
+    isMounted,
+    schedule,
+    createBalloon,
+    params,
+    level,
+    speakTargetInstruction,
+    logEvent,
+    random,
+  ]);
 
   // Load resources and init game
   useEffect(() => {
@@ -666,16 +634,12 @@ export default function BalloonShapesGame() {
     };
 
     loadResources();
-
-    return () => {
-      cleanUp();
-    };
-  }, [cleanUp]);
+  }, []);
 
   // Handle balloon pop
   const handleBalloonPop = useCallback(
     (balloon: BalloonShape) => {
-      if (balloon.popped || !isComponentMounted.current) return;
+      if (balloon.popped || phase !== "playing") return;
 
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
 
@@ -692,15 +656,48 @@ export default function BalloonShapesGame() {
       // Speak the shape name
       speakShapeName(balloon.type);
 
+      const isCorrect = balloon.type === currentTargetShape;
+      const responseTimeMs = Date.now() - promptTimeRef.current;
+      targetPopsRef.current += 1;
+      if (currentTargetShape) {
+        recordAnswer?.("shape", currentTargetShape, {
+          correct: isCorrect,
+          responseTimeMs,
+          chosen: isCorrect ? undefined : balloon.type,
+        });
+      }
+      logEvent({
+        type: "pop",
+        item: balloon.type,
+        correct: currentTargetShape ? isCorrect : null,
+        latencyMs: responseTimeMs,
+      });
+      if (currentTargetShape) countAnswer(isCorrect);
+
       // Check if this is the target shape
-      if (balloon.type === currentTargetShape) {
+      if (isCorrect) {
         play("correct");
         setScore((prev) => prev + 10);
+        logEvent({ type: "roundEnd", completed: true });
+        recordRound({
+          accuracy: 1 / targetPopsRef.current,
+          averageResponseMs: Date.now() - targetSetAtRef.current,
+        });
+
+        // The last target ends the game rather than choosing a new one
+        targetsFoundRef.current += 1;
+        if (targetsFoundRef.current >= TARGETS_PER_GAME) {
+          incrementShapesLearned?.();
+          incrementPops?.();
+          finish();
+          return;
+        }
 
-        const shapes = Object.values(ShapeType);
-        const randomTargetShape =
-          shapes[Math.floor(Math.random() * shapes.length)];
+        const randomTargetShape = pickOne(Object.values(ShapeType), random);
         setCurrentTargetShape(randomTargetShape);
+        targetSetAtRef.current = Date.now();
+        targetPopsRef.current = 0;
+        logEvent({ type: "roundStart", target: randomTargetShape, level });
 
         // Immediately replace the popped balloon with no extra delay.
         setBalloons((prevBalloons) => {
@@ -721,10 +718,7 @@ export default function BalloonShapesGame() {
             (b) => b.type === randomTargetShape,
           );
           if (!hasTarget && updatedBalloons.length > 0) {
-            const randomIndex = Math.floor(
-              Math.random() * updatedBalloons.length,
-            );
-            updatedBalloons[randomIndex].type = randomTargetShape;
+            pickOne(updatedBalloons, random).type = randomTargetShape;
           }
 
           return updatedBalloons;
@@ -747,7 +741,7 @@ export default function BalloonShapesGame() {
               floatDelay: 0,
             };
             // With some probability, force the new balloon to be the target shape.
-            if (Math.random() > 0.7) {
+            if (chance(0.3, random)) {
               updatedBalloons[poppedIndex].type =
                 currentTargetShape as ShapeType;
             }
@@ -760,62 +754,39 @@ export default function BalloonShapesGame() {
       incrementPops?.();
     },
     [
+      phase,
       currentTargetShape,
       play,
       speakShapeName,
       speakTargetInstruction,
       incrementPops,
       incrementShapesLearned,
+      recordAnswer,
+      logEvent,
+      countAnswer,
+      level,
+      recordRound,
+      finish,
       createBalloon,
+      random,
     ],
   );
 
-  // Start the game
-  const startGame = useCallback(() => {
-    if (isComponentMounted.current) {
-      startTime.current = Date.now();
-      setElapsedTime(0);
-      setScore(0);
-      initializeBalloons();
-      setGameStarted(true);
-    }
-  }, [initializeBalloons]);
-
-  // Resume the game after pause
-  const resumeGame = useCallback(() => {
-    if (isComponentMounted.current) {
-      // Remind of current target
-      if (currentTargetShape) {
-        speakTargetInstruction(currentTargetShape);
-      }
-    }
-  }, [speakTargetInstruction, currentTargetShape]);
-
-  // Toggle difficulty
-  const toggleDifficulty = useCallback(() => {
-    if (difficulty === Difficulty.EASY) {
-      setDifficulty(Difficulty.MEDIUM);
-    } else if (difficulty === Difficulty.MEDIUM) {
-      setDifficulty(Difficulty.HARD);
-    } else {
-      setDifficulty(Difficulty.EASY);
-    }
-
-    // Restart with new difficulty
-    cleanUp();
-    setTimeout(() => {
-      if (isComponentMounted.current) {
-        startGame();
-      }
-    }, 100);
-  }, [difficulty, cleanUp, startGame]);
+  // Lock or unlock the level, then restart so the balloons match it
+  const handleLevelSelect = useCallback(
+    (selected: number | null) => {
+      setLock(selected);
+      if (gameStarted) startGame();
+    },
+    [setLock, gameStarted, startGame],
+  );
 
   // Loading screen
   if (isLoading) {
     return (
-      <AnimatedBackground colors={["#FFD1DC", "#FFF0F5"]}>
+      <AnimatedBackground colors={background}>
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading...</Text>
+          <Text style={styles.loadingText}>{t("common.loading")}</Text>
         </View>
       </AnimatedBackground>
     );
@@ -824,16 +795,16 @@ export default function BalloonShapesGame() {
   // Render start screen if game hasn't started
   if (!gameStarted) {
     return (
-      <AnimatedBackground colors={["#FFD1DC", "#FFF0F5"]}>
+      <AnimatedBackground colors={background}>
         <GameHeader
-          title="Balloon Shapes"
-          subtitle="Pop the balloons and learn shapes!"
+          title={t("mode.balloon")}
+          subtitle={t("balloon.subtitle")}
           colors={["#FF6B95", "#FF9858"]}
         />
 
         <View style={styles.startContainer}>
           <FloatingAnimal
-            type="bunny"
+            type={companion}
             position={{ top: "15%", left: "10%" }}
             color="rgba(255, 107, 149, 0.6)"
             size={100}
@@ -843,26 +814,28 @@ export default function BalloonShapesGame() {
             colors={["rgba(255, 255, 255, 0.8)", "rgba(255, 255, 255, 0.6)"]}
             style={styles.startCard}
           >
-            <Text style={styles.startTitle}>Balloon Shapes</Text>
+            <Text style={styles.startTitle}>{t("mode.balloon")}</Text>
             <Text style={styles.startDescription}>
-              Pop the balloons that match the shape shown!
+              {t("balloon.description")}
             </Text>
 
-            <Pressable
+            <DifficultyPicker
+              level={level}
+              locked={locked}
+              onSelect={handleLevelSelect}
               style={styles.difficultyToggle}
-              onPress={toggleDifficulty}
-            >
-              <Text style={styles.difficultyText}>
-                Difficulty: {difficulty}
-              </Text>
-            </Pressable>
+              textStyle={styles.difficultyText}
+              iconColor="#FF6B95"
+            />
 
             <Pressable style={styles.startButton} onPress={startGame}>
               <LinearGradient
                 colors={["#FF6B95", "#FF9858"]}
                 style={styles.startButtonGradient}
               >
-                <Text style={styles.startButtonText}>Start Game</Text>
+                <Text style={styles.startButtonText}>
+                  {t("common.startGame")}
+                </Text>
               </LinearGradient>
             </Pressable>
           </LinearGradient>
@@ -872,11 +845,12 @@ export default function BalloonShapesGame() {
   }
 
   return (
-    <AnimatedBackground colors={["#FFD1DC", "#FFF0F5"]}>
+    <AnimatedBackground colors={background}>
       <GameHeader
-        title="Balloon Shapes"
-        subtitle="Pop the balloons and learn shapes!"
+        title={t("mode.balloon")}
+        subtitle={t("balloon.subtitle")}
         colors={["#FF6B95", "#FF9858"]}
+        onPause={canPause ? pause : undefined}
       />
 
       {/* Target Shape Indicator */}
@@ -884,12 +858,15 @@ export default function BalloonShapesGame() {
         colors={["#FF6B95", "#FF9858"]}
         style={styles.targetContainer}
       >
-        <Text style={styles.targetText}>Find the {currentTargetShape}!</Text>
+        <Text style={styles.targetText}>
+          {currentTargetShape &&
+            t("balloon.find", { shape: shapeName(currentTargetShape) })}
+        </Text>
       </LinearGradient>
 
       {/* Floating animal decoration */}
       <FloatingAnimal
-        type="bunny"
+        type={companion}
         position={{ top: 120, right: 20 }}
         size={70}
         color="rgba(255, 107, 149, 0.6)"
@@ -909,6 +886,7 @@ export default function BalloonShapesGame() {
             popped={balloon.popped}
             yStart={balloon.yStart}
             floatDelay={balloon.floatDelay}
+            paused={paused || finished}
             onPress={() => handleBalloonPop(balloon)}
             onOffScreen={handleOffScreenBalloon}
           />
@@ -923,25 +901,50 @@ export default function BalloonShapesGame() {
         >
           <View style={styles.statsRow}>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>Score</Text>
+              <Text style={styles.statLabel}>{t("common.score")}</Text>
               <Text style={styles.statValue}>{score}</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>Time</Text>
+              <Text style={styles.statLabel}>{t("common.time")}</Text>
               <Text style={styles.statValue}>
                 {Math.floor(elapsedTime / 60)}:
                 {("0" + (elapsedTime % 60)).slice(-2)}
               </Text>
             </View>
-            <Pressable
+            <DifficultyPicker
+              level={level}
+              locked={locked}
+              onSelect={handleLevelSelect}
               style={styles.difficultyButton}
-              onPress={toggleDifficulty}
-            >
-              <Text style={styles.difficultyButtonText}>{difficulty}</Text>
-            </Pressable>
+              textStyle={styles.difficultyButtonText}
+              iconColor="#FF6B95"
+            />
           </View>
         </LinearGradient>
       </View>
+
+      <RoundResults
+        result={result}
+        rewards={rewards}
+        onReplay={startGame}
+        onNextLevel={
+          canLevelUp
+            ? () => {
+                levelUp();
+                startGame();
+              }
+            : undefined
+        }
+        color="#FF6B95"
+      />
+
+      <PauseMenu
+        visible={paused}
+        onResume={resume}
+        onRestart={startGame}
+        difficulty={{ level, locked, onSelect: handleLevelSelect }}
+        color="#FF6B95"
+      />
     </AnimatedBackground>
   );
 }
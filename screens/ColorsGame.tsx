@@ -4,42 +4,57 @@ import * as Speech from "expo-speech";
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { View, Text, StyleSheet, Pressable } from "react-native";
 import Animated, {
-  FadeIn,
   useAnimatedStyle,
   useSharedValue,
   withTiming,
 } from "react-native-reanimated";
 
 import AnimatedBackground from "../components/AnimatedBackground";
+import DifficultyPicker from "../components/DifficultyPicker";
 import FloatingAnimal from "../components/FloatingAnimal";
 import GameHeader from "../components/GameHeader";
+import PauseMenu from "../components/PauseMenu";
 import PopBubble from "../components/PopBubble";
+import RoundResults from "../components/RoundResults";
 import { useGameContext } from "../contexts/GameContext";
+import { useRandom } from "../contexts/RandomContext";
 import { LEARNING_COLORS, COLORS } from "../utils/colors";
+import { pickOne, shuffle } from "../utils/random";
 import { loadSound } from "../utils/sounds";
 
+import { useAdaptiveDifficulty } from "@/hooks/useAdaptiveDifficulty";
+import { useEquipped } from "@/hooks/useEquipped";
+import { useGameResults } from "@/hooks/useGameResults";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
 import { useSound } from "@/hooks/useSound";
 import { useSpeech } from "@/hooks/useSpeech";
+import { useTranslation } from "@/hooks/useTranslation";
 
-// Grid configuration
-const GRID_SIZE = 4; // 4x4 grid
-const TOTAL_BUBBLES = GRID_SIZE * GRID_SIZE;
 const GAME_DURATION = 30; // 30 seconds per round
 
 export default function ColorsGame() {
-  const { incrementPops, incrementColorsLearned } = useGameContext();
-  const { speakText } = useSpeech();
+  const { incrementPops, incrementColorsLearned, recordAnswer } =
+    useGameContext();
+  // The bubbles are the colors being learned, so no skin here
+  const { companion, background } = useEquipped();
+  const { speakText, speakBilingual } = useSpeech();
+  const random = useRandom();
+  const { t, colorName, speechLanguage } = useTranslation();
+  const { level, locked, canLevelUp, params, recordRound, setLock, levelUp } =
+    useAdaptiveDifficulty("colors");
 
   const { play } = useSound();
+  const { logEvent } = useSessionTracker("colors");
+  const { result, rewards, resetResults, countAnswer, finishGame } =
+    useGameResults("colors");
   const [targetColor, setTargetColor] = useState(LEARNING_COLORS[0]);
   const [bubbleColors, setBubbleColors] = useState<
     ((typeof LEARNING_COLORS)[0] & { popped?: boolean })[]
   >([]);
   const [score, setScore] = useState(0);
   const [remainingBubbles, setRemainingBubbles] = useState(0);
-  const [gameActive, setGameActive] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(GAME_DURATION);
-  const [showResults, setShowResults] = useState(false);
+  const [gridSize, setGridSize] = useState(params.gridSize);
 
   // Cumulative totals (across rounds)
   const [totalTimePlayed, setTotalTimePlayed] = useState(0);
@@ -48,7 +63,15 @@ export default function ColorsGame() {
   // Toggle to collapse/expand the metrics display
   const [metricsExpanded, setMetricsExpanded] = useState(true);
 
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // When the child was last asked to find something, for response times
+  const promptTimeRef = useRef(Date.now());
+  // Pops and response times in the current round, for adaptive difficulty
+  const roundStatsRef = useRef({ pops: 0, correct: 0, responseTotal: 0 });
+  // Read when a round starts, so a level change never restarts a round
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const levelRef = useRef(level);
+  levelRef.current = level;
   const progressWidth = useSharedValue(100);
 
   // Helper function to format time (MM:SS)
@@ -59,78 +82,132 @@ export default function ColorsGame() {
   }, []);
 
   // Function to speak text using TTS
-  const speakTextCB = useCallback((text: string) => {
-    speakText(text, {
-      language: "en-US",
-      pitch: 1.2,
-      rate: 0.9,
-    });
-  }, []);
+  const speakTextCB = useCallback(
+    (text: string) => {
+      speakText(text, {
+        language: speechLanguage,
+        pitch: 1.2,
+        rate: 0.9,
+      });
+    },
+    [speechLanguage],
+  );
 
   // Initialize a game round (do not reset score or cumulative totals)
   const initializeGame = useCallback(() => {
     // Reset only round-specific state
-    setTimeRemaining(GAME_DURATION);
-    setShowResults(false);
     progressWidth.value = 100;
+    roundStatsRef.current = { pops: 0, correct: 0, responseTotal: 0 };
+
+    const { gridSize, targetCount, distractorColors } = paramsRef.current;
+    const totalBubbles = gridSize * gridSize;
+    setGridSize(gridSize);
 
     // Choose a random target color
-    const randomIndex = Math.floor(Math.random() * LEARNING_COLORS.length);
-    const target = LEARNING_COLORS[randomIndex];
+    const target = pickOne(LEARNING_COLORS, random);
     setTargetColor(target);
+    promptTimeRef.current = Date.now();
+    logEvent({
+      type: "roundStart",
+      target: target.name,
+      level: levelRef.current,
+    });
 
     // Generate bubbles using the target color and other colors
     const colors = [];
-    const targetColorCount = 8; // Number of target color bubbles
 
-    for (let i = 0; i < targetColorCount; i++) {
+    for (let i = 0; i < targetCount; i++) {
       colors.push(target);
     }
 
-    const remainingSpots = TOTAL_BUBBLES - targetColorCount;
-    const otherColors = LEARNING_COLORS.filter((c) => c.name !== target.name);
+    // Fewer different colors to choose between at lower levels
+    const remainingSpots = totalBubbles - targetCount;
+    const otherColors = shuffle(
+      LEARNING_COLORS.filter((c) => c.name !== target.name),
+      random,
+    ).slice(0, distractorColors);
     for (let i = 0; i < remainingSpots; i++) {
-      const randomOtherIndex = Math.floor(Math.random() * otherColors.length);
-      colors.push(otherColors[randomOtherIndex]);
+      colors.push(pickOne(otherColors, random));
     }
 
-    const shuffled = colors.sort(() => Math.random() - 0.5);
-    setBubbleColors(shuffled);
-    setRemainingBubbles(targetColorCount);
+    setBubbleColors(shuffle(colors, random));
+    setRemainingBubbles(targetCount);
+
+    speakBilingual(
+      ({ t, colorName }) =>
+        t("colors.prompt", {
+          color: colorName(target.name),
+          seconds: GAME_DURATION,
+        }),
+      { pitch: 1.2, rate: 0.9 },
+    );
+  }, [speakBilingual, progressWidth, logEvent, random]);
+
+  // A round that ran out of time still counts towards the level, and ends
+  // the game
+  const handleTimeUp = () => {
+    const { pops, correct, responseTotal } = roundStatsRef.current;
+    logEvent({ type: "roundEnd", completed: false, score });
+    if (pops > 0) {
+      recordRound({
+        accuracy: correct / pops,
+        averageResponseMs: responseTotal / pops,
+      });
+    }
+    finishGame(score);
+  };
+
+  // Each target is its own timed round; finding them all moves on to the
+  // next one
+  const {
+    phase,
+    canPause,
+    timeRemaining,
+    timeRemainingMs,
+    start,
+    completeRound,
+    pause,
+    resume,
+  } = useRoundEngine({
+    roundDurationMs: GAME_DURATION * 1000,
+    roundCompleteMs: 1500,
+    autoStart: true,
+    onRoundStart: (round) => {
+      if (round === 1) resetResults();
+      initializeGame();
+    },
+    onTimeUp: handleTimeUp,
+    onPause: () => logEvent({ type: "pause" }),
+    onResume: () => logEvent({ type: "resume" }),
+  });
+  const gameActive = phase === "playing";
 
-    // Start the round
-    setGameActive(true);
-    speakTextCB(`Find the color ${target.name}. You have 30 seconds.`);
-    startTimer();
-  }, [speakTextCB, progressWidth]);
+  // A new game starts the score and totals again
+  const restartGame = () => {
+    setScore(0);
+    setTotalTimePlayed(0);
+    setTotalColorsSolved(0);
+    start();
+  };
 
-  // Countdown timer for current round
-  const startTimer = useCallback(() => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
+  // Spoken reminders as time runs out
+  useEffect(() => {
+    if (!gameActive) return;
+    if (timeRemaining === 10) {
+      speakTextCB(t("common.secondsLeft", { count: 10 }));
+    } else if (timeRemaining === 5) {
+      speakTextCB(t("common.hurry", { count: 5 }));
     }
-    timerRef.current = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev === 10) {
-          speakTextCB("10 seconds left!");
-        } else if (prev === 5) {
-          speakTextCB("Hurry! 5 seconds left!");
-        }
-        if (prev <= 1) {
-          clearInterval(timerRef.current!);
-          setGameActive(false);
-          setShowResults(true);
-          speakTextCB(`Time's up! Your score is ${score} points.`);
-          return 0;
-        }
-        return prev - 1;
-      });
-      // Update progress bar width
+  }, [timeRemaining]);
+
+  // Shrink the timer bar as the clock runs down
+  useEffect(() => {
+    if (timeRemainingMs !== null) {
       progressWidth.value = withTiming(
-        ((timeRemaining - 1) * 100) / GAME_DURATION,
+        (timeRemainingMs / (GAME_DURATION * 1000)) * 100,
       );
-    }, 1000);
-  }, [timeRemaining, score, speakTextCB, progressWidth]);
+    }
+  }, [timeRemainingMs]);
 
   // Update total time played while a round is active
   useEffect(() => {
@@ -155,15 +232,7 @@ export default function ColorsGame() {
     Speech.getAvailableVoicesAsync().then(() => {
       console.log("Speech module initialized");
     });
-    // Start game round on mount
-    initializeGame();
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      Speech.stop();
-    };
-  }, [initializeGame]);
+  }, []);
 
   // Handle bubble pop events
   const handlePop = useCallback(
@@ -171,7 +240,29 @@ export default function ColorsGame() {
       if (!gameActive) return;
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      if (color.name === targetColor.name) {
+      const isCorrect = color.name === targetColor.name;
+      const responseTimeMs = Date.now() - promptTimeRef.current;
+      recordAnswer("color", targetColor.name, {
+        correct: isCorrect,
+        responseTimeMs,
+        chosen: isCorrect ? undefined : color.name,
+      });
+      logEvent({
+        type: "pop",
+        item: color.name,
+        correct: isCorrect,
+        latencyMs: responseTimeMs,
+      });
+      promptTimeRef.current = Date.now();
+
+      countAnswer(isCorrect);
+
+      const roundStats = roundStatsRef.current;
+      roundStats.pops += 1;
+      roundStats.correct += isCorrect ? 1 : 0;
+      roundStats.responseTotal += responseTimeMs;
+
+      if (isCorrect) {
         play("correct");
         setScore((prev) => prev + 10);
         setRemainingBubbles((prev) => prev - 1);
@@ -181,21 +272,32 @@ export default function ColorsGame() {
           play("celebration");
           incrementColorsLearned();
           setTotalColorsSolved((prev) => prev + 1);
+          logEvent({ type: "roundEnd", completed: true });
+          recordRound({
+            accuracy: roundStats.correct / roundStats.pops,
+            averageResponseMs: roundStats.responseTotal / roundStats.pops,
+          });
           speakTextCB(
-            `Great job! You found all the ${targetColor.name} bubbles!`,
+            t("colors.allFound", { color: colorName(targetColor.name) }),
           );
-          setTimeout(() => {
-            initializeGame();
-          }, 1500);
+          completeRound();
         } else if (remainingBubbles <= 3) {
           speakTextCB(
-            `Good! ${remainingBubbles - 1} ${targetColor.name} bubbles left.`,
+            t("colors.bubblesLeft", {
+              count: remainingBubbles - 1,
+              color: colorName(targetColor.name),
+            }),
           );
         }
       } else {
         play("incorrect");
         setScore((prev) => Math.max(0, prev - 5));
-        speakTextCB(`That's ${color.name}, not ${targetColor.name}.`);
+        speakTextCB(
+          t("colors.wrong", {
+            popped: colorName(color.name),
+            color: colorName(targetColor.name),
+          }),
+        );
       }
 
       // Mark the bubble as popped
@@ -211,16 +313,17 @@ export default function ColorsGame() {
       remainingBubbles,
       incrementPops,
       incrementColorsLearned,
-      initializeGame,
+      recordAnswer,
+      logEvent,
+      countAnswer,
+      recordRound,
+      completeRound,
       speakTextCB,
+      t,
+      colorName,
     ],
   );
 
-  // Start round on mount
-  useEffect(() => {
-    initializeGame();
-  }, [initializeGame]);
-
   // Animated style for timer progress bar
   const progressStyle = useAnimatedStyle(() => {
     return {
@@ -229,16 +332,17 @@ export default function ColorsGame() {
   });
 
   return (
-    <AnimatedBackground colors={COLORS.colors.background}>
+    <AnimatedBackground colors={background}>
       <GameHeader
-        title="Colors"
-        subtitle="Find the matching colors!"
+        title={t("mode.colors")}
+        subtitle={t("colors.subtitle")}
         colors={targetColor.value}
+        onPause={canPause ? pause : undefined}
       />
 
       {/* Animal decoration */}
       <FloatingAnimal
-        type="elephant"
+        type={companion}
         position={{ top: 100, left: 20 }}
         size={80}
         color="rgba(75, 213, 179, 0.6)"
@@ -253,23 +357,27 @@ export default function ColorsGame() {
           end={{ x: 1, y: 1 }}
         >
           <View style={styles.targetInfoContainer}>
-            <Text style={styles.findText}>Find</Text>
-            <Text style={styles.targetText}>{targetColor.name}</Text>
+            <Text style={styles.findText}>{t("common.find")}</Text>
+            <Text style={styles.targetText}>{colorName(targetColor.name)}</Text>
           </View>
           <View style={styles.remainingContainer}>
-            <Text style={styles.remainingText}>{remainingBubbles} left</Text>
+            <Text style={styles.remainingText}>
+              {t("common.left", { count: remainingBubbles })}
+            </Text>
           </View>
         </LinearGradient>
 
         {/* Timer progress bar */}
         <View style={styles.timerContainer}>
           <Animated.View style={[styles.timerBar, progressStyle]} />
-          <Text style={styles.timerText}>{timeRemaining}s</Text>
+          <Text style={styles.timerText}>
+            {timeRemaining ?? GAME_DURATION}s
+          </Text>
         </View>
 
         {/* Bubble grid */}
         <View style={styles.gridContainer}>
-          <View style={[styles.grid, { width: GRID_SIZE * 85 }]}>
+          <View style={[styles.grid, { width: gridSize * 85 }]}>
             {bubbleColors.map((color, index) => (
               <PopBubble
                 key={`color-${index}`}
@@ -290,60 +398,63 @@ export default function ColorsGame() {
           style={styles.metricsToggle}
         >
           <Text style={styles.metricsToggleText}>
-            {metricsExpanded ? "Hide Metrics ▲" : "Show Metrics ▼"}
+            {metricsExpanded
+              ? `${t("common.hideMetrics")} ▲`
+              : `${t("common.showMetrics")} ▼`}
           </Text>
         </Pressable>
         {metricsExpanded && (
           <View style={styles.metricsContainer}>
             <View style={styles.metricItem}>
-              <Text style={styles.metricTitle}>Score</Text>
+              <Text style={styles.metricTitle}>{t("common.score")}</Text>
               <Text style={styles.metricValue}>{score}</Text>
             </View>
             <View style={styles.metricItem}>
-              <Text style={styles.metricTitle}>Time Played</Text>
+              <Text style={styles.metricTitle}>{t("common.timePlayed")}</Text>
               <Text style={styles.metricValue}>
                 {formatTime(totalTimePlayed)}
               </Text>
             </View>
             <View style={styles.metricItem}>
-              <Text style={styles.metricTitle}>Colors Solved</Text>
+              <Text style={styles.metricTitle}>{t("colors.solved")}</Text>
               <Text style={styles.metricValue}>{totalColorsSolved}</Text>
             </View>
+            <View style={styles.metricItem}>
+              <Text style={styles.metricTitle}>{t("common.difficulty")}</Text>
+              <DifficultyPicker
+                level={level}
+                locked={locked}
+                onSelect={setLock}
+                textStyle={styles.metricValue}
+                iconColor={COLORS.colors.primary}
+              />
+            </View>
           </View>
         )}
-
-        {/* Results overlay */}
-        {showResults && (
-          <Animated.View entering={FadeIn} style={styles.resultsOverlay}>
-            <Text style={styles.resultsTitle}>Time's Up!</Text>
-            <Text style={styles.resultsScore}>Score: {score}</Text>
-            <Text style={styles.resultsScore}>
-              Colors Solved: {totalColorsSolved}
-            </Text>
-            <Text style={styles.resultsScore}>
-              Time Played: {formatTime(totalTimePlayed)}
-            </Text>
-            <Pressable
-              style={styles.playAgainButton}
-              onPress={() => {
-                speakTextCB("Let's play again!");
-                initializeGame();
-              }}
-            >
-              <LinearGradient
-                colors={
-                  COLORS.colors.primary
-                    ? [COLORS.colors.primary, COLORS.colors.secondary]
-                    : ["#4BD5B3", "#A2F0D5"]
-                }
-                style={styles.playAgainGradient}
-              >
-                <Text style={styles.playAgainText}>Play Again</Text>
-              </LinearGradient>
-            </Pressable>
-          </Animated.View>
-        )}
       </View>
+
+      <RoundResults
+        result={result}
+        rewards={rewards}
+        onReplay={restartGame}
+        onNextLevel={
+          canLevelUp
+            ? () => {
+                levelUp();
+                restartGame();
+              }
+            : undefined
+        }
+        color={COLORS.colors.primary}
+      />
+
+      <PauseMenu
+        visible={phase === "paused"}
+        onResume={resume}
+        onRestart={restartGame}
+        difficulty={{ level, locked, onSelect: setLock }}
+        color={COLORS.colors.primary}
+      />
     </AnimatedBackground>
   );
 }
@@ -461,42 +572,4 @@ const styles = StyleSheet.create({
     fontSize: 24,
     color: COLORS.colors.primary,
   },
-  resultsOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: "rgba(255, 255, 255, 0.95)",
-    justifyContent: "center",
-    alignItems: "center",
-    zIndex: 10,
-  },
-  resultsTitle: {
-    fontFamily: "BubbleGum",
-    fontSize: 42,
-    color: COLORS.colors.primary,
-    marginBottom: 20,
-  },
-  resultsScore: {
-    fontFamily: "ComicNeue",
-    fontSize: 32,
-    color: COLORS.text.primary,
-    marginBottom: 10,
-  },
-  playAgainButton: {
-    borderRadius: 25,
-    overflow: "hidden",
-    elevation: 4,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.2,
-    shadowRadius: 4,
-  },
-  playAgainGradient: {
-    paddingHorizontal: 40,
-    paddingVertical: 16,
-    borderRadius: 25,
-  },
-  playAgainText: {
-    fontFamily: "BubbleGum",
-    fontSize: 24,
-    color: "white",
-  },
 });
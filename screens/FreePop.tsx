@@ -8,13 +8,18 @@ import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
 import AnimatedBackground from "../components/AnimatedBackground";
 import FloatingAnimal from "../components/FloatingAnimal";
 import GameHeader from "../components/GameHeader";
+import PauseMenu from "../components/PauseMenu";
 import PopBubble from "../components/PopBubble";
 import { useGameContext } from "../contexts/GameContext";
 import { SHAPE_THEMES, COLORS } from "../utils/colors";
 import { loadSound } from "../utils/sounds";
 
+import { useEquipped } from "@/hooks/useEquipped";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
 import { useSound } from "@/hooks/useSound";
 import { useSpeech } from "@/hooks/useSpeech";
+import { useTranslation } from "@/hooks/useTranslation";
 
 // Grid configuration
 const GRID_SIZE = 5; // 5x5 grid
@@ -65,8 +70,11 @@ const SHAPE_PROGRESSION = [
 
 export default function FreePop() {
   const { incrementPops, incrementShapesCompleted } = useGameContext();
+  const { companion, bubbles, background } = useEquipped();
   const { play } = useSound();
+  const { logEvent } = useSessionTracker("freePop");
   const { speakText } = useSpeech();
+  const { t, shapeName } = useTranslation();
 
   const [currentTheme, setCurrentTheme] = useState<ShapeTheme>("circle");
   const [currentShapeIndex, setCurrentShapeIndex] = useState(0);
@@ -109,13 +117,9 @@ export default function FreePop() {
         await Speech.stop();
       }
 
-      const shapeName =
-        currentShape === SHAPES.ROUNDED_SQUARE
-          ? "rounded square"
-          : currentShape;
-
-      const prefix = isFirstTime ? "Game started. " : "New shape! ";
-      const message = `${prefix}Pop all the ${shapeName} bubbles!`;
+      const message = t(isFirstTime ? "freePop.start" : "freePop.newShape", {
+        shape: shapeName(currentShape),
+      });
 
       isSpeakingRef.current = true;
 
@@ -130,7 +134,7 @@ export default function FreePop() {
         },
       });
     },
-    [currentShape],
+    [currentShape, t, shapeName],
   );
 
   // Give a hint if user is inactive
@@ -140,9 +144,11 @@ export default function FreePop() {
     }
 
     const remainingCount = TOTAL_BUBBLES - poppedCount;
-    const shapeName =
-      currentShape === SHAPES.ROUNDED_SQUARE ? "rounded square" : currentShape;
-    const message = `Keep going! ${remainingCount} ${shapeName} bubbles left to pop.`;
+    const message = t("freePop.hint", {
+      count: remainingCount,
+      shape: shapeName(currentShape),
+    });
+    logEvent({ type: "hint", item: currentShape });
 
     isSpeakingRef.current = true;
 
@@ -156,7 +162,7 @@ export default function FreePop() {
         isSpeakingRef.current = false;
       },
     });
-  }, [currentShape, poppedCount]);
+  }, [currentShape, poppedCount, logEvent, t, shapeName]);
 
   // Reset inactivity timer
   const resetInactivityTimer = useCallback(() => {
@@ -179,6 +185,7 @@ export default function FreePop() {
   useEffect(() => {
     setBubbleStates(Array(TOTAL_BUBBLES).fill(false));
     setPoppedCount(0);
+    logEvent({ type: "roundStart", target: currentShape });
 
     // Announce the new shape
     cleanUp();
@@ -195,7 +202,37 @@ export default function FreePop() {
         giveHint();
       }
     }, 30000);
-  }, [currentShape, cleanUp, resetInactivityTimer, announceCurrentShape]);
+  }, [
+    currentShape,
+    cleanUp,
+    resetInactivityTimer,
+    announceCurrentShape,
+    logEvent,
+  ]);
+
+  // Free play has no rounds or clock; the engine is only used for pausing
+  const { phase, canPause, pause, resume } = useRoundEngine({
+    autoStart: true,
+    onPause: () => {
+      cleanUp();
+      logEvent({ type: "pause" });
+    },
+    onResume: () => {
+      logEvent({ type: "resume" });
+      lastPopTimeRef.current = Date.now();
+      resetInactivityTimer();
+    },
+  });
+
+  const handleRestart = () => {
+    setCurrentShapeIndex(0);
+    setCurrentTheme("circle");
+    setCompletedCount(0);
+    setShowCelebration(false);
+    setBubbleStates(Array(TOTAL_BUBBLES).fill(false));
+    setPoppedCount(0);
+    resume();
+  };
 
   // Load pop and celebration sounds
   useEffect(() => {
@@ -229,6 +266,9 @@ export default function FreePop() {
         return newStates;
       });
 
+      // Any bubble is a good one to pop here
+      logEvent({ type: "pop", item: currentShape, correct: null });
+
       // Increment pop counters
       setPoppedCount((prev) => prev + 1);
       incrementPops();
@@ -239,17 +279,13 @@ export default function FreePop() {
         cleanUp();
 
         // Show celebration and advance to next shape
+        logEvent({ type: "roundEnd", completed: true });
         setShowCelebration(true);
         incrementShapesCompleted();
         play("celebration");
 
         // Celebration speech
-        const shapeName =
-          currentShape === SHAPES.ROUNDED_SQUARE
-            ? "rounded square"
-            : currentShape;
-
-        speakText(`Great job! You popped all the ${shapeName} bubbles!`, {
+        speakText(t("freePop.done", { shape: shapeName(currentShape) }), {
           rate: 0.9,
           pitch: 1.0,
         });
@@ -280,8 +316,11 @@ export default function FreePop() {
       currentShapeIndex,
       incrementPops,
       incrementShapesCompleted,
+      logEvent,
       resetInactivityTimer,
       cleanUp,
+      t,
+      shapeName,
     ],
   );
 
@@ -290,33 +329,18 @@ export default function FreePop() {
     return SHAPE_STYLES[currentShape] || SHAPE_STYLES[SHAPES.CIRCLE];
   }, [currentShape]);
 
-  // Get the shape name for display
-  const getShapeName = useCallback(() => {
-    switch (currentShape) {
-      case SHAPES.CIRCLE:
-        return "Circle";
-      case SHAPES.SQUARE:
-        return "Square";
-      case SHAPES.ROUNDED_SQUARE:
-        return "Rounded Square";
-      case SHAPES.PILL:
-        return "Pill";
-      default:
-        return "Circle";
-    }
-  }, [currentShape]);
-
   return (
-    <AnimatedBackground colors={COLORS.freePop.background}>
+    <AnimatedBackground colors={background}>
       <GameHeader
-        title="Free Pop"
-        subtitle="Pop all the bubbles!"
+        title={t("mode.freePop")}
+        subtitle={t("freePop.subtitle")}
         colors={SHAPE_THEMES[currentTheme].colors}
+        onPause={canPause ? pause : undefined}
       />
 
       {/* Animal decorations */}
       <FloatingAnimal
-        type="bunny"
+        type={companion}
         position={{ top: 100, right: 20 }}
         size={70}
         color="rgba(255, 107, 149, 0.6)"
@@ -332,7 +356,7 @@ export default function FreePop() {
             end={{ x: 1, y: 1 }}
           >
             <Text style={styles.themeName}>
-              {SHAPE_THEMES[currentTheme].icon} {getShapeName()}
+              {SHAPE_THEMES[currentTheme].icon} {shapeName(currentShape)}
             </Text>
 
             {/* Progress indicator */}
@@ -350,7 +374,7 @@ export default function FreePop() {
                   id={`${index}`}
                   isPopped={bubbleStates[index]}
                   onPop={() => handlePop(index)}
-                  colors={SHAPE_THEMES[currentTheme].colors}
+                  colors={bubbles[index % bubbles.length]}
                   size={70}
                   shapeStyle={getShapeStyle()}
                 />
@@ -364,9 +388,9 @@ export default function FreePop() {
               colors={["rgba(255, 255, 255, 0.8)", "rgba(255, 255, 255, 0.5)"]}
               style={styles.statsCard}
             >
-              <Text style={styles.statsTitle}>Your Progress</Text>
+              <Text style={styles.statsTitle}>{t("freePop.progress")}</Text>
               <Text style={styles.statsText}>
-                Shapes Completed: {completedCount}
+                {t("freePop.completed", { count: completedCount })}
               </Text>
             </LinearGradient>
           </View>
@@ -378,7 +402,7 @@ export default function FreePop() {
               exiting={FadeOut}
               style={styles.celebrationOverlay}
             >
-              <Text style={styles.celebrationText}>Great Job!</Text>
+              <Text style={styles.celebrationText}>{t("common.greatJob")}</Text>
               <Text style={styles.celebrationEmoji}>
                 {SHAPE_THEMES[currentTheme].icon} 🎉{" "}
                 {SHAPE_THEMES[currentTheme].icon}
@@ -387,6 +411,13 @@ export default function FreePop() {
           )}
         </View>
       </ScrollView>
+
+      <PauseMenu
+        visible={phase === "paused"}
+        onResume={resume}
+        onRestart={handleRestart}
+        color={COLORS.freePop.primary}
+      />
     </AnimatedBackground>
   );
 }
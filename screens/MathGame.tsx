@@ -2,54 +2,89 @@ import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import * as Speech from "expo-speech";
 import React, { useState, useEffect, useCallback, useRef } from "react";
-import { View, Text, StyleSheet, Pressable, AppState } from "react-native";
+import { View, Text, StyleSheet, Pressable } from "react-native";
 
 import AnimatedBackground from "../components/AnimatedBackground";
-import FloatingAnimal from "../components/FloatingAnimal";
+import CountingAid from "../components/CountingAid";
+import DifficultyPicker from "../components/DifficultyPicker";
+import FloatingAnimal, { ANIMAL_TYPES } from "../components/FloatingAnimal";
 import GameHeader from "../components/GameHeader";
+import ParentalGate from "../components/ParentalGate";
+import PauseMenu from "../components/PauseMenu";
 import PopBubble from "../components/PopBubble";
-import { useGameContext } from "../contexts/GameContext";
+import RoundResults from "../components/RoundResults";
+import { CountingAidSetting, useGameContext } from "../contexts/GameContext";
+import { useRandom } from "../contexts/RandomContext";
 import { COLORS } from "../utils/colors";
-
+import { MessageKey } from "../utils/i18n";
+import { generateAnswerChoices } from "../utils/mathDistractors";
+import {
+  MathProblem,
+  ProblemType,
+  generateProblem as createProblem,
+  getAnswerSpeech,
+  getProblemKey,
+  getProblemSpeech,
+  getProblemText as formatProblem,
+} from "../utils/mathProblems";
+import { pickOne } from "../utils/random";
+
+import { useAdaptiveDifficulty } from "@/hooks/useAdaptiveDifficulty";
+import { useEquipped } from "@/hooks/useEquipped";
+import { useGameResults } from "@/hooks/useGameResults";
+import { useParentalGate } from "@/hooks/useParentalGate";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
 import { useSound } from "@/hooks/useSound";
 import { useSpeech } from "@/hooks/useSpeech";
+import { useTranslation } from "@/hooks/useTranslation";
 import { loadSound } from "@/utils/sounds";
 
 // Grid configuration: 4x4 grid
 const GRID_SIZE = 4;
 const TOTAL_BUBBLES = GRID_SIZE * GRID_SIZE;
+// Problems solved before the results are shown
+const ROUNDS_PER_GAME = 10;
 
-// Difficulty levels
-enum Difficulty {
-  EASY = "easy",
-  HARD = "hard",
-}
-
-// Problem types
-enum ProblemType {
-  ADDITION = "addition",
-  SUBTRACTION = "subtraction",
-}
-
-type MathProblem = {
-  num1: number;
-  num2: number;
-  type: ProblemType;
-  answer: number;
+const COUNTING_AID_LABELS: Record<CountingAidSetting, MessageKey> = {
+  always: "math.aidAlways",
+  afterMistake: "math.aidAfterMistake",
+  off: "math.aidOff",
 };
+const COUNTING_AID_ORDER: CountingAidSetting[] = [
+  "afterMistake",
+  "always",
+  "off",
+];
 
 export default function MathGame() {
-  const { incrementPops, incrementMathProblems } = useGameContext();
+  const {
+    incrementPops,
+    incrementMathProblems,
+    recordAnswer,
+    countingAid,
+    setCountingAid,
+  } = useGameContext();
+  const { companion, bubbles, background } = useEquipped();
   const { play } = useSound();
+  const { logEvent } = useSessionTracker("math");
+  const { result, rewards, resetResults, countAnswer, finishGame } =
+    useGameResults("math");
+  const { requestAccess, gateProps } = useParentalGate();
   const { speakText } = useSpeech();
+  const { t } = useTranslation();
+  const random = useRandom();
+  const { level, locked, canLevelUp, params, recordRound, setLock, levelUp } =
+    useAdaptiveDifficulty("math");
 
-  const [difficulty, setDifficulty] = useState(Difficulty.EASY);
   const [currentProblem, setCurrentProblem] = useState<MathProblem | null>(
     null,
   );
   const [bubbleAnswers, setBubbleAnswers] = useState<number[]>([]);
   const [score, setScore] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  // Whether the current problem has had a wrong answer, for counting help
+  const [madeMistake, setMadeMistake] = useState(false);
 
   // --- Elapsed time state ---
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -64,40 +99,54 @@ export default function MathGame() {
   );
 
   // Refs for timers and speech
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
   const timeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isSpeakingRef = useRef<boolean>(false);
-  const appState = useRef(AppState.currentState);
-  const isComponentMounted = useRef(true);
-
-  // App state monitoring
-  useEffect(() => {
-    const subscription = AppState.addEventListener("change", (nextAppState) => {
-      if (
-        appState.current === "active" &&
-        nextAppState.match(/inactive|background/)
-      ) {
-        cleanUp();
-      } else if (
-        appState.current.match(/inactive|background/) &&
-        nextAppState === "active"
-      ) {
-        if (isComponentMounted.current) {
-          // Adjust startTime based on elapsedTime when resuming
-          startTime.current = Date.now() - elapsedTime * 1000;
-          initializeGame();
-        }
+  // When the current problem was shown, for response times
+  const promptTimeRef = useRef(Date.now());
+  // Pops spent on the current problem, for the round's accuracy
+  const problemPopsRef = useRef(0);
+
+  // Each problem is an untimed round, which ends once its answer has been
+  // read out. The results come after the last problem.
+  const {
+    phase,
+    canPause,
+    start,
+    completeRound,
+    nextRound,
+    pause,
+    resume,
+    schedule,
+    clearScheduled,
+    isMounted,
+  } = useRoundEngine({
+    roundsPerGame: ROUNDS_PER_GAME,
+    onRoundStart: (round) => {
+      if (round === 1) resetResults();
+      initializeGame();
+    },
+    onFinish: () => finishGame(score),
+    onPause: () => logEvent({ type: "pause" }),
+    onResume: () => {
+      logEvent({ type: "resume" });
+      // Time spent paused doesn't count
+      startTime.current = Date.now() - elapsedTime * 1000;
+      // Pausing cut the speech off, so pick up where it left off
+      if (phase === "roundComplete") {
+        nextRound();
+      } else if (currentProblem) {
+        announceProblem(currentProblem, false);
       }
-      appState.current = nextAppState;
-    });
+    },
+  });
 
-    return () => {
-      subscription.remove();
-    };
-  }, [elapsedTime]);
+  const paused = phase === "paused";
+  const finished = phase === "results";
 
   // Elapsed time tracking
   useEffect(() => {
+    if (paused || finished) return;
+
     timeIntervalRef.current = setInterval(() => {
       setElapsedTime(Math.floor((Date.now() - startTime.current) / 1000));
     }, 1000);
@@ -108,30 +157,20 @@ export default function MathGame() {
         timeIntervalRef.current = null;
       }
     };
-  }, []);
-
-  // Component lifecycle
-  useEffect(() => {
-    isComponentMounted.current = true;
-
-    return () => {
-      isComponentMounted.current = false;
-      cleanUp();
-    };
-  }, []);
+  }, [paused, finished]);
 
   // Function to speak the math problem
   const speakMathProblem = useCallback(
     async (problem: MathProblem, isGameStart = false) => {
-      if (!isComponentMounted.current) return;
+      if (!isMounted()) return;
 
       if (isSpeakingRef.current) {
         await Speech.stop();
       }
 
-      const symbol = problem.type === ProblemType.ADDITION ? "plus" : "minus";
-      const prefix = isGameStart ? "Game started. Target " : "Quick now. Pop ";
-      const speech = `${prefix}${problem.num1} ${symbol} ${problem.num2}`;
+      const speech = t(isGameStart ? "math.gameStarted" : "math.quick", {
+        prompt: getProblemSpeech(problem, t),
+      });
 
       isSpeakingRef.current = true;
       speakText(speech, {
@@ -145,20 +184,20 @@ export default function MathGame() {
         },
       });
     },
-    [speakText],
+    [speakText, t],
   );
 
   // Function to speak only when correct answer is found.
   // Now accepts an optional onComplete callback to run after speech finishes.
   const speakCorrectAnswer = useCallback(
     async (problem: MathProblem, onComplete?: () => void) => {
-      if (!isComponentMounted.current) return;
+      if (!isMounted()) return;
 
       if (isSpeakingRef.current) {
         await Speech.stop();
       }
 
-      const speech = `That's correct! The answer was ${problem.answer}.`;
+      const speech = getAnswerSpeech(problem, t);
 
       isSpeakingRef.current = true;
       speakText(speech, {
@@ -175,93 +214,69 @@ export default function MathGame() {
         },
       });
     },
-    [speakText],
+    [speakText, t],
   );
 
   // Function to speak hint for wrong answers
   const speakHint = useCallback(() => {
-    if (!isComponentMounted.current || !currentProblem) return;
+    if (!isMounted() || !currentProblem) return;
 
-    const hint = "Try again!";
+    const hint = t("math.tryAgain");
 
     speakText(hint, {
       rate: 0.9,
       pitch: 1.0,
     });
-  }, [speakText, currentProblem]);
+  }, [speakText, currentProblem, t]);
 
   // Generate a new math problem
   const generateProblem = useCallback(() => {
-    if (!isComponentMounted.current) return null;
+    if (!isMounted()) return null;
 
     try {
-      const maxNum = difficulty === Difficulty.EASY ? 5 : 10;
-      const problemType =
-        Math.random() > 0.5 ? ProblemType.ADDITION : ProblemType.SUBTRACTION;
-
-      let num1, num2, answer;
-
-      if (problemType === ProblemType.ADDITION) {
-        num1 = Math.floor(Math.random() * maxNum) + 1;
-        num2 = Math.floor(Math.random() * maxNum) + 1;
-        answer = num1 + num2;
-      } else {
-        num1 = Math.floor(Math.random() * maxNum) + 1;
-        num2 = Math.floor(Math.random() * num1) + 1;
-        answer = num1 - num2;
-      }
-
-      const problem = { num1, num2, type: problemType, answer };
+      const { operandMax, problemTypes } = params;
+      const problem = createProblem(
+        pickOne(problemTypes, random),
+        operandMax,
+        random,
+      );
       setCurrentProblem(problem);
+      setMadeMistake(false);
+      promptTimeRef.current = Date.now();
+      problemPopsRef.current = 0;
+      logEvent({ type: "roundStart", target: getProblemKey(problem), level });
       return problem;
     } catch (error) {
       console.error("Error generating problem:", error);
       return null;
     }
-  }, [difficulty]);
+  }, [params, level, logEvent, random]);
 
   // Generate bubble answers
   const generateBubbleAnswers = useCallback(
     (problem: MathProblem) => {
-      if (!problem || !isComponentMounted.current) return;
+      if (!problem || !isMounted()) return;
 
       try {
-        const answers = [problem.answer];
-        const maxNum = difficulty === Difficulty.EASY ? 10 : 20;
-
-        // Use a Set to ensure unique values
-        const answerSet = new Set(answers);
-
-        // Avoid infinite loop with a safety counter
-        let safetyCounter = 0;
-        const maxAttempts = 100;
-
-        while (answerSet.size < TOTAL_BUBBLES && safetyCounter < maxAttempts) {
-          const distractor = Math.floor(Math.random() * maxNum) + 1;
-          answerSet.add(distractor);
-          safetyCounter++;
-        }
-
-        // Convert Set back to array and shuffle
-        const shuffled = Array.from(answerSet)
-          .slice(0, TOTAL_BUBBLES)
-          .sort(() => Math.random() - 0.5);
+        const answers = generateAnswerChoices(problem, {
+          count: TOTAL_BUBBLES,
+          strategy: params.distractorStrategy,
+          answerMax: params.answerMax,
+          random,
+        });
 
-        setBubbleAnswers(shuffled);
+        setBubbleAnswers(answers);
       } catch (error) {
         console.error("Error generating bubble answers:", error);
         setBubbleAnswers(Array(TOTAL_BUBBLES).fill(0));
       }
     },
-    [difficulty],
+    [params, random],
   );
 
   // Clean up timers and speech
   const cleanUp = useCallback(() => {
-    if (timerRef.current) {
-      clearTimeout(timerRef.current);
-      timerRef.current = null;
-    }
+    clearScheduled();
 
     try {
       Speech.stop();
@@ -270,18 +285,34 @@ export default function MathGame() {
     }
 
     isSpeakingRef.current = false;
-  }, []);
+  }, [clearScheduled]);
 
   // Format problem text for display
   const getProblemText = useCallback(() => {
     if (!currentProblem) return "";
-    const symbol = currentProblem.type === ProblemType.ADDITION ? "+" : "-";
-    return `${currentProblem.num1} ${symbol} ${currentProblem.num2} = ?`;
-  }, [currentProblem]);
+    return formatProblem(currentProblem, t);
+  }, [currentProblem, t]);
+
+  // Read the problem out, with a reminder if no correct selection is made
+  const announceProblem = useCallback(
+    (problem: MathProblem, isGameStart: boolean) => {
+      schedule(() => {
+        speakMathProblem(problem, isGameStart);
+
+        schedule(() => {
+          logEvent({ type: "hint", item: getProblemKey(problem) });
+          speakText(
+            t("math.remember", { prompt: getProblemSpeech(problem, t) }),
+          );
+        }, 20000);
+      }, 300);
+    },
+    [schedule, speakMathProblem, speakText, logEvent, t],
+  );
 
   // Initialize the game
   const initializeGame = useCallback(() => {
-    if (!isComponentMounted.current) return;
+    if (!isMounted()) return;
 
     cleanUp();
     setPopStates(new Array(TOTAL_BUBBLES).fill(false));
@@ -290,34 +321,18 @@ export default function MathGame() {
       const problem = generateProblem();
       if (problem) {
         generateBubbleAnswers(problem);
-
-        setTimeout(() => {
-          if (isComponentMounted.current) {
-            const isFirstProblem = score === 0;
-            speakMathProblem(problem, isFirstProblem);
-
-            // Set a timeout to provide a hint if no correct selection is made
-            timerRef.current = setTimeout(() => {
-              if (isComponentMounted.current) {
-                speakText(
-                  "Remember, we're trying to solve " + getProblemText(),
-                );
-              }
-            }, 20000);
-          }
-        }, 300);
+        announceProblem(problem, score === 0);
       }
     } catch (error) {
       console.error("Error initializing game:", error);
     }
   }, [
+    isMounted,
     cleanUp,
     generateProblem,
     generateBubbleAnswers,
+    announceProblem,
     score,
-    speakMathProblem,
-    speakText,
-    getProblemText,
   ]);
 
   useEffect(() => {
@@ -329,12 +344,7 @@ export default function MathGame() {
           loadSound("incorrect"),
         ]);
         setIsLoading(false);
-        // Use setTimeout to ensure state is fully updated before initializing
-        setTimeout(() => {
-          if (isComponentMounted.current) {
-            initializeGame();
-          }
-        }, 100);
+        start();
       } catch (error) {
         console.error("Error loading resources:", error);
         setIsLoading(false);
@@ -342,16 +352,12 @@ export default function MathGame() {
     };
 
     loadResources();
-
-    return () => {
-      cleanUp();
-    };
   }, []);
 
   // Handle answer selection
   const handleAnswerSelect = useCallback(
     (index: number, answer: number) => {
-      if (!currentProblem || !isComponentMounted.current) return;
+      if (!currentProblem || phase !== "playing") return;
 
       // If this bubble is already pressed, do nothing
       if (popStates[index]) return;
@@ -365,22 +371,45 @@ export default function MathGame() {
         return newStates;
       });
 
-      if (answer === currentProblem.answer) {
+      const isCorrect = answer === currentProblem.answer;
+      const responseTimeMs = Date.now() - promptTimeRef.current;
+      problemPopsRef.current += 1;
+      recordAnswer("mathFact", getProblemKey(currentProblem), {
+        correct: isCorrect,
+        responseTimeMs,
+        chosen: isCorrect ? undefined : `${answer}`,
+      });
+      logEvent({
+        type: "pop",
+        item: `${answer}`,
+        correct: isCorrect,
+        latencyMs: responseTimeMs,
+      });
+      countAnswer(isCorrect);
+
+      if (isCorrect) {
         // Correct answer: update score and increment counters
         play("correct");
         setScore((prev) => prev + 10);
         incrementMathProblems();
+        logEvent({ type: "roundEnd", completed: true });
+        completeRound();
+        recordRound({
+          accuracy: 1 / problemPopsRef.current,
+          averageResponseMs: responseTimeMs,
+        });
 
         // Speak correct feedback and only move on when speech finishes
         speakCorrectAnswer(currentProblem, () => {
-          if (isComponentMounted.current) {
-            initializeGame();
+          if (isMounted()) {
+            nextRound();
           }
         });
       } else {
         // Wrong answer: play incorrect sound and give a hint
         play("incorrect");
         setScore((prev) => Math.max(0, prev - 5));
+        setMadeMistake(true);
         speakHint();
       }
 
@@ -388,50 +417,63 @@ export default function MathGame() {
     },
     [
       currentProblem,
+      phase,
       popStates,
       play,
       incrementPops,
       incrementMathProblems,
+      recordAnswer,
+      logEvent,
+      countAnswer,
+      recordRound,
       speakCorrectAnswer,
-      initializeGame,
+      completeRound,
+      nextRound,
+      isMounted,
       speakHint,
     ],
   );
 
-  // Toggle difficulty
-  const toggleDifficulty = useCallback(() => {
-    const newDifficulty =
-      difficulty === Difficulty.EASY ? Difficulty.HARD : Difficulty.EASY;
-    setDifficulty(newDifficulty);
-    cleanUp();
-
-    setTimeout(() => {
-      if (isComponentMounted.current) {
-        initializeGame();
-      }
-    }, 100);
-  }, [difficulty, initializeGame, cleanUp]);
+  const restartGame = () => {
+    setScore(0);
+    startTime.current = Date.now();
+    setElapsedTime(0);
+    start();
+  };
+
+  const showCountingAid =
+    countingAid === "always" || (countingAid === "afterMistake" && madeMistake);
+
+  const cycleCountingAid = () => {
+    requestAccess("settings", () => {
+      const index = COUNTING_AID_ORDER.indexOf(countingAid);
+      setCountingAid(
+        COUNTING_AID_ORDER[(index + 1) % COUNTING_AID_ORDER.length],
+      );
+    });
+  };
 
   if (isLoading) {
     return (
-      <AnimatedBackground colors={COLORS.math.background}>
+      <AnimatedBackground colors={background}>
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading...</Text>
+          <Text style={styles.loadingText}>{t("common.loading")}</Text>
         </View>
       </AnimatedBackground>
     );
   }
 
   return (
-    <AnimatedBackground colors={COLORS.math.background}>
+    <AnimatedBackground colors={background}>
       <GameHeader
-        title="Math Fun"
-        subtitle="Solve fun math problems!"
+        title={t("mode.math")}
+        subtitle={t("math.subtitle")}
         colors={[COLORS.math.primary, COLORS.math.secondary]}
+        onPause={canPause ? pause : undefined}
       />
 
       <FloatingAnimal
-        type="cat"
+        type={companion}
         position={{ top: 100, left: 20 }}
         size={70}
         color="rgba(157, 127, 230, 0.6)"
@@ -442,14 +484,37 @@ export default function MathGame() {
           colors={[COLORS.math.primary, COLORS.math.secondary]}
           style={styles.problemContainer}
         >
-          <Text style={styles.problemText}>{getProblemText()}</Text>
-          <Pressable onPress={toggleDifficulty} style={styles.difficultyButton}>
-            <Text style={styles.difficultyButtonText}>
-              {difficulty === Difficulty.EASY ? "Easy" : "Hard"}
-            </Text>
-          </Pressable>
+          <Text
+            style={styles.problemText}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            {getProblemText()}
+          </Text>
+          <DifficultyPicker
+            level={level}
+            locked={locked}
+            onSelect={setLock}
+            style={styles.difficultyButton}
+            textStyle={styles.difficultyButtonText}
+          />
         </LinearGradient>
 
+        {/* Groups of things to count, for children who can't read numbers yet */}
+        {showCountingAid && currentProblem && (
+          <CountingAid
+            key={getProblemKey(currentProblem)}
+            problem={currentProblem}
+            variant={
+              currentProblem.type === ProblemType.MULTIPLICATION ||
+              currentProblem.type === ProblemType.DIVISION
+                ? "dots"
+                : "animals"
+            }
+            animal={ANIMAL_TYPES[currentProblem.num1 % ANIMAL_TYPES.length]}
+          />
+        )}
+
         {/* Responsive Bubble Grid */}
         <View style={styles.gridContainer}>
           <View style={[styles.grid, { width: GRID_SIZE * 85 }]}>
@@ -459,7 +524,7 @@ export default function MathGame() {
                 id={`${index}`}
                 isPopped={popStates[index]}
                 onPop={() => handleAnswerSelect(index, answer)}
-                colors={[COLORS.math.primary, COLORS.math.secondary]}
+                colors={bubbles[index % bubbles.length]}
                 size={65}
                 content={<Text style={styles.answerText}>{answer}</Text>}
               />
@@ -473,25 +538,59 @@ export default function MathGame() {
           style={styles.metricsToggle}
         >
           <Text style={styles.metricsToggleText}>
-            {metricsExpanded ? "Hide Metrics ▲" : "Show Metrics ▼"}
+            {metricsExpanded
+              ? `${t("common.hideMetrics")} ▲`
+              : `${t("common.showMetrics")} ▼`}
           </Text>
         </Pressable>
         {metricsExpanded && (
           <View style={styles.metricsContainer}>
             <View style={styles.metricItem}>
-              <Text style={styles.metricTitle}>Score</Text>
+              <Text style={styles.metricTitle}>{t("common.score")}</Text>
               <Text style={styles.metricValue}>{score}</Text>
             </View>
             <View style={styles.metricItem}>
-              <Text style={styles.metricTitle}>Time</Text>
+              <Text style={styles.metricTitle}>{t("common.time")}</Text>
               <Text style={styles.metricValue}>
                 {Math.floor(elapsedTime / 60)}:
                 {("0" + (elapsedTime % 60)).slice(-2)}
               </Text>
             </View>
+            <View style={styles.metricItem}>
+              <Text style={styles.metricTitle}>{t("math.countingHelp")}</Text>
+              <Pressable onPress={cycleCountingAid}>
+                <Text style={styles.metricValue}>
+                  {t(COUNTING_AID_LABELS[countingAid])}
+                </Text>
+              </Pressable>
+            </View>
           </View>
         )}
       </View>
+
+      <RoundResults
+        result={result}
+        rewards={rewards}
+        onReplay={restartGame}
+        onNextLevel={
+          canLevelUp
+            ? () => {
+                levelUp();
+                restartGame();
+              }
+            : undefined
+        }
+        color={COLORS.math.primary}
+      />
+
+      <PauseMenu
+        visible={paused}
+        onResume={resume}
+        onRestart={restartGame}
+        difficulty={{ level, locked, onSelect: setLock }}
+        color={COLORS.math.primary}
+      />
+      <ParentalGate {...gateProps} />
     </AnimatedBackground>
   );
 }
@@ -524,6 +623,8 @@ const styles = StyleSheet.create({
     marginVertical: 16,
   },
   problemText: {
+    flexShrink: 1,
+    marginRight: 12,
     fontFamily: "BubbleGum",
     fontSize: 36,
     color: "white",
@@ -1,6 +1,6 @@
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { View, Text, StyleSheet, Pressable } from "react-native";
 import Animated, {
   useAnimatedStyle,
@@ -11,12 +11,21 @@ import Animated, {
 import AnimatedBackground from "../components/AnimatedBackground";
 import FloatingAnimal from "../components/FloatingAnimal";
 import GameHeader from "../components/GameHeader";
+import PauseMenu from "../components/PauseMenu";
 import PopBubble from "../components/PopBubble";
+import RoundResults from "../components/RoundResults";
 import { useGameContext } from "../contexts/GameContext";
+import { useRandom } from "../contexts/RandomContext";
 import { COLORS } from "../utils/colors";
+import { pickOne } from "../utils/random";
 import { loadSound } from "../utils/sounds";
 
+import { useEquipped } from "@/hooks/useEquipped";
+import { useGameResults } from "@/hooks/useGameResults";
+import { useRoundEngine } from "@/hooks/useRoundEngine";
+import { useSessionTracker } from "@/hooks/useSessionTracker";
 import { useSound } from "@/hooks/useSound";
+import { useTranslation } from "@/hooks/useTranslation";
 
 // Grid configuration
 const GRID_SIZE = 4; // 4x4 grid
@@ -25,49 +34,66 @@ const GAME_DURATION = 30; // 30 seconds
 
 export default function SpeedGame() {
   const { incrementPops, updateHighScore } = useGameContext();
+  // Bubble colors come from the skin chosen in the sticker book
+  const { companion, bubbles, background } = useEquipped();
+  const random = useRandom();
+  const { t } = useTranslation();
   const { play } = useSound();
+  const { logEvent } = useSessionTracker("speed");
+  const { result, rewards, resetResults, finishGame } = useGameResults("speed");
 
   const [bubbleStates, setBubbleStates] = useState<boolean[]>([]);
   const [bubbleColors, setBubbleColors] = useState<
     [string, string, ...string[]][]
   >([]);
   const [score, setScore] = useState(0);
-  const [timeRemaining, setTimeRemaining] = useState(GAME_DURATION);
-  const [gameActive, setGameActive] = useState(false);
-  const [showResults, setShowResults] = useState(false);
   const [highScore, setHighScore] = useState(0);
   const [poppedCount, setPoppedCount] = useState(0);
 
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
   const progressWidth = useSharedValue(100);
 
+  // Generate random colors for each bubble
+  const getBubbleColors = useCallback(
+    (): [string, string, ...string[]] => pickOne(bubbles, random),
+    [bubbles, random],
+  );
+
   // Initialize bubble states and colors
   const initializeBubbles = useCallback(() => {
     setBubbleStates(Array(TOTAL_BUBBLES).fill(false));
     setPoppedCount(0);
 
     // Generate new colors for all bubbles
-    const newColors = Array.from({ length: TOTAL_BUBBLES }).map((_, index) =>
-      getBubbleColors(index),
+    const newColors = Array.from({ length: TOTAL_BUBBLES }, () =>
+      getBubbleColors(),
     );
     setBubbleColors(newColors);
-  }, []);
-
-  // Generate random colors for each bubble
-  const getBubbleColors = useCallback(
-    (index: number): [string, string, ...string[]] => {
-      const colorKeys = Object.keys(COLORS.bubbles);
-      const randomIndex = Math.floor(Math.random() * colorKeys.length);
-      const colorKey = colorKeys[randomIndex] as keyof typeof COLORS.bubbles;
-
-      const colors = COLORS.bubbles[colorKey];
-      if (colors.length >= 2) {
-        return colors as [string, string, ...string[]];
-      }
-      return [colors[0], colors[0]] as [string, string, ...string[]];
+  }, [getBubbleColors]);
+
+  // Each game is a single timed round
+  const {
+    phase,
+    canPause,
+    timeRemaining,
+    timeRemainingMs,
+    start: startGame,
+    pause,
+    resume,
+    schedule,
+  } = useRoundEngine({
+    roundDurationMs: GAME_DURATION * 1000,
+    onRoundStart: () => {
+      resetResults();
+      setScore(0);
+      progressWidth.value = 100;
+      logEvent({ type: "roundStart" });
+      initializeBubbles();
     },
-    [],
-  );
+    onFinish: () => endGame(),
+    onPause: () => logEvent({ type: "pause" }),
+    onResume: () => logEvent({ type: "resume" }),
+  });
+  const gameActive = phase === "playing";
 
   // Reset all bubbles when all are popped
   const resetBubblesIfAllPopped = useCallback(() => {
@@ -80,50 +106,15 @@ export default function SpeedGame() {
       setScore((prev) => prev + bonusPoints);
 
       // Reset all bubbles with new colors
-      setTimeout(() => {
+      schedule(() => {
         initializeBubbles();
       }, 300);
     }
-  }, [poppedCount, initializeBubbles]);
-
-  // Start the game
-  const startGame = useCallback(() => {
-    // Reset state
-    setScore(0);
-    setTimeRemaining(GAME_DURATION);
-    setShowResults(false);
-    setGameActive(true);
-    progressWidth.value = 100;
-
-    // Initialize bubbles
-    initializeBubbles();
-
-    // Start timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-    }
-
-    timerRef.current = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          // Game over
-          clearInterval(timerRef.current!);
-          endGame();
-          return 0;
-        }
-        return prev - 1;
-      });
-
-      progressWidth.value = withTiming(
-        (timeRemaining - 1) * (100 / GAME_DURATION),
-      );
-    }, 1000);
-  }, [timeRemaining, initializeBubbles]);
+  }, [poppedCount, initializeBubbles, schedule]);
 
   // End the game
-  const endGame = useCallback(() => {
-    setGameActive(false);
-    setShowResults(true);
+  const endGame = () => {
+    logEvent({ type: "roundEnd", completed: true, score });
 
     // Update high score if needed
     if (score > highScore) {
@@ -133,7 +124,17 @@ export default function SpeedGame() {
 
     // Play celebration sound
     play("celebration");
-  }, [score, highScore, updateHighScore]);
+    finishGame(score);
+  };
+
+  // Shrink the timer bar as the clock runs down
+  useEffect(() => {
+    if (timeRemainingMs !== null) {
+      progressWidth.value = withTiming(
+        (timeRemainingMs / (GAME_DURATION * 1000)) * 100,
+      );
+    }
+  }, [timeRemainingMs]);
 
   // Handle bubble pop
   const handlePop = useCallback(
@@ -153,6 +154,9 @@ export default function SpeedGame() {
         return newStates;
       });
 
+      // Every bubble is fair game, so there's no right or wrong
+      logEvent({ type: "pop", item: `${index}`, correct: null });
+
       // Increment popped count
       setPoppedCount((prev) => prev + 1);
 
@@ -160,7 +164,7 @@ export default function SpeedGame() {
       setScore((prev) => prev + 1);
       incrementPops();
     },
-    [gameActive, bubbleStates, incrementPops],
+    [gameActive, bubbleStates, incrementPops, logEvent],
   );
 
   // Check if all bubbles are popped
@@ -175,12 +179,6 @@ export default function SpeedGame() {
     loadSound("pop");
     loadSound("celebration");
     loadSound("countdown");
-
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
   }, []);
 
   // Timer progress bar animated style
@@ -191,33 +189,38 @@ export default function SpeedGame() {
   });
 
   return (
-    <AnimatedBackground colors={COLORS.speed.background}>
+    <AnimatedBackground colors={background}>
       <GameHeader
-        title="Speed Pop"
-        subtitle="Pop them all!"
+        title={t("mode.speed")}
+        subtitle={t("speed.subtitle")}
         colors={[COLORS.speed.primary, COLORS.speed.secondary]}
+        onPause={canPause ? pause : undefined}
       />
 
       {/* Animal decoration */}
       <FloatingAnimal
-        type="lion"
+        type={companion}
         position={{ top: 100, right: 20 }}
         size={80}
         color="rgba(255, 152, 88, 0.6)"
       />
 
       <View style={styles.container}>
-        {gameActive ? (
+        {gameActive || phase === "paused" ? (
           <>
             {/* Timer display */}
             <View style={styles.timerContainer}>
               <Animated.View style={[styles.timerBar, progressStyle]} />
-              <Text style={styles.timerText}>{timeRemaining}s</Text>
+              <Text style={styles.timerText}>
+                {timeRemaining ?? GAME_DURATION}s
+              </Text>
             </View>
 
             {/* Score display */}
             <View style={styles.scoreDisplay}>
-              <Text style={styles.scoreText}>Score: {score}</Text>
+              <Text style={styles.scoreText}>
+                {t("common.score")}: {score}
+              </Text>
             </View>
 
             {/* Bubble grid */}
@@ -229,7 +232,7 @@ export default function SpeedGame() {
                     id={`${index}`}
                     isPopped={isPopped}
                     onPop={() => handlePop(index)}
-                    colors={bubbleColors[index] || getBubbleColors(index)}
+                    colors={bubbleColors[index] || getBubbleColors()}
                     size={65}
                     disabled={isPopped}
                   />
@@ -239,25 +242,12 @@ export default function SpeedGame() {
           </>
         ) : (
           <>
-            {/* Game start or results screen */}
+            {/* Game start screen */}
             <View style={styles.startContainer}>
-              {showResults ? (
-                <>
-                  <Text style={styles.resultTitle}>Time's Up!</Text>
-                  <Text style={styles.resultScore}>Your Score: {score}</Text>
-                  <Text style={styles.highScoreText}>
-                    Best Score: {highScore}
-                  </Text>
-                </>
-              ) : (
-                <>
-                  <Text style={styles.startTitle}>Speed Pop</Text>
-                  <Text style={styles.startDescription}>
-                    Pop all bubbles to clear the grid! Clear multiple grids to
-                    get higher scores!
-                  </Text>
-                </>
-              )}
+              <Text style={styles.startTitle}>{t("mode.speed")}</Text>
+              <Text style={styles.startDescription}>
+                {t("speed.description")}
+              </Text>
 
               <Pressable style={styles.startButton} onPress={startGame}>
                 <LinearGradient
@@ -265,7 +255,7 @@ export default function SpeedGame() {
                   style={styles.startButtonGradient}
                 >
                   <Text style={styles.startButtonText}>
-                    {showResults ? "Play Again" : "Start Game"}
+                    {t("common.startGame")}
                   </Text>
                 </LinearGradient>
               </Pressable>
@@ -273,6 +263,20 @@ export default function SpeedGame() {
           </>
         )}
       </View>
+
+      <RoundResults
+        result={result}
+        rewards={rewards}
+        onReplay={startGame}
+        color={COLORS.speed.primary}
+      />
+
+      <PauseMenu
+        visible={phase === "paused"}
+        onResume={resume}
+        onRestart={startGame}
+        color={COLORS.speed.primary}
+      />
     </AnimatedBackground>
   );
 }
@@ -353,24 +357,6 @@ const styles = StyleSheet.create({
     marginBottom: 40,
     maxWidth: 300,
   },
-  resultTitle: {
-    fontFamily: "BubbleGum",
-    fontSize: 42,
-    color: COLORS.speed.primary,
-    marginBottom: 20,
-  },
-  resultScore: {
-    fontFamily: "ComicNeue",
-    fontSize: 32,
-    color: COLORS.text.primary,
-    marginBottom: 10,
-  },
-  highScoreText: {
-    fontFamily: "ComicNeue",
-    fontSize: 24,
-    color: COLORS.text.secondary,
-    marginBottom: 40,
-  },
   startButton: {
     borderRadius: 25,
     overflow: "hidden",
@@ -0,0 +1,19 @@
+import { ComponentType } from "react";
+
+import AbcGame from "./AbcGame";
+import BalloonShapesGame from "./BalloonShapesGame";
+import ColorsGame from "./ColorsGame";
+import FreePop from "./FreePop";
+import MathGame from "./MathGame";
+import SpeedGame from "./SpeedGame";
+import { SessionMode } from "../utils/sessionHistory";
+
+// The screen each game is played on, by mode id
+export const GAME_SCREENS: Record<SessionMode, ComponentType> = {
+  freePop: FreePop,
+  colors: ColorsGame,
+  abc: AbcGame,
+  math: MathGame,
+  speed: SpeedGame,
+  balloon: BalloonShapesGame,
+};
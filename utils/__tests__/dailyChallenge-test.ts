@@ -0,0 +1,116 @@
+import {
+  DailyChallenge,
+  createDailyData,
+  generateChallenge,
+  getCurrentStreak,
+  getPreviousDay,
+  recordChallengeActivity,
+} from "../dailyChallenge";
+
+// Two weeks of day keys, like "2026-03-01"
+const DAYS = Array.from(
+  { length: 14 },
+  (_, i) => `2026-03-${`${i + 1}`.padStart(2, "0")}`,
+);
+
+const speedChallenge = (day: string): DailyChallenge => ({
+  day,
+  kind: "speedStars",
+  mode: "speed",
+  target: 3,
+  subject: null,
+});
+
+const speedGame = (stars: number) =>
+  ({ type: "game", mode: "speed", stars }) as const;
+
+describe("generateChallenge", () => {
+  it("gives the same challenge for the same day", () => {
+    DAYS.forEach((day) => {
+      expect(generateChallenge(day)).toEqual(generateChallenge(day));
+    });
+  });
+
+  it("changes from day to day", () => {
+    const challenges = DAYS.map((day) => {
+      const challenge = generateChallenge(day);
+      return `${challenge?.kind} ${challenge?.target} ${challenge?.subject}`;
+    });
+    expect(new Set(challenges).size).toBeGreaterThan(1);
+  });
+
+  it("only picks games that are switched on", () => {
+    const enabledModes = {
+      colors: false,
+      abc: false,
+      math: false,
+      speed: false,
+    };
+    DAYS.forEach((day) => {
+      expect(generateChallenge(day, enabledModes)?.mode).toBe("balloon");
+    });
+  });
+
+  it("has nothing when every game with a challenge is off", () => {
+    expect(
+      generateChallenge(DAYS[0], {
+        colors: false,
+        abc: false,
+        math: false,
+        speed: false,
+        balloon: false,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("recordChallengeActivity", () => {
+  it("completes the challenge once the target is reached", () => {
+    const challenge = speedChallenge(DAYS[0]);
+    const partway = recordChallengeActivity(
+      createDailyData(),
+      challenge,
+      speedGame(2),
+    );
+    expect(partway).toMatchObject({ progress: 2, completed: false });
+
+    const done = recordChallengeActivity(partway, challenge, speedGame(2));
+    expect(done).toMatchObject({
+      progress: 3,
+      completed: true,
+      streak: 1,
+      lastCompletedDay: DAYS[0],
+    });
+  });
+
+  it("ignores activity that doesn't count", () => {
+    const data = createDailyData();
+    expect(
+      recordChallengeActivity(data, speedChallenge(DAYS[0]), {
+        type: "game",
+        mode: "colors",
+        stars: 3,
+      }),
+    ).toBe(data);
+  });
+
+  it("builds a streak on days in a row and restarts it after a gap", () => {
+    const complete = (data: ReturnType<typeof createDailyData>, day: string) =>
+      recordChallengeActivity(data, speedChallenge(day), speedGame(3));
+
+    const twoDays = complete(complete(createDailyData(), DAYS[0]), DAYS[1]);
+    expect(twoDays).toMatchObject({ streak: 2, bestStreak: 2 });
+    expect(getCurrentStreak(twoDays, DAYS[2])).toBe(2);
+    expect(getCurrentStreak(twoDays, DAYS[3])).toBe(0);
+
+    const afterGap = complete(twoDays, DAYS[4]);
+    expect(afterGap).toMatchObject({ streak: 1, bestStreak: 2 });
+  });
+});
+
+describe("getPreviousDay", () => {
+  it("goes back across months and years", () => {
+    expect(getPreviousDay("2026-03-01")).toBe("2026-02-28");
+    expect(getPreviousDay("2026-01-01")).toBe("2025-12-31");
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  DistractorStrategy,
+  generateAnswerChoices,
+  getMistakeAnswers,
+} from "../mathDistractors";
+import { MathProblem, ProblemType, generateProblem } from "../mathProblems";
+import { createRandom } from "../random";
+
+const PROBLEM_TYPES = Object.values(ProblemType);
+const STRATEGIES: DistractorStrategy[] = ["random", "mistakes"];
+
+const expectValidChoices = (
+  problem: MathProblem,
+  choices: number[],
+  count: number,
+) => {
+  expect(choices).toHaveLength(count);
+  expect(choices.filter((choice) => choice === problem.answer)).toHaveLength(1);
+  expect(new Set(choices).size).toBe(count);
+  choices.forEach((choice) => {
+    expect(Number.isInteger(choice)).toBe(true);
+    expect(choice).toBeGreaterThanOrEqual(0);
+  });
+};
+
+describe("generateAnswerChoices", () => {
+  it.each(STRATEGIES)(
+    "has the answer exactly once among distinct choices (%s)",
+    (strategy) => {
+      const random = createRandom(1);
+      PROBLEM_TYPES.forEach((type) => {
+        for (let i = 0; i < 50; i++) {
+          const problem = generateProblem(type, 10, random);
+          const choices = generateAnswerChoices(problem, {
+            count: 9,
+            strategy,
+            answerMax: 20,
+            random,
+          });
+          expectValidChoices(problem, choices, 9);
+        }
+      });
+    },
+  );
+
+  it("keeps random choices within the answer range", () => {
+    const random = createRandom(2);
+    for (let i = 0; i < 50; i++) {
+      const problem = generateProblem(ProblemType.ADDITION, 5, random);
+      const choices = generateAnswerChoices(problem, {
+        count: 9,
+        strategy: "random",
+        answerMax: 10,
+        random,
+      });
+      choices.forEach((choice) => expect(choice).toBeLessThanOrEqual(10));
+    }
+  });
+
+  it("widens the range when it's too small for the grid", () => {
+    const problem: MathProblem = {
+      type: ProblemType.ADDITION,
+      num1: 1,
+      num2: 1,
+      answer: 2,
+    };
+    const choices = generateAnswerChoices(problem, {
+      count: 9,
+      strategy: "random",
+      answerMax: 3,
+      random: createRandom(3),
+    });
+    expectValidChoices(problem, choices, 9);
+  });
+
+  it("offers the other number in a comparison", () => {
+    const problem: MathProblem = {
+      type: ProblemType.COMPARISON,
+      num1: 7,
+      num2: 4,
+      bigger: true,
+      answer: 7,
+    };
+    STRATEGIES.forEach((strategy) => {
+      const choices = generateAnswerChoices(problem, {
+        count: 4,
+        strategy,
+        answerMax: 10,
+        random: createRandom(4),
+      });
+      expect(choices).toContain(4);
+    });
+  });
+
+  it("gives the same choices for the same seed", () => {
+    const problem = generateProblem(ProblemType.MULTIPLICATION, 10, () => 0.5);
+    const options = { count: 9, strategy: "mistakes" as const, answerMax: 30 };
+    expect(
+      generateAnswerChoices(problem, { ...options, random: createRandom(5) }),
+    ).toEqual(
+      generateAnswerChoices(problem, { ...options, random: createRandom(5) }),
+    );
+  });
+});
+
+describe("getMistakeAnswers", () => {
+  it("uses the common mistakes and never the answer itself", () => {
+    const problem: MathProblem = {
+      type: ProblemType.ADDITION,
+      num1: 7,
+      num2: 5,
+      answer: 12,
+    };
+    const answers = getMistakeAnswers(problem);
+    expect(answers).toEqual(expect.arrayContaining([11, 13, 2, 35, 21, 7, 5]));
+    expect(answers).not.toContain(12);
+  });
+
+  it("leaves out negative numbers", () => {
+    const problem: MathProblem = {
+      type: ProblemType.SUBTRACTION,
+      num1: 1,
+      num2: 1,
+      answer: 0,
+    };
+    getMistakeAnswers(problem).forEach((answer) =>
+      expect(answer).toBeGreaterThanOrEqual(0),
+    );
+  });
+});
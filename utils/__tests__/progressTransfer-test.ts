@@ -0,0 +1,121 @@
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  ImportError,
+  createExport,
+  importProfiles,
+  parseExport,
+  serializeExport,
+} from "../progressTransfer";
+import { SCHEMA_VERSION, createProfile } from "../storage";
+
+// The message an import fails with, or null when it works
+const importErrorKey = (text: string) => {
+  try {
+    parseExport(text);
+  } catch (error) {
+    return error instanceof ImportError ? error.key : error;
+  }
+  return null;
+};
+
+describe("createExport and parseExport", () => {
+  it("reads back the profiles that were exported", () => {
+    const profiles = [
+      createProfile("Ada", "bunny", { totalPops: 120, highScore: 9 }),
+      createProfile("Sam", "lion", { lettersLearned: 4 }),
+    ];
+    const text = serializeExport(createExport(profiles, 1000));
+
+    expect(parseExport(text)).toEqual(profiles);
+  });
+
+  it("records the format and versions", () => {
+    expect(createExport([], 1000)).toEqual({
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: 1000,
+      profiles: [],
+    });
+  });
+
+  it("rejects text that isn't an export", () => {
+    expect(importErrorKey("not json")).toBe("transfer.notExport");
+    expect(importErrorKey("[]")).toBe("transfer.notExport");
+    expect(
+      importErrorKey(JSON.stringify({ format: "something-else", version: 1 })),
+    ).toBe("transfer.notExport");
+  });
+
+  it("rejects exports from a newer version of the app", () => {
+    const profile = createProfile("Ada", "bunny");
+    const newer = (changes: object) =>
+      JSON.stringify({ ...createExport([profile]), ...changes });
+
+    expect(importErrorKey(newer({ version: EXPORT_VERSION + 1 }))).toBe(
+      "transfer.newerVersion",
+    );
+    expect(importErrorKey(newer({ schemaVersion: SCHEMA_VERSION + 1 }))).toBe(
+      "transfer.newerVersion",
+    );
+  });
+
+  it("rejects exports with no players in them", () => {
+    expect(importErrorKey(serializeExport(createExport([])))).toBe(
+      "transfer.noPlayers",
+    );
+    expect(
+      importErrorKey(
+        JSON.stringify({ ...createExport([]), profiles: [{ name: 5 }] }),
+      ),
+    ).toBe("transfer.noPlayers");
+  });
+
+  it("migrates profiles saved by an older schema", () => {
+    const profile = createProfile("Ada", "bunny", { totalPops: 30 });
+    const text = JSON.stringify({
+      ...createExport([profile]),
+      schemaVersion: 1,
+    });
+
+    expect(parseExport(text)).toEqual([profile]);
+  });
+
+  it("repairs bad values the way saved data is repaired", () => {
+    const profile = createProfile("Ada", "bunny", { totalPops: 30 });
+    const text = JSON.stringify({
+      ...createExport([profile]),
+      profiles: [{ ...profile, stats: { ...profile.stats, totalPops: -4 } }],
+    });
+
+    const [imported] = parseExport(text);
+    expect(imported.stats.totalPops).toBe(0);
+    expect(imported.name).toBe("Ada");
+  });
+});
+
+describe("importProfiles", () => {
+  it("adds new players and combines ones with the same name", () => {
+    const ada = createProfile("Ada", "bunny", { totalPops: 10 });
+    const incomingAda = createProfile("ada", "lion", { totalPops: 25 });
+    const sam = createProfile("Sam", "lion");
+
+    const result = importProfiles(
+      [ada],
+      parseExport(serializeExport(createExport([incomingAda, sam]))),
+    );
+
+    expect(result.added).toEqual(["Sam"]);
+    expect(result.merged).toEqual(["Ada"]);
+    expect(result.profiles).toHaveLength(2);
+    expect(result.profiles[0]).toMatchObject({ id: ada.id, name: "Ada" });
+    expect(result.profiles[0].stats.totalPops).toBe(25);
+  });
+
+  it("leaves the existing list as it was", () => {
+    const profiles = [createProfile("Ada", "bunny")];
+    importProfiles(profiles, [createProfile("Sam", "lion")]);
+    expect(profiles).toHaveLength(1);
+  });
+});
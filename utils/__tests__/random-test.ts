@@ -0,0 +1,67 @@
+import { createRandom, hashSeed, pickOne, randomInt, shuffle } from "../random";
+
+const take = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe("createRandom", () => {
+  it("gives the same sequence for the same seed", () => {
+    expect(take(createRandom(42), 20)).toEqual(take(createRandom(42), 20));
+  });
+
+  it("gives a different sequence for a different seed", () => {
+    expect(take(createRandom(1), 5)).not.toEqual(take(createRandom(2), 5));
+  });
+
+  it("stays between 0 and 1, like Math.random", () => {
+    take(createRandom(7), 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe("hashSeed", () => {
+  it("turns the same text into the same seed", () => {
+    expect(hashSeed("2026-10-19")).toBe(hashSeed("2026-10-19"));
+    expect(hashSeed("2026-10-19")).not.toBe(hashSeed("2026-10-20"));
+  });
+});
+
+describe("randomInt", () => {
+  it("covers the whole range, inclusive", () => {
+    const random = createRandom(3);
+    const seen = new Set(take(() => randomInt(1, 4, random), 200));
+    expect([...seen].sort()).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("pickOne", () => {
+  it("picks the same item for the same seed", () => {
+    const items = ["a", "b", "c", "d", "e"];
+    expect(pickOne(items, createRandom(9))).toBe(
+      pickOne(items, createRandom(9)),
+    );
+  });
+});
+
+describe("shuffle", () => {
+  const items = Array.from({ length: 20 }, (_, i) => i);
+
+  it("returns a permutation of the items", () => {
+    const shuffled = shuffle(items, createRandom(5));
+    expect(shuffled).toHaveLength(items.length);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  it("leaves the original as it was", () => {
+    const original = [...items];
+    shuffle(items, createRandom(5));
+    expect(items).toEqual(original);
+  });
+
+  it("shuffles the same way for the same seed", () => {
+    expect(shuffle(items, createRandom(11))).toEqual(
+      shuffle(items, createRandom(11)),
+    );
+  });
+});
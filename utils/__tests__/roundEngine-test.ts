@@ -0,0 +1,162 @@
+import {
+  RoundAction,
+  RoundEngineConfig,
+  RoundState,
+  createRoundState,
+  isTimeUp,
+  roundReducer,
+} from "../roundEngine";
+
+const TIMED: RoundEngineConfig = {
+  roundDurationMs: 10000,
+  hasIntro: true,
+  roundsPerGame: null,
+};
+
+const UNTIMED: RoundEngineConfig = {
+  roundDurationMs: null,
+  hasIntro: false,
+  roundsPerGame: 2,
+};
+
+const run = (
+  config: RoundEngineConfig,
+  actions: RoundAction[],
+  state: RoundState = createRoundState(),
+) =>
+  actions.reduce(
+    (current, action) => roundReducer(current, action, config),
+    state,
+  );
+
+describe("roundReducer", () => {
+  it("starts with the intro when there is one", () => {
+    const state = run(TIMED, [{ type: "start" }]);
+    expect(state).toMatchObject({
+      phase: "intro",
+      round: 1,
+      roundId: 1,
+      timeRemainingMs: 10000,
+    });
+    expect(run(TIMED, [{ type: "start" }, { type: "beginPlay" }]).phase).toBe(
+      "playing",
+    );
+  });
+
+  it("starts playing straight away without an intro", () => {
+    expect(run(UNTIMED, [{ type: "start" }]).phase).toBe("playing");
+  });
+
+  it("counts down only while playing", () => {
+    const intro = run(TIMED, [
+      { type: "start" },
+      { type: "tick", elapsedMs: 500 },
+    ]);
+    expect(intro.timeRemainingMs).toBe(10000);
+
+    const playing = run(
+      TIMED,
+      [{ type: "beginPlay" }, { type: "tick", elapsedMs: 500 }],
+      intro,
+    );
+    expect(playing.timeRemainingMs).toBe(9500);
+  });
+
+  it("goes to the results when time runs out", () => {
+    const state = run(TIMED, [
+      { type: "start" },
+      { type: "beginPlay" },
+      { type: "tick", elapsedMs: 12000 },
+    ]);
+    expect(state).toMatchObject({ phase: "results", timeRemainingMs: 0 });
+    expect(isTimeUp(state)).toBe(true);
+  });
+
+  it("resumes a pause where it left off", () => {
+    const playing = run(TIMED, [{ type: "start" }, { type: "beginPlay" }]);
+    const paused = run(
+      TIMED,
+      [{ type: "pause" }, { type: "tick", elapsedMs: 5000 }],
+      playing,
+    );
+    expect(paused).toMatchObject({
+      phase: "paused",
+      resumePhase: "playing",
+      timeRemainingMs: 10000,
+    });
+
+    const resumed = run(TIMED, [{ type: "resume" }], paused);
+    expect(resumed).toMatchObject({ phase: "playing", resumePhase: null });
+  });
+
+  it("can't pause before starting or after the results", () => {
+    const idle = createRoundState();
+    expect(run(TIMED, [{ type: "pause" }], idle)).toBe(idle);
+
+    const results = run(TIMED, [{ type: "start" }, { type: "finish" }]);
+    expect(run(TIMED, [{ type: "pause" }], results)).toBe(results);
+  });
+
+  it("finishes the game after the last round", () => {
+    const second = run(UNTIMED, [
+      { type: "start" },
+      { type: "completeRound" },
+      { type: "nextRound" },
+    ]);
+    expect(second).toMatchObject({ phase: "playing", round: 2, roundId: 2 });
+
+    const finished = run(
+      UNTIMED,
+      [{ type: "completeRound" }, { type: "nextRound" }],
+      second,
+    );
+    expect(finished.phase).toBe("results");
+    expect(isTimeUp(finished)).toBe(false);
+  });
+
+  it("keeps going when there's no set number of rounds", () => {
+    const config = { ...UNTIMED, roundsPerGame: null };
+    const state = run(config, [
+      { type: "start" },
+      { type: "nextRound" },
+      { type: "nextRound" },
+      { type: "nextRound" },
+    ]);
+    expect(state).toMatchObject({ phase: "playing", round: 4 });
+  });
+
+  it("ignores finishing before a game has started", () => {
+    const idle = createRoundState();
+    expect(run(TIMED, [{ type: "finish" }], idle)).toBe(idle);
+  });
+
+  it("finishes from a pause without anything to resume", () => {
+    const state = run(TIMED, [
+      { type: "start" },
+      { type: "pause" },
+      { type: "finish" },
+    ]);
+    expect(state).toMatchObject({ phase: "results", resumePhase: null });
+  });
+
+  it("starts a new round when restarting, even while paused", () => {
+    const paused = run(TIMED, [
+      { type: "start" },
+      { type: "beginPlay" },
+      { type: "pause" },
+    ]);
+    const restarted = run(TIMED, [{ type: "start" }], paused);
+    expect(restarted).toMatchObject({
+      phase: "intro",
+      round: 1,
+      roundId: 2,
+      resumePhase: null,
+    });
+  });
+
+  it("keeps the round id going up after a reset", () => {
+    const played = run(UNTIMED, [{ type: "start" }, { type: "nextRound" }]);
+    const reset = run(UNTIMED, [{ type: "reset" }], played);
+    expect(reset).toEqual({ ...createRoundState(), roundId: played.roundId });
+  });
+});
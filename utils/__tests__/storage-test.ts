@@ -0,0 +1,178 @@
+import {
+  CORRUPT_BACKUP_KEY,
+  SCHEMA_VERSION,
+  STORAGE_KEY,
+  StorageAdapter,
+  createDefaultData,
+  createProfile,
+  createStore,
+} from "../storage";
+
+// Keys earlier versions of the app saved under
+const V0_STATS_KEY = "gameStats";
+const V1_PROFILES_KEY = "profiles";
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  const storage: StorageAdapter = {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+  return { items, storage };
+};
+
+const readSaved = (items: Map<string, string>) =>
+  JSON.parse(items.get(STORAGE_KEY) ?? "null");
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe("createStore load", () => {
+  it("starts with one player when nothing is saved", async () => {
+    const { storage } = createMemoryStorage();
+    const data = await createStore({ storage }).load();
+
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.profiles).toHaveLength(1);
+    expect(data.activeProfileId).toBe(data.profiles[0].id);
+  });
+
+  it("reads back what was saved", async () => {
+    const saved = createDefaultData();
+    const { storage } = createMemoryStorage({
+      [STORAGE_KEY]: JSON.stringify(saved),
+    });
+
+    expect(await createStore({ storage }).load()).toEqual(saved);
+  });
+
+  it("moves a single player's stats from the first version", async () => {
+    const { items, storage } = createMemoryStorage({
+      [V0_STATS_KEY]: JSON.stringify({ totalPops: 42, audioSetting: "mute" }),
+    });
+    const data = await createStore({ storage }).load();
+
+    expect(data.profiles).toHaveLength(1);
+    expect(data.profiles[0].stats.totalPops).toBe(42);
+    expect(data.profiles[0].settings.audioSetting).toBe("mute");
+    expect(readSaved(items)).toEqual(data);
+    expect(items.has(V0_STATS_KEY)).toBe(false);
+  });
+
+  it("moves unversioned profiles to the current key", async () => {
+    const profile = createProfile("Ada", "lion", { highScore: 7 });
+    const { items, storage } = createMemoryStorage({
+      [V1_PROFILES_KEY]: JSON.stringify({
+        activeProfileId: profile.id,
+        profiles: [profile],
+      }),
+    });
+    const data = await createStore({ storage }).load();
+
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.activeProfileId).toBe(profile.id);
+    expect(data.profiles).toEqual([profile]);
+    expect(items.has(V1_PROFILES_KEY)).toBe(false);
+  });
+
+  it("keeps corrupt data aside and starts fresh", async () => {
+    const { items, storage } = createMemoryStorage({
+      [STORAGE_KEY]: "{not json",
+    });
+    const data = await createStore({ storage }).load();
+
+    expect(items.get(CORRUPT_BACKUP_KEY)).toBe("{not json");
+    expect(readSaved(items)).toEqual(data);
+    expect(data.profiles).toHaveLength(1);
+  });
+
+  it("clears an old key that is corrupt, so it isn't read again", async () => {
+    const { items, storage } = createMemoryStorage({
+      [V1_PROFILES_KEY]: "{not json",
+    });
+    const store = createStore({ storage });
+    const data = await store.load();
+
+    expect(items.get(CORRUPT_BACKUP_KEY)).toBe("{not json");
+    expect(items.has(V1_PROFILES_KEY)).toBe(false);
+    expect(await store.load()).toEqual(data);
+  });
+
+  it("keeps data with no usable players aside before starting fresh", async () => {
+    const text = JSON.stringify({ version: SCHEMA_VERSION, profiles: [{}] });
+    const { items, storage } = createMemoryStorage({ [STORAGE_KEY]: text });
+    const data = await createStore({ storage }).load();
+
+    expect(items.get(CORRUPT_BACKUP_KEY)).toBe(text);
+    expect(readSaved(items)).toEqual(data);
+  });
+
+  it("fails without writing anything when storage can't be read", async () => {
+    const { storage } = createMemoryStorage();
+    storage.getItem = async () => {
+      throw new Error("Row too big to fit into CursorWindow");
+    };
+
+    await expect(createStore({ storage }).load()).rejects.toThrow(
+      "CursorWindow",
+    );
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it("repairs bad values instead of throwing them away", async () => {
+    const saved = createDefaultData();
+    saved.profiles[0].stats.totalPops = -3;
+    const { storage } = createMemoryStorage({
+      [STORAGE_KEY]: JSON.stringify({ ...saved, activeProfileId: "missing" }),
+    });
+    const data = await createStore({ storage }).load();
+
+    expect(data.profiles[0].stats.totalPops).toBe(0);
+    expect(data.activeProfileId).toBe(data.profiles[0].id);
+  });
+});
+
+describe("createStore save", () => {
+  it("writes only the latest change once things settle", async () => {
+    jest.useFakeTimers();
+    const { items, storage } = createMemoryStorage();
+    const store = createStore({ storage, debounceMs: 500 });
+    const first = createDefaultData();
+    const second = createDefaultData();
+
+    store.save(first);
+    jest.advanceTimersByTime(300);
+    store.save(second);
+    jest.advanceTimersByTime(300);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(200);
+    await Promise.resolve();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(readSaved(items)).toEqual(second);
+  });
+
+  it("writes straight away when flushed", async () => {
+    const { items, storage } = createMemoryStorage();
+    const store = createStore({ storage });
+    const data = createDefaultData();
+
+    store.save(data);
+    await store.flush();
+
+    expect(readSaved(items)).toEqual(data);
+    await store.flush();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,232 @@
+// Milestones a child reaches by playing: totals passing a threshold, runs of
+// right answers and whole sets of items learned. Each achievement is data;
+// checking a player's progress against them finds the ones newly reached.
+
+import { LEARNING_COLORS } from "./colors";
+import { GAME_MODES, isModeEnabled } from "./gameModes";
+import { MessageKey } from "./i18n";
+import { ALPHABET, NUMBERS } from "./letters";
+import { MasteryDomain, isMastered } from "./mastery";
+import { SessionLog } from "./sessionEvents";
+import { Profile, ProfileStats } from "./storage";
+
+export type AchievementRule =
+  // A progress total reaches a number
+  | { type: "stat"; stat: keyof ProfileStats; atLeast: number }
+  // Right answers in a row within one session
+  | { type: "streak"; length: number }
+  // Every item in a set is learned
+  | { type: "mastered"; domain: MasteryDomain; items: string[] }
+  // Every game switched on for the player has been played
+  | { type: "allModesPlayed" };
+
+export type Achievement = {
+  id: string;
+  title: MessageKey;
+  description: MessageKey;
+  emoji: string;
+  rule: AchievementRule;
+};
+
+// When each achievement was reached, by id
+export type AchievementData = Record<string, number>;
+
+// What achievements are checked against
+export type AchievementProgress = Pick<
+  Profile,
+  "stats" | "mastery" | "eventLogs" | "sessions" | "settings"
+>;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "firstPop",
+    title: "achievements.firstPop.title",
+    description: "achievements.firstPop.description",
+    emoji: "🎉",
+    rule: { type: "stat", stat: "totalPops", atLeast: 1 },
+  },
+  {
+    id: "hundredPops",
+    title: "achievements.hundredPops.title",
+    description: "achievements.hundredPops.description",
+    emoji: "💯",
+    rule: { type: "stat", stat: "totalPops", atLeast: 100 },
+  },
+  {
+    id: "thousandPops",
+    title: "achievements.thousandPops.title",
+    description: "achievements.thousandPops.description",
+    emoji: "🌠",
+    rule: { type: "stat", stat: "totalPops", atLeast: 1000 },
+  },
+  {
+    id: "colorExplorer",
+    title: "achievements.colorExplorer.title",
+    description: "achievements.colorExplorer.description",
+    emoji: "🎨",
+    rule: { type: "stat", stat: "colorsLearned", atLeast: 10 },
+  },
+  {
+    id: "shapeSpotter",
+    title: "achievements.shapeSpotter.title",
+    description: "achievements.shapeSpotter.description",
+    emoji: "🔺",
+    rule: { type: "stat", stat: "shapesCompleted", atLeast: 25 },
+  },
+  {
+    id: "letterHunter",
+    title: "achievements.letterHunter.title",
+    description: "achievements.letterHunter.description",
+    emoji: "🔠",
+    rule: { type: "stat", stat: "lettersLearned", atLeast: 26 },
+  },
+  {
+    id: "numberCruncher",
+    title: "achievements.numberCruncher.title",
+    description: "achievements.numberCruncher.description",
+    emoji: "➕",
+    rule: { type: "stat", stat: "mathProblemsCompleted", atLeast: 25 },
+  },
+  {
+    id: "lightningFingers",
+    title: "achievements.lightningFingers.title",
+    description: "achievements.lightningFingers.description",
+    emoji: "⚡",
+    rule: { type: "stat", stat: "highScore", atLeast: 40 },
+  },
+  {
+    id: "starCollector",
+    title: "achievements.starCollector.title",
+    description: "achievements.starCollector.description",
+    emoji: "⭐",
+    rule: { type: "stat", stat: "starsEarned", atLeast: 25 },
+  },
+  {
+    id: "onARoll",
+    title: "achievements.onARoll.title",
+    description: "achievements.onARoll.description",
+    emoji: "🔥",
+    rule: { type: "streak", length: 5 },
+  },
+  {
+    id: "unstoppable",
+    title: "achievements.unstoppable.title",
+    description: "achievements.unstoppable.description",
+    emoji: "🚀",
+    rule: { type: "streak", length: 15 },
+  },
+  {
+    id: "alphabetMaster",
+    title: "achievements.alphabetMaster.title",
+    description: "achievements.alphabetMaster.description",
+    emoji: "🏅",
+    rule: { type: "mastered", domain: "letter", items: ALPHABET },
+  },
+  {
+    id: "numberMaster",
+    title: "achievements.numberMaster.title",
+    description: "achievements.numberMaster.description",
+    emoji: "🔢",
+    rule: { type: "mastered", domain: "number", items: NUMBERS },
+  },
+  {
+    id: "rainbowMaster",
+    title: "achievements.rainbowMaster.title",
+    description: "achievements.rainbowMaster.description",
+    emoji: "🌈",
+    rule: {
+      type: "mastered",
+      domain: "color",
+      items: LEARNING_COLORS.map((color) => color.name),
+    },
+  },
+  {
+    id: "explorer",
+    title: "achievements.explorer.title",
+    description: "achievements.explorer.description",
+    emoji: "🧭",
+    rule: { type: "allModesPlayed" },
+  },
+];
+
+export const getAchievement = (id: string) =>
+  ACHIEVEMENTS.find((achievement) => achievement.id === id);
+
+// The most right answers in a row in any one session. Pops with no right
+// answer don't break a run.
+export const getLongestStreak = (logs: SessionLog[]) => {
+  let longest = 0;
+  logs.forEach(({ events }) => {
+    let current = 0;
+    events.forEach((event) => {
+      if (event.type !== "pop" || event.correct === null) return;
+      current = event.correct ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    });
+  });
+  return longest;
+};
+
+const isReached = (
+  rule: AchievementRule,
+  progress: AchievementProgress,
+  // Worked out at most once per check, since it reads every event
+  getStreak: () => number,
+) => {
+  switch (rule.type) {
+    case "stat":
+      return progress.stats[rule.stat] >= rule.atLeast;
+    case "streak":
+      return getStreak() >= rule.length;
+    case "mastered":
+      return rule.items.every((item) =>
+        isMastered(progress.mastery, rule.domain, item),
+      );
+    case "allModesPlayed": {
+      const played = new Set(progress.sessions.map((session) => session.mode));
+      return GAME_MODES.filter((mode) =>
+        isModeEnabled(mode, progress.settings.enabledModes),
+      ).every((mode) => played.has(mode.id));
+    }
+  }
+};
+
+// Achievements reached that haven't been unlocked yet, in list order
+export const checkAchievements = (
+  unlocked: AchievementData,
+  progress: AchievementProgress,
+): Achievement[] => {
+  let streak: number | null = null;
+  const getStreak = () => {
+    if (streak === null) streak = getLongestStreak(progress.eventLogs);
+    return streak;
+  };
+
+  return ACHIEVEMENTS.filter(
+    ({ id, rule }) => !(id in unlocked) && isReached(rule, progress, getStreak),
+  );
+};
+
+export const unlockAchievements = (
+  unlocked: AchievementData,
+  achievements: Achievement[],
+  now = Date.now(),
+): AchievementData => {
+  const updated = { ...unlocked };
+  achievements.forEach(({ id }) => {
+    if (!(id in updated)) updated[id] = now;
+  });
+  return updated;
+};
+
+// Both players' achievements are kept, with the earlier date for each
+export const mergeAchievements = (
+  a: AchievementData,
+  b: AchievementData,
+): AchievementData => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([id, time]) => {
+    merged[id] = id in merged ? Math.min(merged[id], time) : time;
+  });
+  return merged;
+};
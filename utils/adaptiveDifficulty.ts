@@ -0,0 +1,201 @@
+// Adaptive difficulty shared by the learning games. Each mode reports how a
+// round went and the engine steps its level up or down, unless a parent has
+// locked the level.
+
+import { DistractorStrategy } from "./mathDistractors";
+import { ProblemType } from "./mathProblems";
+
+export type AdaptiveMode = "abc" | "colors" | "math" | "balloon";
+
+export const ADAPTIVE_MODES: AdaptiveMode[] = [
+  "abc",
+  "colors",
+  "math",
+  "balloon",
+];
+
+export type RoundResult = {
+  // Share of pops that were correct, from 0 to 1
+  accuracy: number;
+  averageResponseMs: number;
+};
+
+export type DifficultyState = {
+  level: number;
+  // Parents can pin a level so it never changes on its own
+  locked: boolean;
+  recentRounds: RoundResult[];
+};
+
+export type DifficultyData = Record<AdaptiveMode, DifficultyState>;
+
+export const MIN_LEVEL = 1;
+export const MAX_LEVEL = 5;
+
+// Rounds looked at before deciding to change level
+const ROUND_WINDOW = 3;
+const STEP_UP_ACCURACY = 0.85;
+const STEP_UP_RESPONSE_MS = 4000;
+const STEP_DOWN_ACCURACY = 0.6;
+
+type ModeParams = {
+  abc: { gridSize: number; targetCount: number };
+  colors: { gridSize: number; targetCount: number; distractorColors: number };
+  math: {
+    operandMax: number;
+    answerMax: number;
+    problemTypes: ProblemType[];
+    distractorStrategy: DistractorStrategy;
+  };
+  balloon: { balloonCount: number; speedMultiplier: number };
+};
+
+export type DifficultyParams<M extends AdaptiveMode> = ModeParams[M];
+
+// Parameters for each level, easiest first
+const LEVEL_PARAMS: { [M in AdaptiveMode]: ModeParams[M][] } = {
+  abc: [
+    { gridSize: 3, targetCount: 4 },
+    { gridSize: 3, targetCount: 3 },
+    { gridSize: 4, targetCount: 6 },
+    { gridSize: 4, targetCount: 5 },
+    { gridSize: 4, targetCount: 3 },
+  ],
+  colors: [
+    { gridSize: 3, targetCount: 5, distractorColors: 2 },
+    { gridSize: 3, targetCount: 4, distractorColors: 3 },
+    { gridSize: 4, targetCount: 8, distractorColors: 4 },
+    { gridSize: 4, targetCount: 6, distractorColors: 6 },
+    { gridSize: 4, targetCount: 5, distractorColors: 8 },
+  ],
+  math: [
+    {
+      operandMax: 3,
+      answerMax: 6,
+      distractorStrategy: "random",
+      problemTypes: [ProblemType.ADDITION, ProblemType.COMPARISON],
+    },
+    {
+      operandMax: 5,
+      answerMax: 10,
+      distractorStrategy: "mistakes",
+      problemTypes: [
+        ProblemType.ADDITION,
+        ProblemType.SUBTRACTION,
+        ProblemType.COMPARISON,
+      ],
+    },
+    {
+      operandMax: 7,
+      answerMax: 14,
+      distractorStrategy: "mistakes",
+      problemTypes: [
+        ProblemType.ADDITION,
+        ProblemType.SUBTRACTION,
+        ProblemType.MISSING_OPERAND,
+        ProblemType.COMPARISON,
+      ],
+    },
+    {
+      operandMax: 10,
+      answerMax: 20,
+      distractorStrategy: "mistakes",
+      problemTypes: [
+        ProblemType.ADDITION,
+        ProblemType.SUBTRACTION,
+        ProblemType.MISSING_OPERAND,
+        ProblemType.MULTIPLICATION,
+      ],
+    },
+    {
+      operandMax: 12,
+      answerMax: 24,
+      distractorStrategy: "mistakes",
+      problemTypes: [
+        ProblemType.ADDITION,
+        ProblemType.SUBTRACTION,
+        ProblemType.MISSING_OPERAND,
+        ProblemType.MULTIPLICATION,
+        ProblemType.DIVISION,
+      ],
+    },
+  ],
+  balloon: [
+    { balloonCount: 4, speedMultiplier: 0.8 },
+    { balloonCount: 6, speedMultiplier: 1 },
+    { balloonCount: 8, speedMultiplier: 1.25 },
+    { balloonCount: 10, speedMultiplier: 1.5 },
+    { balloonCount: 14, speedMultiplier: 2 },
+  ],
+};
+
+export const clampLevel = (level: number) =>
+  Math.min(MAX_LEVEL, Math.max(MIN_LEVEL, Math.round(level)));
+
+export const getDifficultyParams = <M extends AdaptiveMode>(
+  mode: M,
+  level: number,
+): DifficultyParams<M> => LEVEL_PARAMS[mode][clampLevel(level) - MIN_LEVEL];
+
+export const createDifficultyState = (): DifficultyState => ({
+  level: MIN_LEVEL,
+  locked: false,
+  recentRounds: [],
+});
+
+export const createEmptyDifficulty = (): DifficultyData => ({
+  abc: createDifficultyState(),
+  colors: createDifficultyState(),
+  math: createDifficultyState(),
+  balloon: createDifficultyState(),
+});
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Adds a finished round and moves the level once enough rounds agree. The
+ * window is cleared after every change so one level is judged on its own.
+ */
+export const recordRound = (
+  state: DifficultyState,
+  result: RoundResult,
+): DifficultyState => {
+  if (state.locked) return state;
+
+  const recentRounds = [...state.recentRounds, result].slice(-ROUND_WINDOW);
+  if (recentRounds.length < ROUND_WINDOW) {
+    return { ...state, recentRounds };
+  }
+
+  const accuracy = average(recentRounds.map((round) => round.accuracy));
+  const responseMs = average(
+    recentRounds.map((round) => round.averageResponseMs),
+  );
+
+  let level = state.level;
+  if (accuracy >= STEP_UP_ACCURACY && responseMs <= STEP_UP_RESPONSE_MS) {
+    level = clampLevel(state.level + 1);
+  } else if (accuracy < STEP_DOWN_ACCURACY) {
+    level = clampLevel(state.level - 1);
+  }
+
+  return level === state.level
+    ? { ...state, recentRounds }
+    : { ...state, level, recentRounds: [] };
+};
+
+// Pins the level, or hands it back to the engine when level is null
+export const lockLevel = (
+  state: DifficultyState,
+  level: number | null,
+): DifficultyState =>
+  level === null
+    ? { ...state, locked: false, recentRounds: [] }
+    : { level: clampLevel(level), locked: true, recentRounds: [] };
+
+// Moves up a level straight away, when a child asks for something harder
+export const stepUp = (state: DifficultyState): DifficultyState =>
+  state.locked || state.level >= MAX_LEVEL
+    ? state
+    : { ...state, level: state.level + 1, recentRounds: [] };
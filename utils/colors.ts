@@ -49,36 +49,31 @@ export const COLORS = {
   },
 };
 
-// Shape themes with color gradients
+// Shape themes with color gradients. Their names are in the translation
+// catalogs, by key.
 export const SHAPE_THEMES = {
   circle: {
     colors: COLORS.bubbles.pink,
-    name: "Circle",
     icon: "⭕",
   },
   square: {
     colors: COLORS.bubbles.purple,
-    name: "Square",
     icon: "🔲",
   },
   hexagon: {
     colors: COLORS.bubbles.teal,
-    name: "Hexagon",
     icon: "⬢",
   },
   heart: {
     colors: COLORS.bubbles.red,
-    name: "Heart",
     icon: "❤️",
   },
   star: {
     colors: COLORS.bubbles.yellow,
-    name: "Star",
     icon: "⭐",
   },
   animal: {
     colors: COLORS.bubbles.green,
-    name: "Animal",
     icon: "🐶",
   },
 };
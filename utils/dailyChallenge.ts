@@ -0,0 +1,234 @@
+// One small goal a day, like "Pop 15 Green bubbles". The day picks the
+// challenge, so everyone playing on the same date gets the same one, and
+// finishing challenges on days in a row builds a streak.
+
+import { LEARNING_COLORS } from "./colors";
+import { Locale, translate, translateColor, translateShape } from "./i18n";
+import { MasteryDomain } from "./mastery";
+import { Random, createRandom, hashSeed, pickOne } from "./random";
+import { getDayKey } from "./screenTime";
+import { SessionMode } from "./sessionHistory";
+
+export type ChallengeKind =
+  | "colorPops"
+  | "letters"
+  | "addingSums"
+  | "mathSums"
+  | "shapePops"
+  | "speedStars";
+
+export type DailyChallenge = {
+  // The day it's for, like "2024-05-01"
+  day: string;
+  kind: ChallengeKind;
+  mode: SessionMode;
+  target: number;
+  // What to find, like a color or shape name, for challenges that need one
+  subject: string | null;
+};
+
+// Something the child did that might count towards the challenge
+export type ChallengeActivity =
+  | { type: "answer"; domain: MasteryDomain; item: string; correct: boolean }
+  | { type: "game"; mode: SessionMode; stars: number };
+
+export type DailyData = {
+  // The day progress was last made
+  day: string;
+  progress: number;
+  completed: boolean;
+  // Challenges finished on days in a row, ending on lastCompletedDay
+  streak: number;
+  bestStreak: number;
+  lastCompletedDay: string | null;
+};
+
+type ChallengeTemplate = {
+  kind: ChallengeKind;
+  mode: SessionMode;
+  targets: number[];
+  subjects?: string[];
+  // A subject's name in the player's language
+  nameSubject?: (locale: Locale, subject: string) => string;
+  // How much an activity moves the challenge on
+  count: (activity: ChallengeActivity, subject: string | null) => number;
+};
+
+// Extra stars for finishing the day's challenge
+export const CHALLENGE_BONUS_STARS = 5;
+
+// The shapes Balloon Shapes asks for
+const CHALLENGE_SHAPES = ["circle", "square", "triangle", "star"];
+
+const countAnswers =
+  (domain: MasteryDomain, matches: (item: string) => boolean = () => true) =>
+  (activity: ChallengeActivity) =>
+    activity.type === "answer" &&
+    activity.correct &&
+    activity.domain === domain &&
+    matches(activity.item)
+      ? 1
+      : 0;
+
+// Only games that are on unless a grown-up turns them off. Free Pop has no
+// right answers to count, so it never has a challenge.
+const TEMPLATES: ChallengeTemplate[] = [
+  {
+    kind: "colorPops",
+    mode: "colors",
+    targets: [10, 15, 20],
+    subjects: LEARNING_COLORS.map((color) => color.name),
+    nameSubject: translateColor,
+    count: (activity, color) =>
+      countAnswers("color", (item) => item === color)(activity),
+  },
+  {
+    kind: "letters",
+    mode: "abc",
+    targets: [10, 15, 20],
+    count: countAnswers("letter"),
+  },
+  {
+    kind: "addingSums",
+    mode: "math",
+    targets: [5, 8, 10],
+    count: countAnswers("mathFact", (item) => item.includes("+")),
+  },
+  {
+    kind: "mathSums",
+    mode: "math",
+    targets: [8, 10, 15],
+    count: countAnswers("mathFact"),
+  },
+  {
+    kind: "shapePops",
+    mode: "balloon",
+    targets: [5, 8, 10],
+    subjects: CHALLENGE_SHAPES,
+    nameSubject: translateShape,
+    count: (activity, shape) =>
+      countAnswers("shape", (item) => item === shape)(activity),
+  },
+  {
+    kind: "speedStars",
+    mode: "speed",
+    targets: [3, 5],
+    count: (activity) =>
+      activity.type === "game" && activity.mode === "speed"
+        ? activity.stars
+        : 0,
+  },
+];
+
+const getTemplate = (kind: ChallengeKind) =>
+  TEMPLATES.find((template) => template.kind === kind);
+
+const fromTemplate = (
+  template: ChallengeTemplate,
+  day: string,
+  random: Random,
+): DailyChallenge => {
+  const target = pickOne(template.targets, random);
+  const subject = template.subjects ? pickOne(template.subjects, random) : null;
+  return {
+    day,
+    kind: template.kind,
+    mode: template.mode,
+    target,
+    subject,
+  };
+};
+
+/**
+ * The challenge for a day, from the games that are switched on. The same day
+ * and games always give the same challenge. Returns null when none of the
+ * games have challenges.
+ */
+export const generateChallenge = (
+  day: string,
+  enabledModes: Partial<Record<SessionMode, boolean>> = {},
+): DailyChallenge | null => {
+  const templates = TEMPLATES.filter(
+    (template) => enabledModes[template.mode] !== false,
+  );
+  if (templates.length === 0) return null;
+
+  const random = createRandom(hashSeed(day));
+  return fromTemplate(pickOne(templates, random), day, random);
+};
+
+// The challenge in words, like "Pop 15 Green bubbles in Colors"
+export const describeChallenge = (
+  challenge: DailyChallenge,
+  locale: Locale,
+) => {
+  const { nameSubject } = getTemplate(challenge.kind) ?? {};
+  const { subject } = challenge;
+  return translate(locale, `challenge.${challenge.kind}`, {
+    count: challenge.target,
+    subject: subject && nameSubject ? nameSubject(locale, subject) : "",
+  });
+};
+
+export const createDailyData = (): DailyData => ({
+  day: "",
+  progress: 0,
+  completed: false,
+  streak: 0,
+  bestStreak: 0,
+  lastCompletedDay: null,
+});
+
+// The day key before the given one, like "2024-04-30" for "2024-05-01"
+export const getPreviousDay = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return getDayKey(new Date(year, month - 1, date - 1).getTime());
+};
+
+// Progress starts again each day; the streak carries over
+export const forDay = (data: DailyData, day: string): DailyData =>
+  data.day === day ? data : { ...data, day, progress: 0, completed: false };
+
+export const recordChallengeActivity = (
+  data: DailyData,
+  challenge: DailyChallenge,
+  activity: ChallengeActivity,
+): DailyData => {
+  const amount =
+    getTemplate(challenge.kind)?.count(activity, challenge.subject) ?? 0;
+  const today = forDay(data, challenge.day);
+  if (amount <= 0 || today.completed) return data;
+
+  const progress = Math.min(challenge.target, today.progress + amount);
+  if (progress < challenge.target) return { ...today, progress };
+
+  const streak =
+    today.lastCompletedDay === getPreviousDay(challenge.day)
+      ? today.streak + 1
+      : 1;
+  return {
+    ...today,
+    progress,
+    completed: true,
+    streak,
+    bestStreak: Math.max(today.bestStreak, streak),
+    lastCompletedDay: challenge.day,
+  };
+};
+
+// Days in a row so far. A streak survives until a whole day is missed, so it
+// still counts today before today's challenge is done.
+export const getCurrentStreak = (data: DailyData, day: string) =>
+  data.lastCompletedDay === day || data.lastCompletedDay === getPreviousDay(day)
+    ? data.streak
+    : 0;
+
+// The more recent day's progress is kept, with the longer best streak
+export const mergeDailyData = (a: DailyData, b: DailyData): DailyData => {
+  const latest =
+    (b.lastCompletedDay ?? "") > (a.lastCompletedDay ?? "") ||
+    (b.lastCompletedDay === a.lastCompletedDay && b.day > a.day)
+      ? b
+      : a;
+  return { ...latest, bestStreak: Math.max(a.bestStreak, b.bestStreak) };
+};
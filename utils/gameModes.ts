@@ -0,0 +1,158 @@
+// Every game the app offers. The menu, the router, the dashboard and the
+// parents' settings are all built from this list, so adding a game means
+// adding an entry here and its screen to screens/index.ts.
+
+import {
+  Brain,
+  Calculator,
+  LucideIcon,
+  Palette,
+  PopcornIcon,
+  WholeWord,
+  Zap,
+} from "lucide-react-native";
+
+import { MessageKey, Translate } from "./i18n";
+import { SessionMode } from "./sessionHistory";
+import { Profile, ProfileSettings } from "./storage";
+import { AnimalType } from "../components/FloatingAnimal";
+
+// A progress total shown on the dashboard
+export type ModeStat = {
+  label: MessageKey;
+  select: (profile: Profile) => number;
+};
+
+export type GameMode = {
+  id: SessionMode;
+  // The path the game is played at, like "colors" for /colors
+  route: string;
+  title: MessageKey;
+  icon: LucideIcon;
+  color: string;
+  animal: AnimalType;
+  // Youngest and oldest ages the game is meant for
+  ages: [number, number];
+  // Whether the game is on before a grown-up changes it
+  enabledByDefault: boolean;
+  stats: ModeStat[];
+};
+
+export type EnabledModes = ProfileSettings["enabledModes"];
+
+// In menu order
+export const GAME_MODES: GameMode[] = [
+  {
+    id: "freePop",
+    route: "free-pop",
+    title: "mode.freePop",
+    icon: Brain,
+    color: "#FF6B95",
+    animal: "bunny",
+    ages: [1, 4],
+    enabledByDefault: false,
+    stats: [],
+  },
+  {
+    id: "colors",
+    route: "colors",
+    title: "mode.colors",
+    icon: Palette,
+    color: "#4BD5B3",
+    animal: "elephant",
+    ages: [2, 5],
+    enabledByDefault: true,
+    stats: [
+      {
+        label: "dashboard.stat.colors",
+        select: (profile) => profile.stats.colorsLearned,
+      },
+    ],
+  },
+  {
+    id: "abc",
+    route: "abc",
+    title: "mode.abc",
+    icon: WholeWord,
+    color: "#5B9AE6",
+    animal: "giraffe",
+    ages: [3, 7],
+    enabledByDefault: true,
+    stats: [
+      {
+        label: "dashboard.stat.lettersAndNumbers",
+        select: (profile) => profile.stats.lettersLearned,
+      },
+      {
+        label: "dashboard.stat.wordsSpelled",
+        select: (profile) =>
+          Object.values(profile.spelling).reduce(
+            (sum, word) => sum + word.count,
+            0,
+          ),
+      },
+    ],
+  },
+  {
+    id: "math",
+    route: "math",
+    title: "mode.math",
+    icon: Calculator,
+    color: "#9D7FE6",
+    animal: "cat",
+    ages: [4, 8],
+    enabledByDefault: true,
+    stats: [
+      {
+        label: "dashboard.stat.mathProblems",
+        select: (profile) => profile.stats.mathProblemsCompleted,
+      },
+    ],
+  },
+  {
+    id: "speed",
+    route: "speed",
+    title: "mode.speed",
+    icon: Zap,
+    color: "#FF9858",
+    animal: "lion",
+    ages: [3, 8],
+    enabledByDefault: true,
+    stats: [
+      {
+        label: "dashboard.stat.speedHighScore",
+        select: (profile) => profile.stats.highScore,
+      },
+    ],
+  },
+  {
+    id: "balloon",
+    route: "balloon",
+    title: "mode.balloon",
+    icon: PopcornIcon,
+    color: "#FF6B95",
+    animal: "bunny",
+    ages: [3, 6],
+    enabledByDefault: true,
+    stats: [
+      {
+        label: "dashboard.stat.shapes",
+        select: (profile) => profile.stats.shapesCompleted,
+      },
+    ],
+  },
+];
+
+export const getMode = (id: SessionMode) =>
+  GAME_MODES.find((mode) => mode.id === id);
+
+export const getModeByRoute = (route: string | undefined) =>
+  GAME_MODES.find((mode) => mode.route === route);
+
+export const isModeEnabled = (mode: GameMode, enabledModes: EnabledModes) =>
+  enabledModes[mode.id] ?? mode.enabledByDefault;
+
+export const formatAges = (
+  [youngest, oldest]: [number, number],
+  t: Translate,
+) => t("dashboard.ages", { youngest, oldest });
@@ -0,0 +1,115 @@
+// Everything the child reads or hears, in their language. Each language has
+// a catalog of messages by key; a message can have a singular and a plural
+// form, picked by the `count` it's given, and {placeholders} for values.
+
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+
+export type Locale = "en" | "es" | "fr";
+
+export const LOCALES: Locale[] = ["en", "es", "fr"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language's name in that language, for the picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+};
+
+// The language text-to-speech reads each one in
+export const SPEECH_LANGUAGES: Record<Locale, string> = {
+  en: "en-GB",
+  es: "es-ES",
+  fr: "fr-FR",
+};
+
+export type PluralCategory = "one" | "other";
+
+// A message that changes with a count, like "1 star" and "3 stars"
+export type PluralMessage = Record<PluralCategory, string>;
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en.messages;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Catalog = {
+  messages: Record<MessageKey, Message>;
+  // Learning color names, by their English name in LEARNING_COLORS
+  colors: Record<string, string>;
+  // Shape names, by shape id
+  shapes: Record<string, string>;
+  // How each letter is said in this language's alphabet, by capital letter.
+  // Letters missing here are read as they are.
+  letters: Record<string, string>;
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, fr };
+
+// Which form a count takes. French uses the singular for 0 as well as 1.
+export const getPluralCategory = (
+  locale: Locale,
+  count: number,
+): PluralCategory => {
+  if (locale === "fr") return count < 2 ? "one" : "other";
+  return count === 1 ? "one" : "other";
+};
+
+// Fills in {placeholders}; any without a value are left as they are
+const format = (text: string, params: MessageParams) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? `${params[name]}` : placeholder,
+  );
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+) => {
+  const message = CATALOGS[locale].messages[key];
+  const text =
+    typeof message === "string"
+      ? message
+      : message[getPluralCategory(locale, Number(params.count ?? 0))];
+  return format(text, params);
+};
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, params) =>
+    translate(locale, key, params);
+
+// Names missing from a catalog are shown as they are
+export const translateColor = (locale: Locale, name: string) =>
+  CATALOGS[locale].colors[name] ?? name;
+
+export const translateShape = (locale: Locale, shape: string) =>
+  CATALOGS[locale].shapes[shape] ?? shape;
+
+export const translateLetter = (locale: Locale, letter: string) =>
+  CATALOGS[locale].letters[letter.toUpperCase()] ?? letter;
+
+// Everything needed to show or say things in one language
+export type Translation = {
+  locale: Locale;
+  t: Translate;
+  colorName: (name: string) => string;
+  shapeName: (shape: string) => string;
+  letterName: (letter: string) => string;
+  speechLanguage: string;
+};
+
+export const createTranslation = (locale: Locale): Translation => ({
+  locale,
+  t: createTranslator(locale),
+  colorName: (name) => translateColor(locale, name),
+  shapeName: (shape) => translateShape(locale, shape),
+  letterName: (letter) => translateLetter(locale, letter),
+  speechLanguage: SPEECH_LANGUAGES[locale],
+});
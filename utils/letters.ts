@@ -0,0 +1,48 @@
+// Letters, numbers and letter sounds used by the ABC & 123 game
+
+export const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+
+export const LOWERCASE_ALPHABET = ALPHABET.map((letter) =>
+  letter.toLowerCase(),
+);
+
+export const NUMBERS = Array.from({ length: 10 }, (_, i) => `${i + 1}`);
+
+type LetterSound = {
+  // How the sound is written for grown-ups, e.g. "/m/"
+  symbol: string;
+  // How the sound is spelled so text-to-speech can say it
+  spoken: string;
+  // A word that starts with the sound
+  example: string;
+};
+
+// Short vowel and most common consonant sound for each lowercase letter
+export const LETTER_SOUNDS: Record<string, LetterSound> = {
+  a: { symbol: "/a/", spoken: "ah", example: "apple" },
+  b: { symbol: "/b/", spoken: "buh", example: "ball" },
+  c: { symbol: "/k/", spoken: "kuh", example: "cat" },
+  d: { symbol: "/d/", spoken: "duh", example: "dog" },
+  e: { symbol: "/e/", spoken: "eh", example: "egg" },
+  f: { symbol: "/f/", spoken: "fff", example: "fish" },
+  g: { symbol: "/g/", spoken: "guh", example: "goat" },
+  h: { symbol: "/h/", spoken: "hhh", example: "hat" },
+  i: { symbol: "/i/", spoken: "ih", example: "igloo" },
+  j: { symbol: "/j/", spoken: "juh", example: "jam" },
+  k: { symbol: "/k/", spoken: "kuh", example: "kite" },
+  l: { symbol: "/l/", spoken: "lll", example: "lion" },
+  m: { symbol: "/m/", spoken: "mmm", example: "moon" },
+  n: { symbol: "/n/", spoken: "nnn", example: "nest" },
+  o: { symbol: "/o/", spoken: "aw", example: "octopus" },
+  p: { symbol: "/p/", spoken: "puh", example: "pig" },
+  q: { symbol: "/kw/", spoken: "kwuh", example: "queen" },
+  r: { symbol: "/r/", spoken: "rrr", example: "rabbit" },
+  s: { symbol: "/s/", spoken: "sss", example: "sun" },
+  t: { symbol: "/t/", spoken: "tuh", example: "tiger" },
+  u: { symbol: "/u/", spoken: "uh", example: "umbrella" },
+  v: { symbol: "/v/", spoken: "vvv", example: "van" },
+  w: { symbol: "/w/", spoken: "wuh", example: "web" },
+  x: { symbol: "/ks/", spoken: "ks", example: "fox" },
+  y: { symbol: "/y/", spoken: "yuh", example: "yo-yo" },
+  z: { symbol: "/z/", spoken: "zzz", example: "zebra" },
+};
@@ -0,0 +1,483 @@
+// English, which every other catalog must match key for key
+
+export const en = {
+  messages: {
+    // Main menu
+    "menu.title": "Pop & Learn",
+    "menu.subtitle": "Fun learning for little fingers!",
+    "menu.progress": "{name}'s Progress",
+    "menu.totalPops": "Total Pops",
+    "menu.stars": "Stars",
+    "menu.stickerBook": "Sticker Book",
+    "menu.dashboard": "Grown-ups dashboard",
+    "menu.grownUps": "Grown-ups",
+
+    "mode.freePop": "Free Pop",
+    "mode.colors": "Colors",
+    "mode.abc": "ABC & 123",
+    "mode.math": "Math Fun",
+    "mode.speed": "Speed Pop",
+    "mode.balloon": "Balloon Shapes",
+    "mode.unknown": "Other",
+
+    // Daily challenge
+    "daily.title": "Today's Challenge",
+    "daily.streak": { one: "{count} day", other: "{count} days" },
+    "daily.done": "Done! +{bonus} ⭐ Come back tomorrow",
+    "daily.progress": "{progress}/{target} · Bonus +{bonus} ⭐",
+    "daily.label": "Today's challenge: {challenge}",
+    "challenge.colorPops": {
+      one: "Pop {count} {subject} bubble in Colors",
+      other: "Pop {count} {subject} bubbles in Colors",
+    },
+    "challenge.letters": {
+      one: "Find {count} letter in ABC",
+      other: "Find {count} letters in ABC",
+    },
+    "challenge.addingSums": {
+      one: "Solve {count} adding sum in Math Fun",
+      other: "Solve {count} adding sums in Math Fun",
+    },
+    "challenge.mathSums": {
+      one: "Solve {count} problem in Math Fun",
+      other: "Solve {count} problems in Math Fun",
+    },
+    "challenge.shapePops": {
+      one: "Pop {count} {subject} balloon",
+      other: "Pop {count} {subject} balloons",
+    },
+    "challenge.speedStars": {
+      one: "Earn {count} star in Speed Pop",
+      other: "Earn {count} stars in Speed Pop",
+    },
+
+    // End of a round
+    "results.starReward": {
+      one: "{count} star for your collection",
+      other: "{count} stars for your collection",
+    },
+    "results.bestScore": "New best score",
+    "results.bestAccuracy": "New best accuracy",
+    "results.stars": {
+      one: "You got {count} star!",
+      other: "You got {count} stars!",
+    },
+    "results.score": "Your score is {score}.",
+    "results.title": "Well Done!",
+    "results.right": "Right",
+    "results.playAgain": "Play again",
+    "results.nextLevel": "Next level",
+
+    // Shared by the games
+    "common.score": "Score",
+    "common.time": "Time",
+    "common.timePlayed": "Time Played",
+    "common.difficulty": "Difficulty",
+    "common.find": "Find",
+    "common.left": { one: "{count} left", other: "{count} left" },
+    "common.hideMetrics": "Hide Metrics",
+    "common.showMetrics": "Show Metrics",
+    "common.secondsLeft": {
+      one: "{count} second left!",
+      other: "{count} seconds left!",
+    },
+    "common.hurry": {
+      one: "Hurry! {count} second left!",
+      other: "Hurry! {count} seconds left!",
+    },
+    "common.greatJob": "Great Job!",
+    "common.loading": "Loading...",
+    "common.startGame": "Start Game",
+
+    "pause.title": "Paused",
+    "pause.resume": "Keep playing",
+    "pause.restart": "Start over",
+    "pause.leave": "Leave game",
+    "pause.button": "Pause",
+
+    "achievement.spoken": "You did it! {title}. {description}!",
+    "achievement.label": "Achievement: {title}",
+    "achievement.heading": "Achievement!",
+    "achievements.firstPop.title": "First Pop",
+    "achievements.firstPop.description": "Pop your first bubble",
+    "achievements.hundredPops.title": "Super Popper",
+    "achievements.hundredPops.description": "Pop 100 bubbles",
+    "achievements.thousandPops.title": "Pop Star",
+    "achievements.thousandPops.description": "Pop 1,000 bubbles",
+    "achievements.colorExplorer.title": "Color Explorer",
+    "achievements.colorExplorer.description": "Find 10 colors",
+    "achievements.shapeSpotter.title": "Shape Spotter",
+    "achievements.shapeSpotter.description": "Find 25 shapes",
+    "achievements.letterHunter.title": "Letter Hunter",
+    "achievements.letterHunter.description": "Find 26 letters and numbers",
+    "achievements.numberCruncher.title": "Number Cruncher",
+    "achievements.numberCruncher.description": "Solve 25 sums",
+    "achievements.lightningFingers.title": "Lightning Fingers",
+    "achievements.lightningFingers.description": "Score 40 in Speed Pop",
+    "achievements.starCollector.title": "Star Collector",
+    "achievements.starCollector.description": "Earn 25 stars",
+    "achievements.onARoll.title": "On a Roll",
+    "achievements.onARoll.description": "Get 5 right in a row",
+    "achievements.unstoppable.title": "Unstoppable",
+    "achievements.unstoppable.description": "Get 15 right in a row",
+    "achievements.alphabetMaster.title": "Alphabet Master",
+    "achievements.alphabetMaster.description": "Learn every letter from A to Z",
+    "achievements.numberMaster.title": "Number Master",
+    "achievements.numberMaster.description": "Learn every number from 1 to 10",
+    "achievements.rainbowMaster.title": "Rainbow Master",
+    "achievements.rainbowMaster.description": "Learn every color",
+    "achievements.explorer.title": "Explorer",
+    "achievements.explorer.description": "Play every game",
+
+    "difficulty.level": "Level {level}",
+    "difficulty.locked": "Level {level}, locked",
+    "difficulty.choose": "Choose a level",
+    "difficulty.longPress": "Long press to choose a level",
+    "difficulty.automatic": "Automatic",
+
+    // Colors
+    "colors.subtitle": "Find the matching colors!",
+    "colors.prompt": "Find the color {color}. You have {seconds} seconds.",
+    "colors.allFound": "Great job! You found all the {color} bubbles!",
+    "colors.bubblesLeft": {
+      one: "Good! {count} {color} bubble left.",
+      other: "Good! {count} {color} bubbles left.",
+    },
+    "colors.wrong": "That's {popped}, not {color}.",
+    "colors.solved": "Colors Solved",
+
+    // ABC & 123
+    "abc.gameStarted": "Game started! {prompt}",
+    "abc.quick": "Quick! {prompt}",
+    "abc.findMore": {
+      one: "Good! Find {count} more",
+      other: "Good! Find {count} more",
+    },
+    "abc.lettersLearned": "Letters Learned",
+    "abc.alphabet.label": "ABC",
+    "abc.alphabet.subtitle": "Learn your ABCs!",
+    "abc.alphabet.prompt": "Find the letter {target}",
+    "abc.alphabet.praise": "Great job! You found all the {target}s!",
+    "abc.alphabet.retry": "That's {popped}, not {target}. Try again!",
+    "abc.lowercase.label": "abc",
+    "abc.lowercase.subtitle": "Learn your little letters!",
+    "abc.lowercase.prompt": "Find the lowercase letter {target}",
+    "abc.lowercase.praise": "Great job! You found all the little {target}s!",
+    "abc.lowercase.retry":
+      "That's little {popped}, not little {target}. Try again!",
+    "abc.matching.label": "Aa",
+    "abc.matching.subtitle": "Match big and little letters!",
+    "abc.matching.metric": "Letters Matched",
+    "abc.matching.find": "Match",
+    "abc.matching.prompt": "Find the little letter that matches big {target}",
+    "abc.matching.praise":
+      "Great job! Big {target} and little {little} go together!",
+    "abc.matching.retry":
+      "That's little {popped}. Look for little {little}. Try again!",
+    "abc.phonics.label": "/a/",
+    "abc.phonics.subtitle": "Listen for letter sounds!",
+    "abc.phonics.metric": "Sounds Learned",
+    "abc.phonics.find": "Sound",
+    "abc.phonics.prompt":
+      "Pop the letter that makes the {sound} sound, like in {example}",
+    "abc.phonics.praise":
+      "Great job! {target} says {sound}, like in {example}!",
+    "abc.phonics.retry":
+      "That's {popped}. It says {poppedSound}. Listen for {sound}. Try again!",
+    "abc.numbers.label": "123",
+    "abc.numbers.subtitle": "Count with numbers!",
+    "abc.numbers.metric": "Numbers Learned",
+    "abc.numbers.prompt": "Find the number {target}",
+    "abc.numbers.praise": "Great job! You found all the {target}s!",
+    "abc.numbers.retry": "That's {popped}, not {target}. Try again!",
+    "abc.spelling.label": "Spell",
+    "abc.spelling.subtitle": "Spell short words!",
+    "abc.spelling.metric": "Words Spelled",
+    "abc.spelling.find": "Spell",
+    "abc.spelling.prompt": "Spell the word {word}",
+    "abc.spelling.praise": "Great job! {letters} spells {word}!",
+    "abc.spelling.retry":
+      "That's {popped}. {word} needs {expected} next. Try again!",
+
+    // Math Fun
+    "math.subtitle": "Solve fun math problems!",
+    "math.plus": "plus",
+    "math.minus": "minus",
+    "math.times": "times",
+    "math.dividedBy": "divided by",
+    "math.biggerText": "Bigger: {a} or {b}?",
+    "math.smallerText": "Smaller: {a} or {b}?",
+    "math.prompt": "Pop {a} {op} {b}",
+    "math.missingPrompt": "{a} {op} what makes {result}?",
+    "math.biggerPrompt": "Pop the bigger number, {a} or {b}",
+    "math.smallerPrompt": "Pop the smaller number, {a} or {b}",
+    "math.correct": "That's correct! The answer was {answer}.",
+    "math.missingCorrect": "That's correct! {a} {op} {answer} makes {result}.",
+    "math.biggerCorrect": "That's correct! {answer} is bigger than {other}.",
+    "math.smallerCorrect": "That's correct! {answer} is smaller than {other}.",
+    "math.gameStarted": "Game started. {prompt}",
+    "math.quick": "Quick now. {prompt}",
+    "math.remember": "Remember! {prompt}",
+    "math.tryAgain": "Try again!",
+    "math.countingHelp": "Counting Help",
+    "math.aidAlways": "Always",
+    "math.aidAfterMistake": "After Mistakes",
+    "math.aidOff": "Off",
+
+    // Speed Pop
+    "speed.subtitle": "Pop them all!",
+    "speed.description":
+      "Pop all bubbles to clear the grid! Clear multiple grids to get higher scores!",
+
+    // Balloon Shapes
+    "balloon.subtitle": "Pop the balloons and learn shapes!",
+    "balloon.description": "Pop the balloons that match the shape shown!",
+    "balloon.find": "Find the {shape}!",
+
+    // Free Pop
+    "freePop.subtitle": "Pop all the bubbles!",
+    "freePop.start": "Game started. Pop all the {shape} bubbles!",
+    "freePop.newShape": "New shape! Pop all the {shape} bubbles!",
+    "freePop.hint": {
+      one: "Keep going! {count} {shape} bubble left to pop.",
+      other: "Keep going! {count} {shape} bubbles left to pop.",
+    },
+    "freePop.done": "Great job! You popped all the {shape} bubbles!",
+    "freePop.progress": "Your Progress",
+    "freePop.completed": "Shapes Completed: {count}",
+
+    // Sticker book
+    "stickers.toSpend": "⭐ {count} to spend",
+    "stickers.using": "Using",
+    "stickers.picked": "You picked {name}!",
+    "stickers.bought": "You got {name}!",
+    "stickers.needMore": {
+      one: "You need {count} more star for {name}",
+      other: "You need {count} more stars for {name}",
+    },
+    "stickers.starter": "Yours already",
+    "stickers.reward": "New in your sticker book: {name}",
+    "stickers.kind.sticker": "Stickers",
+    "stickers.kind.companion": "Friends",
+    "stickers.kind.bubbleSkin": "Bubbles",
+    "stickers.kind.theme": "Themes",
+    "stickers.goal.totalPops": {
+      one: "Pop {count} bubble",
+      other: "Pop {count} bubbles",
+    },
+    "stickers.goal.shapesCompleted": {
+      one: "Find {count} shape",
+      other: "Find {count} shapes",
+    },
+    "stickers.goal.colorsLearned": {
+      one: "Find {count} color",
+      other: "Find {count} colors",
+    },
+    "stickers.goal.lettersLearned": {
+      one: "Learn {count} letter",
+      other: "Learn {count} letters",
+    },
+    "stickers.goal.mathProblemsCompleted": {
+      one: "Solve {count} sum",
+      other: "Solve {count} sums",
+    },
+    "stickers.goal.highScore": "Score {count} in Speed Pop",
+    "stickers.goal.starsEarned": {
+      one: "Earn {count} star",
+      other: "Earn {count} stars",
+    },
+    "stickers.item.bubbles": "Bubbles",
+    "stickers.item.balloon": "Balloon",
+    "stickers.item.fireworks": "Fireworks",
+    "stickers.item.rainbow": "Rainbow",
+    "stickers.item.blocks": "Letter Blocks",
+    "stickers.item.books": "Books",
+    "stickers.item.diamond": "Diamond",
+    "stickers.item.abacus": "Abacus",
+    "stickers.item.rocket": "Rocket",
+    "stickers.item.lightning": "Lightning",
+    "stickers.item.star": "Gold Star",
+    "stickers.item.trophy": "Trophy",
+    "stickers.item.icecream": "Ice Cream",
+    "stickers.item.cake": "Cake",
+    "stickers.item.castle": "Castle",
+    "stickers.item.bunny": "Bunny",
+    "stickers.item.puppy": "Puppy",
+    "stickers.item.panda": "Panda",
+    "stickers.item.owl": "Owl",
+    "stickers.item.unicorn": "Unicorn",
+    "stickers.item.dragon": "Dragon",
+    "stickers.item.classic": "Classic",
+    "stickers.item.candy": "Candy",
+    "stickers.item.ocean": "Ocean",
+    "stickers.item.sunset": "Sunset",
+    "stickers.item.sky": "Sky",
+    "stickers.item.meadow": "Meadow",
+    "stickers.item.candyland": "Candy Land",
+    "stickers.item.space": "Space",
+
+    // Screen time
+    "screenTime.fiveMinutes": "Five more minutes of play time!",
+    "screenTime.oneMinute": "One more minute. Time to finish up!",
+    "screenTime.restSpoken": "Time to rest now. Great playing today!",
+    "screenTime.title": "Time to rest",
+    "screenTime.message":
+      "Great playing today, {name}! Let's give our eyes a break and play again tomorrow.",
+    "screenTime.moreTime": {
+      one: "Grown-ups: {count} more minute",
+      other: "Grown-ups: {count} more minutes",
+    },
+    "screenTime.moreTimeLabel": "Grown-ups: more play time",
+
+    // Players
+    "profiles.switch": "Switch player",
+    "profiles.title": "Who's playing?",
+    "profiles.name": "Name",
+    "profiles.add": "Add Player",
+    "profiles.new": "New player",
+
+    // Audio
+    "audio.title": "Audio",
+    "audio.settings": "Audio settings",
+    "audio.full": "Full",
+    "audio.noSpeech": "No Speech",
+    "audio.noSound": "No Sound",
+    "audio.mute": "Mute",
+
+    // Parental gate
+    "gate.title": "Grown-ups only",
+    "gate.holdInstructions": {
+      one: "Press and hold the button for {count} second.",
+      other: "Press and hold the button for {count} seconds.",
+    },
+    "gate.holdLabel": "Press and hold to continue",
+    "gate.hold": "Hold",
+    "gate.question": "What is {a} times {b}?",
+    "gate.wrong": "Not quite. Try this one: {question}",
+    "gate.answer": "Answer",
+    "gate.check": "Check answer",
+    "gate.cancel": "Cancel",
+    "gate.number.3": "three",
+    "gate.number.4": "four",
+    "gate.number.5": "five",
+    "gate.number.6": "six",
+    "gate.number.7": "seven",
+    "gate.number.8": "eight",
+    "gate.number.9": "nine",
+    "gate.number.10": "ten",
+    "gate.number.11": "eleven",
+    "gate.number.12": "twelve",
+
+    // Grown-ups dashboard
+    "dashboard.progress": "{name}'s progress",
+    "dashboard.lastDays": {
+      one: "Last {count} day",
+      other: "Last {count} days",
+    },
+    "dashboard.lastWeeks": {
+      one: "Last {count} week",
+      other: "Last {count} weeks",
+    },
+    "dashboard.sun": "Sun",
+    "dashboard.mon": "Mon",
+    "dashboard.tue": "Tue",
+    "dashboard.wed": "Wed",
+    "dashboard.thu": "Thu",
+    "dashboard.fri": "Fri",
+    "dashboard.sat": "Sat",
+    "dashboard.seconds": "{count}s",
+    "dashboard.minutes": "{count} min",
+    "dashboard.hours": "{hours}h {minutes}m",
+    "dashboard.chartMinutes": "{count}m",
+    "dashboard.allTime": "All Time",
+    "dashboard.starsEarned": "Stars Earned",
+    "dashboard.bestStreak": "Best Challenge Streak",
+    "dashboard.stat.colors": "Colors",
+    "dashboard.stat.lettersAndNumbers": "Letters & Numbers",
+    "dashboard.stat.wordsSpelled": "Words Spelled",
+    "dashboard.stat.mathProblems": "Math Problems",
+    "dashboard.stat.speedHighScore": "Speed High Score",
+    "dashboard.stat.shapes": "Shapes",
+    "dashboard.accuracy": "Accuracy",
+    "dashboard.byGame": "By Game",
+    "dashboard.noGames": "No games played yet.",
+    "dashboard.needsPractice": "Needs Practice",
+    "dashboard.noPractice": "Nothing to practice yet.",
+    "dashboard.domain.letter": "Letters",
+    "dashboard.domain.number": "Numbers",
+    "dashboard.domain.color": "Colors",
+    "dashboard.domain.shape": "Shapes",
+    "dashboard.domain.mathFact": "Math Facts",
+    "dashboard.domain.letterSound": "Letter Sounds",
+    "dashboard.domain.letterMatch": "Upper & Lowercase",
+    "dashboard.confusedWith": "Mixed up with {item}",
+    "dashboard.recentSessions": "Recent Sessions",
+    "dashboard.noSessions": "No sessions yet.",
+    "dashboard.achievements": "Achievements ({unlocked}/{total})",
+    "dashboard.notYet": "Not yet",
+    "dashboard.games": "Games",
+    "dashboard.ages": "Ages {youngest}–{oldest}",
+    "dashboard.on": "On",
+    "dashboard.off": "Off",
+    "dashboard.screenTime": "Screen Time",
+    "dashboard.playedToday": "Played today: {played}",
+    "dashboard.playedTodayLeft": "Played today: {played} · Left: {left}",
+    "dashboard.noLimit": "No limit",
+    "dashboard.language": "Language",
+    "dashboard.secondLanguage": "Repeat prompts in",
+    "dashboard.parentalGate": "Parental Gate",
+    "dashboard.gate.settings": "Settings",
+    "dashboard.gate.dashboard": "Dashboard",
+    "dashboard.gate.reset": "Reset & remove",
+    "dashboard.gate.externalLink": "Outside links",
+    "dashboard.gate.exitGame": "Leaving a game",
+    "dashboard.challenge.none": "Off",
+    "dashboard.challenge.hold": "Hold",
+    "dashboard.challenge.arithmetic": "Sum",
+    "dashboard.moveProgress": "Move Progress",
+    "dashboard.player": "Player",
+    "dashboard.resetPlayer": "Reset {name}'s progress",
+    "dashboard.removePlayer": "Remove {name}",
+
+    // Moving progress
+    "transfer.share": "Share {name}'s progress",
+    "transfer.shareSummary": "Share a summary for spreadsheets",
+    "transfer.summaryTitle": "Progress summary",
+    "transfer.import": "Import progress",
+    "transfer.hint":
+      "Paste progress shared from another device. Players with the same name are combined, and new players are added.",
+    "transfer.placeholder": "Paste here",
+    "transfer.importButton": "Import",
+    "transfer.updated": "Updated {names}.",
+    "transfer.added": "Added {names}.",
+    "transfer.failed": "Something went wrong.",
+    "transfer.notExport": "That doesn't look like exported progress.",
+    "transfer.newerVersion":
+      "This was exported from a newer version of the app.",
+    "transfer.noPlayers": "There are no players in this export.",
+  },
+  colors: {
+    Red: "Red",
+    Pink: "Pink",
+    Purple: "Purple",
+    Blue: "Blue",
+    "Light Blue": "Light Blue",
+    Teal: "Teal",
+    Green: "Green",
+    Yellow: "Yellow",
+    Orange: "Orange",
+  },
+  shapes: {
+    circle: "Circle",
+    square: "Square",
+    triangle: "Triangle",
+    star: "Star",
+    hexagon: "Hexagon",
+    heart: "Heart",
+    animal: "Animal",
+    roundedSquare: "Rounded Square",
+    pill: "Pill",
+  },
+  // English voices already read a letter on its own by name
+  letters: {},
+};
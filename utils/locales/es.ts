@@ -0,0 +1,520 @@
+import { Catalog } from "../i18n";
+
+// Spanish. Colors and shapes follow "de color" and "con forma de", so their
+// names don't have to agree with the noun.
+
+export const es: Catalog = {
+  messages: {
+    // Main menu
+    "menu.title": "Explota y aprende",
+    "menu.subtitle": "¡Aprender jugando con tus deditos!",
+    "menu.progress": "Progreso de {name}",
+    "menu.totalPops": "Burbujas explotadas",
+    "menu.stars": "Estrellas",
+    "menu.stickerBook": "Álbum de pegatinas",
+    "menu.dashboard": "Panel para adultos",
+    "menu.grownUps": "Adultos",
+
+    "mode.freePop": "Pop libre",
+    "mode.colors": "Colores",
+    "mode.abc": "ABC y 123",
+    "mode.math": "Mates divertidas",
+    "mode.speed": "Pop rápido",
+    "mode.balloon": "Globos y formas",
+    "mode.unknown": "Otro",
+
+    // Daily challenge
+    "daily.title": "Reto de hoy",
+    "daily.streak": { one: "{count} día", other: "{count} días" },
+    "daily.done": "¡Hecho! +{bonus} ⭐ Vuelve mañana",
+    "daily.progress": "{progress}/{target} · Premio +{bonus} ⭐",
+    "daily.label": "Reto de hoy: {challenge}",
+    "challenge.colorPops": {
+      one: "Explota {count} burbuja de color {subject} en Colores",
+      other: "Explota {count} burbujas de color {subject} en Colores",
+    },
+    "challenge.letters": {
+      one: "Encuentra {count} letra en ABC",
+      other: "Encuentra {count} letras en ABC",
+    },
+    "challenge.addingSums": {
+      one: "Resuelve {count} suma en Mates divertidas",
+      other: "Resuelve {count} sumas en Mates divertidas",
+    },
+    "challenge.mathSums": {
+      one: "Resuelve {count} problema en Mates divertidas",
+      other: "Resuelve {count} problemas en Mates divertidas",
+    },
+    "challenge.shapePops": {
+      one: "Explota {count} globo con forma de {subject}",
+      other: "Explota {count} globos con forma de {subject}",
+    },
+    "challenge.speedStars": {
+      one: "Gana {count} estrella en Pop rápido",
+      other: "Gana {count} estrellas en Pop rápido",
+    },
+
+    // End of a round
+    "results.starReward": {
+      one: "{count} estrella para tu colección",
+      other: "{count} estrellas para tu colección",
+    },
+    "results.bestScore": "Nueva mejor puntuación",
+    "results.bestAccuracy": "Nueva mejor precisión",
+    "results.stars": {
+      one: "¡Has ganado {count} estrella!",
+      other: "¡Has ganado {count} estrellas!",
+    },
+    "results.score": "Tu puntuación es {score}.",
+    "results.title": "¡Muy bien!",
+    "results.right": "Aciertos",
+    "results.playAgain": "Jugar otra vez",
+    "results.nextLevel": "Siguiente nivel",
+
+    // Shared by the games
+    "common.score": "Puntos",
+    "common.time": "Tiempo",
+    "common.timePlayed": "Tiempo jugado",
+    "common.difficulty": "Dificultad",
+    "common.find": "Busca",
+    "common.left": { one: "Queda {count}", other: "Quedan {count}" },
+    "common.hideMetrics": "Ocultar datos",
+    "common.showMetrics": "Mostrar datos",
+    "common.secondsLeft": {
+      one: "¡Queda {count} segundo!",
+      other: "¡Quedan {count} segundos!",
+    },
+    "common.hurry": {
+      one: "¡Rápido! ¡Queda {count} segundo!",
+      other: "¡Rápido! ¡Quedan {count} segundos!",
+    },
+    "common.greatJob": "¡Buen trabajo!",
+    "common.loading": "Cargando...",
+    "common.startGame": "Empezar",
+
+    "pause.title": "En pausa",
+    "pause.resume": "Seguir jugando",
+    "pause.restart": "Empezar de nuevo",
+    "pause.leave": "Salir del juego",
+    "pause.button": "Pausa",
+
+    "achievement.spoken": "¡Lo has conseguido! {title}. ¡{description}!",
+    "achievement.label": "Logro: {title}",
+    "achievement.heading": "¡Logro!",
+    "achievements.firstPop.title": "Primer pop",
+    "achievements.firstPop.description": "Explota tu primera burbuja",
+    "achievements.hundredPops.title": "Superpop",
+    "achievements.hundredPops.description": "Explota 100 burbujas",
+    "achievements.thousandPops.title": "Estrella del pop",
+    "achievements.thousandPops.description": "Explota 1.000 burbujas",
+    "achievements.colorExplorer.title": "Mundo de colores",
+    "achievements.colorExplorer.description": "Encuentra 10 colores",
+    "achievements.shapeSpotter.title": "Cazaformas",
+    "achievements.shapeSpotter.description": "Encuentra 25 formas",
+    "achievements.letterHunter.title": "Cazaletras",
+    "achievements.letterHunter.description": "Encuentra 26 letras y números",
+    "achievements.numberCruncher.title": "Supercalculadora",
+    "achievements.numberCruncher.description": "Resuelve 25 sumas",
+    "achievements.lightningFingers.title": "Dedos de rayo",
+    "achievements.lightningFingers.description": "Consigue 40 en Pop rápido",
+    "achievements.starCollector.title": "Coleccionista de estrellas",
+    "achievements.starCollector.description": "Gana 25 estrellas",
+    "achievements.onARoll.title": "Racha",
+    "achievements.onARoll.description": "Acierta 5 seguidas",
+    "achievements.unstoppable.title": "Imparable",
+    "achievements.unstoppable.description": "Acierta 15 seguidas",
+    "achievements.alphabetMaster.title": "Abecedario completo",
+    "achievements.alphabetMaster.description":
+      "Aprende todas las letras de la A a la Z",
+    "achievements.numberMaster.title": "Números completos",
+    "achievements.numberMaster.description":
+      "Aprende todos los números del 1 al 10",
+    "achievements.rainbowMaster.title": "Arcoíris completo",
+    "achievements.rainbowMaster.description": "Aprende todos los colores",
+    "achievements.explorer.title": "Gran aventura",
+    "achievements.explorer.description": "Juega a todos los juegos",
+
+    "difficulty.level": "Nivel {level}",
+    "difficulty.locked": "Nivel {level}, fijado",
+    "difficulty.choose": "Elige un nivel",
+    "difficulty.longPress": "Mantén pulsado para elegir un nivel",
+    "difficulty.automatic": "Automático",
+
+    // Colors
+    "colors.subtitle": "¡Encuentra los colores iguales!",
+    "colors.prompt": "Busca el color {color}. Tienes {seconds} segundos.",
+    "colors.allFound":
+      "¡Buen trabajo! ¡Has encontrado todas las burbujas de color {color}!",
+    "colors.bubblesLeft": {
+      one: "¡Bien! Queda {count} burbuja de color {color}.",
+      other: "¡Bien! Quedan {count} burbujas de color {color}.",
+    },
+    "colors.wrong": "Eso es {popped}, no {color}.",
+    "colors.solved": "Colores resueltos",
+
+    // ABC & 123
+    "abc.gameStarted": "¡Empezamos! {prompt}",
+    "abc.quick": "¡Rápido! {prompt}",
+    "abc.findMore": {
+      one: "¡Bien! Encuentra {count} más",
+      other: "¡Bien! Encuentra {count} más",
+    },
+    "abc.lettersLearned": "Letras aprendidas",
+    "abc.alphabet.label": "ABC",
+    "abc.alphabet.subtitle": "¡Aprende el abecedario!",
+    "abc.alphabet.prompt": "Busca la letra {target}",
+    "abc.alphabet.praise": "¡Buen trabajo! ¡Has encontrado todas las {target}!",
+    "abc.alphabet.retry":
+      "Esa es la {popped}, no la {target}. ¡Inténtalo otra vez!",
+    "abc.lowercase.label": "abc",
+    "abc.lowercase.subtitle": "¡Aprende las letras minúsculas!",
+    "abc.lowercase.prompt": "Busca la letra minúscula {target}",
+    "abc.lowercase.praise":
+      "¡Buen trabajo! ¡Has encontrado todas las {target} minúsculas!",
+    "abc.lowercase.retry":
+      "Esa es la {popped} minúscula, no la {target} minúscula. ¡Inténtalo otra vez!",
+    "abc.matching.label": "Aa",
+    "abc.matching.subtitle": "¡Une mayúsculas y minúsculas!",
+    "abc.matching.metric": "Letras unidas",
+    "abc.matching.find": "Une",
+    "abc.matching.prompt":
+      "Busca la minúscula que va con la {target} mayúscula",
+    "abc.matching.praise":
+      "¡Buen trabajo! ¡La {target} mayúscula y la {little} minúscula van juntas!",
+    "abc.matching.retry":
+      "Esa es la {popped} minúscula. Busca la {little} minúscula. ¡Inténtalo otra vez!",
+    "abc.phonics.label": "/a/",
+    "abc.phonics.subtitle": "¡Escucha los sonidos de las letras!",
+    "abc.phonics.metric": "Sonidos aprendidos",
+    "abc.phonics.find": "Sonido",
+    "abc.phonics.prompt":
+      "Explota la letra que suena {sound}, como en {example}",
+    "abc.phonics.praise":
+      "¡Buen trabajo! ¡La {target} suena {sound}, como en {example}!",
+    "abc.phonics.retry":
+      "Esa es la {popped}. Suena {poppedSound}. Escucha {sound}. ¡Inténtalo otra vez!",
+    "abc.numbers.label": "123",
+    "abc.numbers.subtitle": "¡Cuenta con los números!",
+    "abc.numbers.metric": "Números aprendidos",
+    "abc.numbers.prompt": "Busca el número {target}",
+    "abc.numbers.praise": "¡Buen trabajo! ¡Has encontrado todos los {target}!",
+    "abc.numbers.retry":
+      "Ese es el {popped}, no el {target}. ¡Inténtalo otra vez!",
+    "abc.spelling.label": "Deletrea",
+    "abc.spelling.subtitle": "¡Deletrea palabras cortas!",
+    "abc.spelling.metric": "Palabras deletreadas",
+    "abc.spelling.find": "Deletrea",
+    "abc.spelling.prompt": "Deletrea la palabra {word}",
+    "abc.spelling.praise": "¡Buen trabajo! ¡{letters} forma {word}!",
+    "abc.spelling.retry":
+      "Esa es la {popped}. {word} necesita la {expected}. ¡Inténtalo otra vez!",
+
+    // Math Fun
+    "math.subtitle": "¡Resuelve problemas divertidos!",
+    "math.plus": "más",
+    "math.minus": "menos",
+    "math.times": "por",
+    "math.dividedBy": "entre",
+    "math.biggerText": "Mayor: ¿{a} o {b}?",
+    "math.smallerText": "Menor: ¿{a} o {b}?",
+    "math.prompt": "Explota {a} {op} {b}",
+    "math.missingPrompt": "¿{a} {op} cuánto es {result}?",
+    "math.biggerPrompt": "Explota el número mayor, {a} o {b}",
+    "math.smallerPrompt": "Explota el número menor, {a} o {b}",
+    "math.correct": "¡Correcto! La respuesta era {answer}.",
+    "math.missingCorrect": "¡Correcto! {a} {op} {answer} es {result}.",
+    "math.biggerCorrect": "¡Correcto! {answer} es mayor que {other}.",
+    "math.smallerCorrect": "¡Correcto! {answer} es menor que {other}.",
+    "math.gameStarted": "¡Empezamos! {prompt}",
+    "math.quick": "¡Rápido! {prompt}",
+    "math.remember": "¡Recuerda! {prompt}",
+    "math.tryAgain": "¡Inténtalo otra vez!",
+    "math.countingHelp": "Ayuda para contar",
+    "math.aidAlways": "Siempre",
+    "math.aidAfterMistake": "Tras un error",
+    "math.aidOff": "No",
+
+    // Speed Pop
+    "speed.subtitle": "¡Explótalas todas!",
+    "speed.description":
+      "¡Explota todas las burbujas para vaciar la cuadrícula! ¡Vacía varias para sumar más puntos!",
+
+    // Balloon Shapes
+    "balloon.subtitle": "¡Explota globos y aprende las formas!",
+    "balloon.description": "¡Explota los globos con la forma que se muestra!",
+    "balloon.find": "¡Busca la forma {shape}!",
+
+    // Free Pop
+    "freePop.subtitle": "¡Explota todas las burbujas!",
+    "freePop.start":
+      "¡Empezamos! ¡Explota todas las burbujas con forma de {shape}!",
+    "freePop.newShape":
+      "¡Nueva forma! ¡Explota todas las burbujas con forma de {shape}!",
+    "freePop.hint": {
+      one: "¡Sigue así! Queda {count} burbuja con forma de {shape}.",
+      other: "¡Sigue así! Quedan {count} burbujas con forma de {shape}.",
+    },
+    "freePop.done":
+      "¡Buen trabajo! ¡Has explotado todas las burbujas con forma de {shape}!",
+    "freePop.progress": "Tu progreso",
+    "freePop.completed": "Formas completadas: {count}",
+
+    // Sticker book
+    "stickers.toSpend": "⭐ {count} para gastar",
+    "stickers.using": "En uso",
+    "stickers.picked": "¡Has elegido {name}!",
+    "stickers.bought": "¡Has conseguido {name}!",
+    "stickers.needMore": {
+      one: "Te falta {count} estrella para {name}",
+      other: "Te faltan {count} estrellas para {name}",
+    },
+    "stickers.starter": "Ya es tuyo",
+    "stickers.reward": "Nuevo en tu álbum: {name}",
+    "stickers.kind.sticker": "Pegatinas",
+    "stickers.kind.companion": "Amigos",
+    "stickers.kind.bubbleSkin": "Burbujas",
+    "stickers.kind.theme": "Temas",
+    "stickers.goal.totalPops": {
+      one: "Explota {count} burbuja",
+      other: "Explota {count} burbujas",
+    },
+    "stickers.goal.shapesCompleted": {
+      one: "Encuentra {count} forma",
+      other: "Encuentra {count} formas",
+    },
+    "stickers.goal.colorsLearned": {
+      one: "Encuentra {count} color",
+      other: "Encuentra {count} colores",
+    },
+    "stickers.goal.lettersLearned": {
+      one: "Aprende {count} letra",
+      other: "Aprende {count} letras",
+    },
+    "stickers.goal.mathProblemsCompleted": {
+      one: "Resuelve {count} cuenta",
+      other: "Resuelve {count} cuentas",
+    },
+    "stickers.goal.highScore": "Consigue {count} puntos en Pop rápido",
+    "stickers.goal.starsEarned": {
+      one: "Gana {count} estrella",
+      other: "Gana {count} estrellas",
+    },
+    "stickers.item.bubbles": "Burbujas",
+    "stickers.item.balloon": "Globo",
+    "stickers.item.fireworks": "Fuegos artificiales",
+    "stickers.item.rainbow": "Arcoíris",
+    "stickers.item.blocks": "Bloques de letras",
+    "stickers.item.books": "Libros",
+    "stickers.item.diamond": "Diamante",
+    "stickers.item.abacus": "Ábaco",
+    "stickers.item.rocket": "Cohete",
+    "stickers.item.lightning": "Rayo",
+    "stickers.item.star": "Estrella dorada",
+    "stickers.item.trophy": "Trofeo",
+    "stickers.item.icecream": "Helado",
+    "stickers.item.cake": "Pastel",
+    "stickers.item.castle": "Castillo",
+    "stickers.item.bunny": "Conejito",
+    "stickers.item.puppy": "Perrito",
+    "stickers.item.panda": "Panda",
+    "stickers.item.owl": "Búho",
+    "stickers.item.unicorn": "Unicornio",
+    "stickers.item.dragon": "Dragón",
+    "stickers.item.classic": "Clásico",
+    "stickers.item.candy": "Caramelo",
+    "stickers.item.ocean": "Océano",
+    "stickers.item.sunset": "Atardecer",
+    "stickers.item.sky": "Cielo",
+    "stickers.item.meadow": "Pradera",
+    "stickers.item.candyland": "País de las golosinas",
+    "stickers.item.space": "Espacio",
+
+    // Screen time
+    "screenTime.fiveMinutes": "¡Quedan cinco minutos de juego!",
+    "screenTime.oneMinute": "Queda un minuto. ¡Hora de terminar!",
+    "screenTime.restSpoken": "Ahora toca descansar. ¡Qué bien has jugado hoy!",
+    "screenTime.title": "Hora de descansar",
+    "screenTime.message":
+      "¡Qué bien has jugado hoy, {name}! Vamos a descansar los ojos y mañana jugamos otra vez.",
+    "screenTime.moreTime": {
+      one: "Adultos: {count} minuto más",
+      other: "Adultos: {count} minutos más",
+    },
+    "screenTime.moreTimeLabel": "Adultos: más tiempo de juego",
+
+    // Players
+    "profiles.switch": "Cambiar de jugador",
+    "profiles.title": "¿Quién juega?",
+    "profiles.name": "Nombre",
+    "profiles.add": "Añadir jugador",
+    "profiles.new": "Nuevo jugador",
+
+    // Audio
+    "audio.title": "Sonido",
+    "audio.settings": "Ajustes de sonido",
+    "audio.full": "Todo",
+    "audio.noSpeech": "Sin voz",
+    "audio.noSound": "Sin efectos",
+    "audio.mute": "Silencio",
+
+    // Parental gate
+    "gate.title": "Solo para adultos",
+    "gate.holdInstructions": {
+      one: "Mantén pulsado el botón {count} segundo.",
+      other: "Mantén pulsado el botón {count} segundos.",
+    },
+    "gate.holdLabel": "Mantén pulsado para continuar",
+    "gate.hold": "Mantén",
+    "gate.question": "¿Cuánto es {a} por {b}?",
+    "gate.wrong": "No es correcto. Prueba con esta: {question}",
+    "gate.answer": "Respuesta",
+    "gate.check": "Comprobar respuesta",
+    "gate.cancel": "Cancelar",
+    "gate.number.3": "tres",
+    "gate.number.4": "cuatro",
+    "gate.number.5": "cinco",
+    "gate.number.6": "seis",
+    "gate.number.7": "siete",
+    "gate.number.8": "ocho",
+    "gate.number.9": "nueve",
+    "gate.number.10": "diez",
+    "gate.number.11": "once",
+    "gate.number.12": "doce",
+
+    // Grown-ups dashboard
+    "dashboard.progress": "Progreso de {name}",
+    "dashboard.lastDays": { one: "Último día", other: "Últimos {count} días" },
+    "dashboard.lastWeeks": {
+      one: "Última semana",
+      other: "Últimas {count} semanas",
+    },
+    "dashboard.sun": "Dom",
+    "dashboard.mon": "Lun",
+    "dashboard.tue": "Mar",
+    "dashboard.wed": "Mié",
+    "dashboard.thu": "Jue",
+    "dashboard.fri": "Vie",
+    "dashboard.sat": "Sáb",
+    "dashboard.seconds": "{count} s",
+    "dashboard.minutes": "{count} min",
+    "dashboard.hours": "{hours} h {minutes} min",
+    "dashboard.chartMinutes": "{count}m",
+    "dashboard.allTime": "Desde el principio",
+    "dashboard.starsEarned": "Estrellas ganadas",
+    "dashboard.bestStreak": "Mejor racha de retos",
+    "dashboard.stat.colors": "Colores",
+    "dashboard.stat.lettersAndNumbers": "Letras y números",
+    "dashboard.stat.wordsSpelled": "Palabras deletreadas",
+    "dashboard.stat.mathProblems": "Problemas de mates",
+    "dashboard.stat.speedHighScore": "Récord de Pop rápido",
+    "dashboard.stat.shapes": "Formas",
+    "dashboard.accuracy": "Aciertos",
+    "dashboard.byGame": "Por juego",
+    "dashboard.noGames": "Todavía no se ha jugado a nada.",
+    "dashboard.needsPractice": "Para practicar",
+    "dashboard.noPractice": "Todavía no hay nada que practicar.",
+    "dashboard.domain.letter": "Letras",
+    "dashboard.domain.number": "Números",
+    "dashboard.domain.color": "Colores",
+    "dashboard.domain.shape": "Formas",
+    "dashboard.domain.mathFact": "Operaciones",
+    "dashboard.domain.letterSound": "Sonidos de letras",
+    "dashboard.domain.letterMatch": "Mayúsculas y minúsculas",
+    "dashboard.confusedWith": "Se confunde con {item}",
+    "dashboard.recentSessions": "Partidas recientes",
+    "dashboard.noSessions": "Todavía no hay partidas.",
+    "dashboard.achievements": "Logros ({unlocked}/{total})",
+    "dashboard.notYet": "Todavía no",
+    "dashboard.games": "Juegos",
+    "dashboard.ages": "De {youngest} a {oldest} años",
+    "dashboard.on": "Sí",
+    "dashboard.off": "No",
+    "dashboard.screenTime": "Tiempo de pantalla",
+    "dashboard.playedToday": "Jugado hoy: {played}",
+    "dashboard.playedTodayLeft": "Jugado hoy: {played} · Queda: {left}",
+    "dashboard.noLimit": "Sin límite",
+    "dashboard.language": "Idioma",
+    "dashboard.secondLanguage": "Repetir las consignas en",
+    "dashboard.parentalGate": "Control parental",
+    "dashboard.gate.settings": "Ajustes",
+    "dashboard.gate.dashboard": "Panel",
+    "dashboard.gate.reset": "Reiniciar y borrar",
+    "dashboard.gate.externalLink": "Enlaces externos",
+    "dashboard.gate.exitGame": "Salir de un juego",
+    "dashboard.challenge.none": "No",
+    "dashboard.challenge.hold": "Mantener",
+    "dashboard.challenge.arithmetic": "Cuenta",
+    "dashboard.moveProgress": "Pasar el progreso",
+    "dashboard.player": "Jugador",
+    "dashboard.resetPlayer": "Reiniciar el progreso de {name}",
+    "dashboard.removePlayer": "Eliminar a {name}",
+
+    // Moving progress
+    "transfer.share": "Compartir el progreso de {name}",
+    "transfer.shareSummary": "Compartir un resumen para hojas de cálculo",
+    "transfer.summaryTitle": "Resumen del progreso",
+    "transfer.import": "Importar progreso",
+    "transfer.hint":
+      "Pega el progreso compartido desde otro dispositivo. Los jugadores con el mismo nombre se combinan y los nuevos se añaden.",
+    "transfer.placeholder": "Pega aquí",
+    "transfer.importButton": "Importar",
+    "transfer.updated": "Actualizado: {names}.",
+    "transfer.added": "Añadido: {names}.",
+    "transfer.failed": "Algo ha salido mal.",
+    "transfer.notExport": "Eso no parece progreso exportado.",
+    "transfer.newerVersion":
+      "Se exportó desde una versión más nueva de la app.",
+    "transfer.noPlayers": "No hay jugadores en esta exportación.",
+  },
+  colors: {
+    Red: "Rojo",
+    Pink: "Rosa",
+    Purple: "Morado",
+    Blue: "Azul",
+    "Light Blue": "Azul claro",
+    Teal: "Turquesa",
+    Green: "Verde",
+    Yellow: "Amarillo",
+    Orange: "Naranja",
+  },
+  shapes: {
+    circle: "Círculo",
+    square: "Cuadrado",
+    triangle: "Triángulo",
+    star: "Estrella",
+    hexagon: "Hexágono",
+    heart: "Corazón",
+    animal: "Animal",
+    roundedSquare: "Cuadrado redondeado",
+    pill: "Píldora",
+  },
+  letters: {
+    A: "a",
+    B: "be",
+    C: "ce",
+    D: "de",
+    E: "e",
+    F: "efe",
+    G: "ge",
+    H: "hache",
+    I: "i",
+    J: "jota",
+    K: "ka",
+    L: "ele",
+    M: "eme",
+    N: "ene",
+    Ñ: "eñe",
+    O: "o",
+    P: "pe",
+    Q: "cu",
+    R: "erre",
+    S: "ese",
+    T: "te",
+    U: "u",
+    V: "uve",
+    W: "uve doble",
+    X: "equis",
+    Y: "ye",
+    Z: "zeta",
+  },
+};
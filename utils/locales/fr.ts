@@ -0,0 +1,520 @@
+import { Catalog } from "../i18n";
+
+// French. Colors and shapes follow "de couleur" and "en forme de", so their
+// names don't have to agree with the noun.
+
+export const fr: Catalog = {
+  messages: {
+    // Main menu
+    "menu.title": "Éclate et apprends",
+    "menu.subtitle": "Apprendre en s'amusant, du bout des doigts !",
+    "menu.progress": "Progrès de {name}",
+    "menu.totalPops": "Bulles éclatées",
+    "menu.stars": "Étoiles",
+    "menu.stickerBook": "Album d'autocollants",
+    "menu.dashboard": "Espace des grands",
+    "menu.grownUps": "Les grands",
+
+    "mode.freePop": "Pop libre",
+    "mode.colors": "Couleurs",
+    "mode.abc": "ABC et 123",
+    "mode.math": "Maths rigolos",
+    "mode.speed": "Pop éclair",
+    "mode.balloon": "Ballons et formes",
+    "mode.unknown": "Autre",
+
+    // Daily challenge
+    "daily.title": "Défi du jour",
+    "daily.streak": { one: "{count} jour", other: "{count} jours" },
+    "daily.done": "Fini ! +{bonus} ⭐ Reviens demain",
+    "daily.progress": "{progress}/{target} · Bonus +{bonus} ⭐",
+    "daily.label": "Défi du jour : {challenge}",
+    "challenge.colorPops": {
+      one: "Éclate {count} bulle de couleur {subject} dans Couleurs",
+      other: "Éclate {count} bulles de couleur {subject} dans Couleurs",
+    },
+    "challenge.letters": {
+      one: "Trouve {count} lettre dans ABC",
+      other: "Trouve {count} lettres dans ABC",
+    },
+    "challenge.addingSums": {
+      one: "Fais {count} addition dans Maths rigolos",
+      other: "Fais {count} additions dans Maths rigolos",
+    },
+    "challenge.mathSums": {
+      one: "Résous {count} calcul dans Maths rigolos",
+      other: "Résous {count} calculs dans Maths rigolos",
+    },
+    "challenge.shapePops": {
+      one: "Éclate {count} ballon en forme de {subject}",
+      other: "Éclate {count} ballons en forme de {subject}",
+    },
+    "challenge.speedStars": {
+      one: "Gagne {count} étoile dans Pop éclair",
+      other: "Gagne {count} étoiles dans Pop éclair",
+    },
+
+    // End of a round
+    "results.starReward": {
+      one: "{count} étoile pour ta collection",
+      other: "{count} étoiles pour ta collection",
+    },
+    "results.bestScore": "Nouveau meilleur score",
+    "results.bestAccuracy": "Nouvelle meilleure précision",
+    "results.stars": {
+      one: "Tu as gagné {count} étoile !",
+      other: "Tu as gagné {count} étoiles !",
+    },
+    "results.score": "Ton score est de {score}.",
+    "results.title": "Bravo !",
+    "results.right": "Justes",
+    "results.playAgain": "Rejouer",
+    "results.nextLevel": "Niveau suivant",
+
+    // Shared by the games
+    "common.score": "Score",
+    "common.time": "Temps",
+    "common.timePlayed": "Temps de jeu",
+    "common.difficulty": "Difficulté",
+    "common.find": "Trouve",
+    "common.left": { one: "Encore {count}", other: "Encore {count}" },
+    "common.hideMetrics": "Masquer les stats",
+    "common.showMetrics": "Afficher les stats",
+    "common.secondsLeft": {
+      one: "Plus que {count} seconde !",
+      other: "Plus que {count} secondes !",
+    },
+    "common.hurry": {
+      one: "Vite ! Plus que {count} seconde !",
+      other: "Vite ! Plus que {count} secondes !",
+    },
+    "common.greatJob": "Bien joué !",
+    "common.loading": "Chargement...",
+    "common.startGame": "Commencer",
+
+    "pause.title": "Pause",
+    "pause.resume": "Continuer",
+    "pause.restart": "Recommencer",
+    "pause.leave": "Quitter le jeu",
+    "pause.button": "Pause",
+
+    "achievement.spoken": "Tu as réussi ! {title}. {description} !",
+    "achievement.label": "Succès : {title}",
+    "achievement.heading": "Succès !",
+    "achievements.firstPop.title": "Premier pop",
+    "achievements.firstPop.description": "Éclate ta première bulle",
+    "achievements.hundredPops.title": "Super pop",
+    "achievements.hundredPops.description": "Éclate 100 bulles",
+    "achievements.thousandPops.title": "Star du pop",
+    "achievements.thousandPops.description": "Éclate 1 000 bulles",
+    "achievements.colorExplorer.title": "Monde des couleurs",
+    "achievements.colorExplorer.description": "Trouve 10 couleurs",
+    "achievements.shapeSpotter.title": "Chasse aux formes",
+    "achievements.shapeSpotter.description": "Trouve 25 formes",
+    "achievements.letterHunter.title": "Chasse aux lettres",
+    "achievements.letterHunter.description": "Trouve 26 lettres et chiffres",
+    "achievements.numberCruncher.title": "As du calcul",
+    "achievements.numberCruncher.description": "Fais 25 calculs",
+    "achievements.lightningFingers.title": "Doigts éclair",
+    "achievements.lightningFingers.description": "Marque 40 dans Pop éclair",
+    "achievements.starCollector.title": "Collection d'étoiles",
+    "achievements.starCollector.description": "Gagne 25 étoiles",
+    "achievements.onARoll.title": "Sur la lancée",
+    "achievements.onARoll.description": "5 bonnes réponses d'affilée",
+    "achievements.unstoppable.title": "Inarrêtable",
+    "achievements.unstoppable.description": "15 bonnes réponses d'affilée",
+    "achievements.alphabetMaster.title": "Alphabet complet",
+    "achievements.alphabetMaster.description":
+      "Apprends toutes les lettres de A à Z",
+    "achievements.numberMaster.title": "Chiffres complets",
+    "achievements.numberMaster.description":
+      "Apprends tous les nombres de 1 à 10",
+    "achievements.rainbowMaster.title": "Arc-en-ciel complet",
+    "achievements.rainbowMaster.description": "Apprends toutes les couleurs",
+    "achievements.explorer.title": "Grande aventure",
+    "achievements.explorer.description": "Joue à tous les jeux",
+
+    "difficulty.level": "Niveau {level}",
+    "difficulty.locked": "Niveau {level}, bloqué",
+    "difficulty.choose": "Choisis un niveau",
+    "difficulty.longPress": "Appui long pour choisir un niveau",
+    "difficulty.automatic": "Automatique",
+
+    // Colors
+    "colors.subtitle": "Trouve les couleurs assorties !",
+    "colors.prompt": "Trouve la couleur {color}. Tu as {seconds} secondes.",
+    "colors.allFound":
+      "Bravo ! Tu as trouvé toutes les bulles de couleur {color} !",
+    "colors.bubblesLeft": {
+      one: "Bien ! Encore {count} bulle de couleur {color}.",
+      other: "Bien ! Encore {count} bulles de couleur {color}.",
+    },
+    "colors.wrong": "Ça, c'est {popped}, pas {color}.",
+    "colors.solved": "Couleurs trouvées",
+
+    // ABC & 123
+    "abc.gameStarted": "C'est parti ! {prompt}",
+    "abc.quick": "Vite ! {prompt}",
+    "abc.findMore": {
+      one: "Bien ! Encore {count} à trouver",
+      other: "Bien ! Encore {count} à trouver",
+    },
+    "abc.lettersLearned": "Lettres apprises",
+    "abc.alphabet.label": "ABC",
+    "abc.alphabet.subtitle": "Apprends l'alphabet !",
+    "abc.alphabet.prompt": "Trouve la lettre {target}",
+    "abc.alphabet.praise": "Bravo ! Tu as trouvé tous les {target} !",
+    "abc.alphabet.retry": "Ça, c'est {popped}, pas {target}. Essaie encore !",
+    "abc.lowercase.label": "abc",
+    "abc.lowercase.subtitle": "Apprends les petites lettres !",
+    "abc.lowercase.prompt": "Trouve la lettre minuscule {target}",
+    "abc.lowercase.praise": "Bravo ! Tu as trouvé tous les petits {target} !",
+    "abc.lowercase.retry":
+      "Ça, c'est un petit {popped}, pas un petit {target}. Essaie encore !",
+    "abc.matching.label": "Aa",
+    "abc.matching.subtitle": "Associe les grandes et les petites lettres !",
+    "abc.matching.metric": "Lettres associées",
+    "abc.matching.find": "Associe",
+    "abc.matching.prompt":
+      "Trouve la petite lettre qui va avec le grand {target}",
+    "abc.matching.praise":
+      "Bravo ! Le grand {target} et le petit {little} vont ensemble !",
+    "abc.matching.retry":
+      "Ça, c'est un petit {popped}. Cherche le petit {little}. Essaie encore !",
+    "abc.phonics.label": "/a/",
+    "abc.phonics.subtitle": "Écoute le son des lettres !",
+    "abc.phonics.metric": "Sons appris",
+    "abc.phonics.find": "Son",
+    "abc.phonics.prompt":
+      "Éclate la lettre qui fait le son {sound}, comme dans {example}",
+    "abc.phonics.praise":
+      "Bravo ! {target} fait {sound}, comme dans {example} !",
+    "abc.phonics.retry":
+      "Ça, c'est {popped}. Il fait {poppedSound}. Écoute bien {sound}. Essaie encore !",
+    "abc.numbers.label": "123",
+    "abc.numbers.subtitle": "Compte avec les nombres !",
+    "abc.numbers.metric": "Nombres appris",
+    "abc.numbers.prompt": "Trouve le nombre {target}",
+    "abc.numbers.praise": "Bravo ! Tu as trouvé tous les {target} !",
+    "abc.numbers.retry": "Ça, c'est {popped}, pas {target}. Essaie encore !",
+    "abc.spelling.label": "Épelle",
+    "abc.spelling.subtitle": "Épelle des petits mots !",
+    "abc.spelling.metric": "Mots épelés",
+    "abc.spelling.find": "Épelle",
+    "abc.spelling.prompt": "Épelle le mot {word}",
+    "abc.spelling.praise": "Bravo ! {letters}, ça fait {word} !",
+    "abc.spelling.retry":
+      "Ça, c'est {popped}. Pour {word}, il faut {expected}. Essaie encore !",
+
+    // Math Fun
+    "math.subtitle": "Résous des calculs rigolos !",
+    "math.plus": "plus",
+    "math.minus": "moins",
+    "math.times": "fois",
+    "math.dividedBy": "divisé par",
+    "math.biggerText": "Le plus grand : {a} ou {b} ?",
+    "math.smallerText": "Le plus petit : {a} ou {b} ?",
+    "math.prompt": "Éclate {a} {op} {b}",
+    "math.missingPrompt": "{a} {op} combien font {result} ?",
+    "math.biggerPrompt": "Éclate le plus grand nombre, {a} ou {b}",
+    "math.smallerPrompt": "Éclate le plus petit nombre, {a} ou {b}",
+    "math.correct": "C'est juste ! La réponse était {answer}.",
+    "math.missingCorrect": "C'est juste ! {a} {op} {answer} font {result}.",
+    "math.biggerCorrect": "C'est juste ! {answer} est plus grand que {other}.",
+    "math.smallerCorrect": "C'est juste ! {answer} est plus petit que {other}.",
+    "math.gameStarted": "C'est parti. {prompt}",
+    "math.quick": "Vite. {prompt}",
+    "math.remember": "N'oublie pas ! {prompt}",
+    "math.tryAgain": "Essaie encore !",
+    "math.countingHelp": "Aide pour compter",
+    "math.aidAlways": "Toujours",
+    "math.aidAfterMistake": "Après une erreur",
+    "math.aidOff": "Non",
+
+    // Speed Pop
+    "speed.subtitle": "Éclate-les toutes !",
+    "speed.description":
+      "Éclate toutes les bulles pour vider la grille ! Vide plusieurs grilles pour marquer plus de points !",
+
+    // Balloon Shapes
+    "balloon.subtitle": "Éclate les ballons et apprends les formes !",
+    "balloon.description": "Éclate les ballons qui ont la forme affichée !",
+    "balloon.find": "Trouve la forme {shape} !",
+
+    // Free Pop
+    "freePop.subtitle": "Éclate toutes les bulles !",
+    "freePop.start":
+      "C'est parti. Éclate toutes les bulles en forme de {shape} !",
+    "freePop.newShape":
+      "Nouvelle forme ! Éclate toutes les bulles en forme de {shape} !",
+    "freePop.hint": {
+      one: "Continue ! Encore {count} bulle en forme de {shape} à éclater.",
+      other: "Continue ! Encore {count} bulles en forme de {shape} à éclater.",
+    },
+    "freePop.done":
+      "Bravo ! Tu as éclaté toutes les bulles en forme de {shape} !",
+    "freePop.progress": "Tes progrès",
+    "freePop.completed": "Formes terminées : {count}",
+
+    // Sticker book
+    "stickers.toSpend": "⭐ {count} à dépenser",
+    "stickers.using": "Choisi",
+    "stickers.picked": "Tu as choisi {name} !",
+    "stickers.bought": "Tu as gagné {name} !",
+    "stickers.needMore": {
+      one: "Il te manque {count} étoile pour {name}",
+      other: "Il te manque {count} étoiles pour {name}",
+    },
+    "stickers.starter": "Déjà à toi",
+    "stickers.reward": "Nouveau dans ton album : {name}",
+    "stickers.kind.sticker": "Autocollants",
+    "stickers.kind.companion": "Amis",
+    "stickers.kind.bubbleSkin": "Bulles",
+    "stickers.kind.theme": "Thèmes",
+    "stickers.goal.totalPops": {
+      one: "Éclate {count} bulle",
+      other: "Éclate {count} bulles",
+    },
+    "stickers.goal.shapesCompleted": {
+      one: "Trouve {count} forme",
+      other: "Trouve {count} formes",
+    },
+    "stickers.goal.colorsLearned": {
+      one: "Trouve {count} couleur",
+      other: "Trouve {count} couleurs",
+    },
+    "stickers.goal.lettersLearned": {
+      one: "Apprends {count} lettre",
+      other: "Apprends {count} lettres",
+    },
+    "stickers.goal.mathProblemsCompleted": {
+      one: "Résous {count} calcul",
+      other: "Résous {count} calculs",
+    },
+    "stickers.goal.highScore": "Marque {count} points dans Pop éclair",
+    "stickers.goal.starsEarned": {
+      one: "Gagne {count} étoile",
+      other: "Gagne {count} étoiles",
+    },
+    "stickers.item.bubbles": "Bulles",
+    "stickers.item.balloon": "Ballon",
+    "stickers.item.fireworks": "Feu d'artifice",
+    "stickers.item.rainbow": "Arc-en-ciel",
+    "stickers.item.blocks": "Cubes à lettres",
+    "stickers.item.books": "Livres",
+    "stickers.item.diamond": "Diamant",
+    "stickers.item.abacus": "Boulier",
+    "stickers.item.rocket": "Fusée",
+    "stickers.item.lightning": "Éclair",
+    "stickers.item.star": "Étoile d'or",
+    "stickers.item.trophy": "Trophée",
+    "stickers.item.icecream": "Glace",
+    "stickers.item.cake": "Gâteau",
+    "stickers.item.castle": "Château",
+    "stickers.item.bunny": "Lapinou",
+    "stickers.item.puppy": "Chiot",
+    "stickers.item.panda": "Panda",
+    "stickers.item.owl": "Hibou",
+    "stickers.item.unicorn": "Licorne",
+    "stickers.item.dragon": "Dragon",
+    "stickers.item.classic": "Classique",
+    "stickers.item.candy": "Bonbon",
+    "stickers.item.ocean": "Océan",
+    "stickers.item.sunset": "Coucher de soleil",
+    "stickers.item.sky": "Ciel",
+    "stickers.item.meadow": "Prairie",
+    "stickers.item.candyland": "Pays des bonbons",
+    "stickers.item.space": "Espace",
+
+    // Screen time
+    "screenTime.fiveMinutes": "Encore cinq minutes de jeu !",
+    "screenTime.oneMinute": "Encore une minute. C'est bientôt fini !",
+    "screenTime.restSpoken":
+      "C'est l'heure de se reposer. Tu as bien joué aujourd'hui !",
+    "screenTime.title": "L'heure du repos",
+    "screenTime.message":
+      "Tu as bien joué aujourd'hui, {name} ! Reposons nos yeux et rejouons demain.",
+    "screenTime.moreTime": {
+      one: "Les grands : {count} minute de plus",
+      other: "Les grands : {count} minutes de plus",
+    },
+    "screenTime.moreTimeLabel": "Les grands : plus de temps de jeu",
+
+    // Players
+    "profiles.switch": "Changer de joueur",
+    "profiles.title": "Qui joue ?",
+    "profiles.name": "Prénom",
+    "profiles.add": "Ajouter le joueur",
+    "profiles.new": "Nouveau joueur",
+
+    // Audio
+    "audio.title": "Son",
+    "audio.settings": "Réglages du son",
+    "audio.full": "Tout",
+    "audio.noSpeech": "Sans voix",
+    "audio.noSound": "Sans effets",
+    "audio.mute": "Muet",
+
+    // Parental gate
+    "gate.title": "Réservé aux grands",
+    "gate.holdInstructions": {
+      one: "Appuie sur le bouton pendant {count} seconde.",
+      other: "Appuie sur le bouton pendant {count} secondes.",
+    },
+    "gate.holdLabel": "Appuie longtemps pour continuer",
+    "gate.hold": "Appuie",
+    "gate.question": "Combien font {a} fois {b} ?",
+    "gate.wrong": "Pas tout à fait. Essaie celle-ci : {question}",
+    "gate.answer": "Réponse",
+    "gate.check": "Vérifier la réponse",
+    "gate.cancel": "Annuler",
+    "gate.number.3": "trois",
+    "gate.number.4": "quatre",
+    "gate.number.5": "cinq",
+    "gate.number.6": "six",
+    "gate.number.7": "sept",
+    "gate.number.8": "huit",
+    "gate.number.9": "neuf",
+    "gate.number.10": "dix",
+    "gate.number.11": "onze",
+    "gate.number.12": "douze",
+
+    // Grown-ups dashboard
+    "dashboard.progress": "Progrès de {name}",
+    "dashboard.lastDays": {
+      one: "Dernier jour",
+      other: "{count} derniers jours",
+    },
+    "dashboard.lastWeeks": {
+      one: "Dernière semaine",
+      other: "{count} dernières semaines",
+    },
+    "dashboard.sun": "Dim",
+    "dashboard.mon": "Lun",
+    "dashboard.tue": "Mar",
+    "dashboard.wed": "Mer",
+    "dashboard.thu": "Jeu",
+    "dashboard.fri": "Ven",
+    "dashboard.sat": "Sam",
+    "dashboard.seconds": "{count} s",
+    "dashboard.minutes": "{count} min",
+    "dashboard.hours": "{hours} h {minutes} min",
+    "dashboard.chartMinutes": "{count}m",
+    "dashboard.allTime": "Depuis le début",
+    "dashboard.starsEarned": "Étoiles gagnées",
+    "dashboard.bestStreak": "Meilleure série de défis",
+    "dashboard.stat.colors": "Couleurs",
+    "dashboard.stat.lettersAndNumbers": "Lettres et chiffres",
+    "dashboard.stat.wordsSpelled": "Mots épelés",
+    "dashboard.stat.mathProblems": "Calculs",
+    "dashboard.stat.speedHighScore": "Record de Pop éclair",
+    "dashboard.stat.shapes": "Formes",
+    "dashboard.accuracy": "Précision",
+    "dashboard.byGame": "Par jeu",
+    "dashboard.noGames": "Aucun jeu pour l'instant.",
+    "dashboard.needsPractice": "À travailler",
+    "dashboard.noPractice": "Rien à travailler pour l'instant.",
+    "dashboard.domain.letter": "Lettres",
+    "dashboard.domain.number": "Chiffres",
+    "dashboard.domain.color": "Couleurs",
+    "dashboard.domain.shape": "Formes",
+    "dashboard.domain.mathFact": "Calculs",
+    "dashboard.domain.letterSound": "Sons des lettres",
+    "dashboard.domain.letterMatch": "Majuscules et minuscules",
+    "dashboard.confusedWith": "Confondu avec {item}",
+    "dashboard.recentSessions": "Parties récentes",
+    "dashboard.noSessions": "Aucune partie pour l'instant.",
+    "dashboard.achievements": "Succès ({unlocked}/{total})",
+    "dashboard.notYet": "Pas encore",
+    "dashboard.games": "Jeux",
+    "dashboard.ages": "De {youngest} à {oldest} ans",
+    "dashboard.on": "Oui",
+    "dashboard.off": "Non",
+    "dashboard.screenTime": "Temps d'écran",
+    "dashboard.playedToday": "Joué aujourd'hui : {played}",
+    "dashboard.playedTodayLeft": "Joué aujourd'hui : {played} · Reste : {left}",
+    "dashboard.noLimit": "Sans limite",
+    "dashboard.language": "Langue",
+    "dashboard.secondLanguage": "Répéter les consignes en",
+    "dashboard.parentalGate": "Contrôle parental",
+    "dashboard.gate.settings": "Réglages",
+    "dashboard.gate.dashboard": "Tableau de bord",
+    "dashboard.gate.reset": "Remise à zéro et suppression",
+    "dashboard.gate.externalLink": "Liens externes",
+    "dashboard.gate.exitGame": "Quitter un jeu",
+    "dashboard.challenge.none": "Non",
+    "dashboard.challenge.hold": "Appui",
+    "dashboard.challenge.arithmetic": "Calcul",
+    "dashboard.moveProgress": "Transférer les progrès",
+    "dashboard.player": "Joueur",
+    "dashboard.resetPlayer": "Remettre à zéro les progrès de {name}",
+    "dashboard.removePlayer": "Supprimer {name}",
+
+    // Moving progress
+    "transfer.share": "Partager les progrès de {name}",
+    "transfer.shareSummary": "Partager un résumé pour tableur",
+    "transfer.summaryTitle": "Résumé des progrès",
+    "transfer.import": "Importer des progrès",
+    "transfer.hint":
+      "Colle les progrès partagés depuis un autre appareil. Les joueurs du même nom sont réunis et les nouveaux sont ajoutés.",
+    "transfer.placeholder": "Colle ici",
+    "transfer.importButton": "Importer",
+    "transfer.updated": "Mis à jour : {names}.",
+    "transfer.added": "Ajouté : {names}.",
+    "transfer.failed": "Une erreur s'est produite.",
+    "transfer.notExport": "Cela ne ressemble pas à des progrès exportés.",
+    "transfer.newerVersion":
+      "Ceci vient d'une version plus récente de l'appli.",
+    "transfer.noPlayers": "Il n'y a aucun joueur dans cet export.",
+  },
+  colors: {
+    Red: "Rouge",
+    Pink: "Rose",
+    Purple: "Violet",
+    Blue: "Bleu",
+    "Light Blue": "Bleu clair",
+    Teal: "Turquoise",
+    Green: "Vert",
+    Yellow: "Jaune",
+    Orange: "Orange",
+  },
+  shapes: {
+    circle: "Cercle",
+    square: "Carré",
+    triangle: "Triangle",
+    star: "Étoile",
+    hexagon: "Hexagone",
+    heart: "Cœur",
+    animal: "Animal",
+    roundedSquare: "Carré arrondi",
+    pill: "Pilule",
+  },
+  letters: {
+    A: "a",
+    B: "bé",
+    C: "cé",
+    D: "dé",
+    E: "e",
+    F: "effe",
+    G: "gé",
+    H: "ache",
+    I: "i",
+    J: "ji",
+    K: "ka",
+    L: "elle",
+    M: "emme",
+    N: "enne",
+    O: "o",
+    P: "pé",
+    Q: "cu",
+    R: "erre",
+    S: "esse",
+    T: "té",
+    U: "u",
+    V: "vé",
+    W: "double vé",
+    X: "ixe",
+    Y: "i grec",
+    Z: "zède",
+  },
+};
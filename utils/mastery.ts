@@ -0,0 +1,203 @@
+// Per-item mastery model: every answer a child gives is recorded against the
+// item they were asked to find, and a confidence score is kept up to date.
+
+export type MasteryDomain =
+  | "letter"
+  | "number"
+  | "color"
+  | "shape"
+  | "mathFact"
+  | "letterSound"
+  | "letterMatch";
+
+export const MASTERY_DOMAINS: MasteryDomain[] = [
+  "letter",
+  "number",
+  "color",
+  "shape",
+  "mathFact",
+  "letterSound",
+  "letterMatch",
+];
+
+export type AnswerRecord = {
+  correct: boolean;
+  responseTimeMs: number;
+  // The item actually popped, when it was not the target
+  chosen?: string;
+  timestamp: number;
+};
+
+export type ItemMastery = {
+  attempts: number;
+  correct: number;
+  // Most recent answers, oldest first
+  history: AnswerRecord[];
+  // How often each wrong item was popped instead of this one
+  confusions: Record<string, number>;
+  confidence: number;
+  lastSeen: number;
+};
+
+export type MasteryData = Record<MasteryDomain, Record<string, ItemMastery>>;
+
+// Only the latest answers are kept; totals cover the whole history
+const HISTORY_LIMIT = 20;
+// Answers needed before confidence can reach its full value
+const MIN_ATTEMPTS_FOR_CONFIDENCE = 5;
+// Response times that count as instant and as hesitant
+const FAST_RESPONSE_MS = 2000;
+const SLOW_RESPONSE_MS = 8000;
+// A correct but hesitant answer is still worth this much
+const SLOW_ANSWER_SCORE = 0.6;
+// How much more each answer weighs than the one before it
+const RECENCY_WEIGHT = 1.25;
+
+export const createEmptyMastery = (): MasteryData => ({
+  letter: {},
+  number: {},
+  color: {},
+  shape: {},
+  mathFact: {},
+  letterSound: {},
+  letterMatch: {},
+});
+
+const scoreAnswer = ({ correct, responseTimeMs }: AnswerRecord) => {
+  if (!correct) return 0;
+  if (responseTimeMs <= FAST_RESPONSE_MS) return 1;
+  if (responseTimeMs >= SLOW_RESPONSE_MS) return SLOW_ANSWER_SCORE;
+
+  const slowness =
+    (responseTimeMs - FAST_RESPONSE_MS) / (SLOW_RESPONSE_MS - FAST_RESPONSE_MS);
+  return 1 - slowness * (1 - SLOW_ANSWER_SCORE);
+};
+
+// Confidence from 0 to 1: recent, quick, correct answers push it up
+export const calculateConfidence = (history: AnswerRecord[]) => {
+  if (history.length === 0) return 0;
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+  history.forEach((answer, index) => {
+    const weight = Math.pow(RECENCY_WEIGHT, index);
+    weightedScore += scoreAnswer(answer) * weight;
+    totalWeight += weight;
+  });
+
+  const evidence = Math.min(1, history.length / MIN_ATTEMPTS_FOR_CONFIDENCE);
+  return (weightedScore / totalWeight) * evidence;
+};
+
+export const recordAnswer = (
+  mastery: MasteryData,
+  domain: MasteryDomain,
+  item: string,
+  answer: AnswerRecord,
+): MasteryData => {
+  const previous = mastery[domain][item];
+  const history = [...(previous?.history ?? []), answer].slice(-HISTORY_LIMIT);
+  const confusions = { ...previous?.confusions };
+  if (!answer.correct && answer.chosen !== undefined) {
+    confusions[answer.chosen] = (confusions[answer.chosen] ?? 0) + 1;
+  }
+
+  return {
+    ...mastery,
+    [domain]: {
+      ...mastery[domain],
+      [item]: {
+        attempts: (previous?.attempts ?? 0) + 1,
+        correct: (previous?.correct ?? 0) + (answer.correct ? 1 : 0),
+        history,
+        confusions,
+        confidence: calculateConfidence(history),
+        lastSeen: answer.timestamp,
+      },
+    },
+  };
+};
+
+export const getConfidence = (
+  mastery: MasteryData,
+  domain: MasteryDomain,
+  item: string,
+) => mastery[domain][item]?.confidence ?? 0;
+
+// Confidence at which an item counts as learned
+export const MASTERED_CONFIDENCE = 0.8;
+
+export const isMastered = (
+  mastery: MasteryData,
+  domain: MasteryDomain,
+  item: string,
+) => getConfidence(mastery, domain, item) >= MASTERED_CONFIDENCE;
+
+// Items ordered from least to most confident; unseen items come first
+export const getWeakestItems = (
+  mastery: MasteryData,
+  domain: MasteryDomain,
+  items: string[],
+  count = items.length,
+) =>
+  [...items]
+    .sort(
+      (a, b) =>
+        getConfidence(mastery, domain, a) - getConfidence(mastery, domain, b),
+    )
+    .slice(0, count);
+
+// The item most often popped by mistake when looking for this one
+export const getMostConfusedWith = (
+  mastery: MasteryData,
+  domain: MasteryDomain,
+  item: string,
+): string | null => {
+  const confusions = Object.entries(mastery[domain][item]?.confusions ?? {});
+  if (confusions.length === 0) return null;
+  return confusions.reduce((most, entry) =>
+    entry[1] > most[1] ? entry : most,
+  )[0];
+};
+
+const answerKey = (answer: AnswerRecord) =>
+  `${answer.timestamp}-${answer.correct}-${answer.chosen ?? ""}`;
+
+const mergeItem = (a: ItemMastery, b: ItemMastery): ItemMastery => {
+  // The same answer can be in both when data is imported more than once
+  const answers = new Map<string, AnswerRecord>();
+  [...a.history, ...b.history].forEach((answer) =>
+    answers.set(answerKey(answer), answer),
+  );
+  const history = [...answers.values()]
+    .sort((x, y) => x.timestamp - y.timestamp)
+    .slice(-HISTORY_LIMIT);
+
+  const confusions = { ...a.confusions };
+  Object.entries(b.confusions).forEach(([chosen, count]) => {
+    confusions[chosen] = Math.max(confusions[chosen] ?? 0, count);
+  });
+
+  // Totals can't be told apart once counted, so the larger is kept
+  return {
+    attempts: Math.max(a.attempts, b.attempts),
+    correct: Math.max(a.correct, b.correct),
+    history,
+    confusions,
+    confidence: calculateConfidence(history),
+    lastSeen: Math.max(a.lastSeen, b.lastSeen),
+  };
+};
+
+// Combines mastery recorded on two devices for the same child
+export const mergeMastery = (a: MasteryData, b: MasteryData): MasteryData => {
+  const merged = createEmptyMastery();
+  MASTERY_DOMAINS.forEach((domain) => {
+    merged[domain] = { ...a[domain] };
+    Object.entries(b[domain]).forEach(([item, mastery]) => {
+      const existing = merged[domain][item];
+      merged[domain][item] = existing ? mergeItem(existing, mastery) : mastery;
+    });
+  });
+  return merged;
+};
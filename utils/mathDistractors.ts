@@ -0,0 +1,145 @@
+// Answer choices for the Math Fun bubble grid. Wrong answers can be picked at
+// random, or built from the mistakes children actually make so the right
+// answer can't be found just by ruling out silly numbers.
+
+import { MathProblem, ProblemType } from "./mathProblems";
+import { Random, shuffle } from "./random";
+
+export type DistractorStrategy = "random" | "mistakes";
+
+export type MistakeKind =
+  | "offByOne"
+  | "wrongOperation"
+  | "swappedDigits"
+  | "operands";
+
+export const MISTAKE_KINDS: MistakeKind[] = [
+  "offByOne",
+  "wrongOperation",
+  "swappedDigits",
+  "operands",
+];
+
+type AnswerChoiceOptions = {
+  // Total bubbles to fill, including the correct answer
+  count: number;
+  strategy: DistractorStrategy;
+  // Random choices are drawn from 0 up to at least this number
+  answerMax: number;
+  // Which mistakes to use with the "mistakes" strategy
+  mistakeKinds?: MistakeKind[];
+  random?: Random;
+};
+
+const range = (min: number, max: number) =>
+  Array.from({ length: Math.max(0, max - min + 1) }, (_, i) => min + i);
+
+const swapDigits = (value: number) =>
+  Number(`${value}`.split("").reverse().join(""));
+
+// What the child gets by applying the wrong operation to the numbers shown
+const wrongOperationAnswers = (problem: MathProblem): number[] => {
+  switch (problem.type) {
+    case ProblemType.ADDITION:
+      return [
+        Math.abs(problem.num1 - problem.num2),
+        problem.num1 * problem.num2,
+      ];
+    case ProblemType.SUBTRACTION:
+      return [problem.num1 + problem.num2];
+    case ProblemType.MULTIPLICATION:
+      return [problem.num1 + problem.num2];
+    case ProblemType.DIVISION:
+      return [problem.num1 - problem.num2];
+    case ProblemType.MISSING_OPERAND:
+      // Adding the numbers shown instead of finding the gap, or the reverse
+      return problem.operation === ProblemType.ADDITION
+        ? [problem.result + problem.num1]
+        : [problem.num1 + problem.result];
+    case ProblemType.COMPARISON:
+      return [];
+  }
+};
+
+// Numbers shown in the problem that aren't its answer
+const operandAnswers = (problem: MathProblem): number[] =>
+  problem.type === ProblemType.MISSING_OPERAND
+    ? [problem.num1, problem.result]
+    : [problem.num1, problem.num2];
+
+const MISTAKES: Record<MistakeKind, (problem: MathProblem) => number[]> = {
+  offByOne: ({ answer }) => [answer + 1, answer - 1],
+  wrongOperation: wrongOperationAnswers,
+  swappedDigits: ({ answer }) => (answer >= 10 ? [swapDigits(answer)] : []),
+  operands: operandAnswers,
+};
+
+/**
+ * Likely wrong answers for a problem from the chosen kinds of mistake.
+ * Values that could never be an answer (negative numbers, the answer itself)
+ * are left out.
+ */
+export const getMistakeAnswers = (
+  problem: MathProblem,
+  kinds: MistakeKind[] = MISTAKE_KINDS,
+): number[] => {
+  const answers = new Set<number>();
+  kinds.forEach((kind) =>
+    MISTAKES[kind](problem).forEach((value) => {
+      if (Number.isInteger(value) && value >= 0 && value !== problem.answer) {
+        answers.add(value);
+      }
+    }),
+  );
+  return Array.from(answers);
+};
+
+/**
+ * Builds the numbers for the bubble grid. The correct answer appears exactly
+ * once and every other number is a different non-negative whole number, so
+ * the grid is always `count` long.
+ */
+export const generateAnswerChoices = (
+  problem: MathProblem,
+  {
+    count,
+    strategy,
+    answerMax,
+    mistakeKinds = MISTAKE_KINDS,
+    random = Math.random,
+  }: AnswerChoiceOptions,
+): number[] => {
+  const { answer } = problem;
+  const distractors = new Set<number>();
+  const addDistractors = (values: number[]) =>
+    values.forEach((value) => {
+      if (distractors.size < count - 1 && value !== answer) {
+        distractors.add(value);
+      }
+    });
+
+  // A comparison only makes sense if the other number is there to pop
+  if (problem.type === ProblemType.COMPARISON) {
+    addDistractors(operandAnswers(problem));
+  }
+
+  if (strategy === "mistakes") {
+    addDistractors(shuffle(getMistakeAnswers(problem, mistakeKinds), random));
+
+    // Fill up with numbers close to the answer, nearest first
+    let distance = 1;
+    while (distractors.size < count - 1) {
+      const nearby = [answer - distance, answer + distance].filter(
+        (value) => value >= 0,
+      );
+      addDistractors(shuffle(nearby, random));
+      distance++;
+    }
+  } else {
+    // Any number in range, widened if the range is too small for the grid
+    const max = Math.max(answerMax, answer, count - 1);
+    addDistractors(shuffle(range(0, max), random));
+  }
+
+  return shuffle([answer, ...distractors], random);
+};
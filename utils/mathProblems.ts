@@ -0,0 +1,205 @@
+// Problems for the Math Fun game: generating them, and describing them on
+// screen and out loud.
+
+import { MessageKey, Translate } from "./i18n";
+import { Random, chance, randomInt } from "./random";
+
+export enum ProblemType {
+  ADDITION = "addition",
+  SUBTRACTION = "subtraction",
+  MULTIPLICATION = "multiplication",
+  DIVISION = "division",
+  MISSING_OPERAND = "missingOperand",
+  COMPARISON = "comparison",
+}
+
+export type Operation =
+  | ProblemType.ADDITION
+  | ProblemType.SUBTRACTION
+  | ProblemType.MULTIPLICATION
+  | ProblemType.DIVISION;
+
+// "num1 op num2 = ?"
+type ArithmeticProblem = {
+  type: Operation;
+  num1: number;
+  num2: number;
+  answer: number;
+};
+
+// "num1 op ? = result", where the answer is the hidden operand
+type MissingOperandProblem = {
+  type: ProblemType.MISSING_OPERAND;
+  operation: ProblemType.ADDITION | ProblemType.SUBTRACTION;
+  num1: number;
+  result: number;
+  answer: number;
+};
+
+// "Pop the bigger (or smaller) number"
+type ComparisonProblem = {
+  type: ProblemType.COMPARISON;
+  num1: number;
+  num2: number;
+  bigger: boolean;
+  answer: number;
+};
+
+export type MathProblem =
+  | ArithmeticProblem
+  | MissingOperandProblem
+  | ComparisonProblem;
+
+const SYMBOLS: Record<Operation, string> = {
+  [ProblemType.ADDITION]: "+",
+  [ProblemType.SUBTRACTION]: "-",
+  [ProblemType.MULTIPLICATION]: "×",
+  [ProblemType.DIVISION]: "÷",
+};
+
+const SPOKEN_OPERATIONS: Record<Operation, MessageKey> = {
+  [ProblemType.ADDITION]: "math.plus",
+  [ProblemType.SUBTRACTION]: "math.minus",
+  [ProblemType.MULTIPLICATION]: "math.times",
+  [ProblemType.DIVISION]: "math.dividedBy",
+};
+
+export const generateProblem = (
+  type: ProblemType,
+  operandMax: number,
+  random: Random = Math.random,
+): MathProblem => {
+  switch (type) {
+    case ProblemType.ADDITION: {
+      const num1 = randomInt(1, operandMax, random);
+      const num2 = randomInt(1, operandMax, random);
+      return { type, num1, num2, answer: num1 + num2 };
+    }
+    case ProblemType.SUBTRACTION: {
+      const num1 = randomInt(1, operandMax, random);
+      const num2 = randomInt(1, num1, random);
+      return { type, num1, num2, answer: num1 - num2 };
+    }
+    case ProblemType.MULTIPLICATION: {
+      const num1 = randomInt(1, operandMax, random);
+      const num2 = randomInt(1, operandMax, random);
+      return { type, num1, num2, answer: num1 * num2 };
+    }
+    case ProblemType.DIVISION: {
+      // Built from a multiplication so there is never a remainder
+      const divisor = randomInt(1, operandMax, random);
+      const quotient = randomInt(1, operandMax, random);
+      return {
+        type,
+        num1: divisor * quotient,
+        num2: divisor,
+        answer: quotient,
+      };
+    }
+    case ProblemType.MISSING_OPERAND: {
+      const num1 = randomInt(1, operandMax, random);
+      if (chance(0.5, random)) {
+        const answer = randomInt(1, operandMax, random);
+        return {
+          type,
+          operation: ProblemType.ADDITION,
+          num1,
+          result: num1 + answer,
+          answer,
+        };
+      }
+      const answer = randomInt(1, num1, random);
+      return {
+        type,
+        operation: ProblemType.SUBTRACTION,
+        num1,
+        result: num1 - answer,
+        answer,
+      };
+    }
+    case ProblemType.COMPARISON: {
+      const num1 = randomInt(1, operandMax, random);
+      let num2 = randomInt(1, Math.max(1, operandMax - 1), random);
+      if (num2 >= num1) num2 += 1;
+      const bigger = chance(0.5, random);
+      return {
+        type,
+        num1,
+        num2,
+        bigger,
+        answer: bigger ? Math.max(num1, num2) : Math.min(num1, num2),
+      };
+    }
+  }
+};
+
+// Short key for mastery tracking, e.g. "3×4", "3+?=7" or "bigger:7,4"
+export const getProblemKey = (problem: MathProblem) => {
+  switch (problem.type) {
+    case ProblemType.MISSING_OPERAND:
+      return `${problem.num1}${SYMBOLS[problem.operation]}?=${problem.result}`;
+    case ProblemType.COMPARISON:
+      return `${problem.bigger ? "bigger" : "smaller"}:${problem.num1},${problem.num2}`;
+    default:
+      return `${problem.num1}${SYMBOLS[problem.type]}${problem.num2}`;
+  }
+};
+
+export const getProblemText = (problem: MathProblem, t: Translate) => {
+  switch (problem.type) {
+    case ProblemType.MISSING_OPERAND:
+      return `${problem.num1} ${SYMBOLS[problem.operation]} ? = ${problem.result}`;
+    case ProblemType.COMPARISON:
+      return t(problem.bigger ? "math.biggerText" : "math.smallerText", {
+        a: problem.num1,
+        b: problem.num2,
+      });
+    default:
+      return `${problem.num1} ${SYMBOLS[problem.type]} ${problem.num2} = ?`;
+  }
+};
+
+// The problem read out as an instruction, e.g. "Pop 3 plus 2"
+export const getProblemSpeech = (problem: MathProblem, t: Translate) => {
+  switch (problem.type) {
+    case ProblemType.MISSING_OPERAND:
+      return t("math.missingPrompt", {
+        a: problem.num1,
+        op: t(SPOKEN_OPERATIONS[problem.operation]),
+        result: problem.result,
+      });
+    case ProblemType.COMPARISON:
+      return t(problem.bigger ? "math.biggerPrompt" : "math.smallerPrompt", {
+        a: problem.num1,
+        b: problem.num2,
+      });
+    default:
+      return t("math.prompt", {
+        a: problem.num1,
+        op: t(SPOKEN_OPERATIONS[problem.type]),
+        b: problem.num2,
+      });
+  }
+};
+
+export const getAnswerSpeech = (problem: MathProblem, t: Translate) => {
+  switch (problem.type) {
+    case ProblemType.MISSING_OPERAND:
+      return t("math.missingCorrect", {
+        a: problem.num1,
+        op: t(SPOKEN_OPERATIONS[problem.operation]),
+        answer: problem.answer,
+        result: problem.result,
+      });
+    case ProblemType.COMPARISON: {
+      const other =
+        problem.answer === problem.num1 ? problem.num2 : problem.num1;
+      return t(problem.bigger ? "math.biggerCorrect" : "math.smallerCorrect", {
+        answer: problem.answer,
+        other,
+      });
+    }
+    default:
+      return t("math.correct", { answer: problem.answer });
+  }
+};
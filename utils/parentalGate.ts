@@ -0,0 +1,74 @@
+// Parental gate configuration: which grown-up actions are protected, and the
+// challenge a child is unlikely to pass that stands in front of each one.
+
+import { MessageKey, Translate } from "./i18n";
+import { Random } from "./random";
+
+export type GatedAction =
+  | "settings"
+  | "dashboard"
+  | "reset"
+  | "externalLink"
+  | "exitGame";
+
+export const GATED_ACTIONS: GatedAction[] = [
+  "settings",
+  "dashboard",
+  "reset",
+  "externalLink",
+  "exitGame",
+];
+
+export type GateChallenge = "none" | "hold" | "arithmetic";
+
+export const GATE_CHALLENGES: GateChallenge[] = ["none", "hold", "arithmetic"];
+
+export type ParentalGateConfig = Record<GatedAction, GateChallenge>;
+
+export const DEFAULT_GATE_CONFIG: ParentalGateConfig = {
+  settings: "hold",
+  dashboard: "hold",
+  reset: "arithmetic",
+  externalLink: "arithmetic",
+  // Leaving a game stays one tap unless a parent turns this on
+  exitGame: "none",
+};
+
+// How long the hold challenge has to be held down
+export const HOLD_DURATION_MS = 3000;
+
+export type ArithmeticChallenge = {
+  question: string;
+  answer: number;
+};
+
+// Numbers are spelled out so children who know their digits can't just copy
+const NUMBER_WORDS: Record<number, MessageKey> = {
+  3: "gate.number.3",
+  4: "gate.number.4",
+  5: "gate.number.5",
+  6: "gate.number.6",
+  7: "gate.number.7",
+  8: "gate.number.8",
+  9: "gate.number.9",
+  10: "gate.number.10",
+  11: "gate.number.11",
+  12: "gate.number.12",
+};
+
+// A times-table question too hard for young children but quick for adults
+export const createArithmeticChallenge = (
+  t: Translate,
+  random: Random = Math.random,
+): ArithmeticChallenge => {
+  const pick = () => 3 + Math.floor(random() * 10);
+  const num1 = pick();
+  const num2 = pick();
+  return {
+    question: t("gate.question", {
+      a: t(NUMBER_WORDS[num1]),
+      b: t(NUMBER_WORDS[num2]),
+    }),
+    answer: num1 * num2,
+  };
+};
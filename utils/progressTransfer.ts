@@ -0,0 +1,296 @@
+// Moving progress between devices: a versioned JSON export that can be
+// imported and merged on another device, and a CSV summary for spreadsheets.
+
+import { mergeAchievements } from "./achievements";
+import { ADAPTIVE_MODES, DifficultyData } from "./adaptiveDifficulty";
+import { mergeDailyData } from "./dailyChallenge";
+import { DEFAULT_LOCALE, MessageKey, translate } from "./i18n";
+import { MASTERY_DOMAINS, mergeMastery } from "./mastery";
+import { mergeBests } from "./results";
+import { mergeEventLogs } from "./sessionEvents";
+import {
+  SESSION_MODES,
+  mergeSessions,
+  summarizeByMode,
+} from "./sessionHistory";
+import { mergeRepetition } from "./spacedRepetition";
+import { mergeSpelling } from "./spelling";
+import { mergeStickerBooks } from "./stickers";
+import {
+  Profile,
+  ProfileStats,
+  SCHEMA_VERSION,
+  isRecord,
+  migrateData,
+  validateProfiles,
+} from "./storage";
+
+export const EXPORT_FORMAT = "pop-and-learn-progress";
+// Bumped when the layout of the export itself changes. Profile data inside
+// it follows the storage schema version and is migrated the same way.
+export const EXPORT_VERSION = 1;
+
+// Why pasted text couldn't be imported, as a message for the grown-up
+export class ImportError extends Error {
+  readonly key: MessageKey;
+
+  constructor(key: MessageKey) {
+    super(translate(DEFAULT_LOCALE, key));
+    this.name = "ImportError";
+    this.key = key;
+  }
+}
+
+export type ProgressExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  profiles: Profile[];
+};
+
+export const createExport = (
+  profiles: Profile[],
+  now = Date.now(),
+): ProgressExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: now,
+  profiles,
+});
+
+export const serializeExport = (data: ProgressExport) =>
+  JSON.stringify(data, null, 2);
+
+/**
+ * Reads an export back into profiles. Throws an ImportError when the text
+ * isn't an export this version of the app understands. Individual bad values
+ * are repaired the same way saved data is.
+ */
+export const parseExport = (text: string): Profile[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ImportError("transfer.notExport");
+  }
+
+  if (
+    !isRecord(raw) ||
+    raw.format !== EXPORT_FORMAT ||
+    typeof raw.version !== "number"
+  ) {
+    throw new ImportError("transfer.notExport");
+  }
+  const schemaVersion =
+    typeof raw.schemaVersion === "number" ? raw.schemaVersion : SCHEMA_VERSION;
+  if (raw.version > EXPORT_VERSION || schemaVersion > SCHEMA_VERSION) {
+    throw new ImportError("transfer.newerVersion");
+  }
+
+  const migrated = migrateData(
+    { version: schemaVersion, profiles: raw.profiles },
+    schemaVersion,
+  );
+  const profiles = validateProfiles(
+    isRecord(migrated) ? migrated.profiles : null,
+  );
+
+  if (profiles.length === 0) {
+    throw new ImportError("transfer.noPlayers");
+  }
+  return profiles;
+};
+
+// --- Merging ---
+
+const mergeStats = (a: ProfileStats, b: ProfileStats): ProfileStats => {
+  const merged = { ...a };
+  (Object.keys(b) as (keyof ProfileStats)[]).forEach((key) => {
+    merged[key] = Math.max(a[key], b[key]);
+  });
+  return merged;
+};
+
+// A level a parent has locked stays; otherwise the further one is kept
+const mergeDifficulty = (
+  a: DifficultyData,
+  b: DifficultyData,
+): DifficultyData => {
+  const merged = { ...a };
+  ADAPTIVE_MODES.forEach((mode) => {
+    if (!a[mode].locked && b[mode].level > a[mode].level) {
+      merged[mode] = b[mode];
+    }
+  });
+  return merged;
+};
+
+/**
+ * Combines an imported profile into one already on this device. Counters
+ * take the larger value and histories are joined without duplicates, so
+ * importing the same file twice changes nothing. This device's settings
+ * and today's screen time are kept.
+ */
+export const mergeProfile = (
+  existing: Profile,
+  incoming: Profile,
+): Profile => ({
+  ...existing,
+  stats: mergeStats(existing.stats, incoming.stats),
+  mastery: mergeMastery(existing.mastery, incoming.mastery),
+  difficulty: mergeDifficulty(existing.difficulty, incoming.difficulty),
+  repetition: mergeRepetition(existing.repetition, incoming.repetition),
+  spelling: mergeSpelling(existing.spelling, incoming.spelling),
+  sessions: mergeSessions(existing.sessions, incoming.sessions),
+  eventLogs: mergeEventLogs(existing.eventLogs, incoming.eventLogs),
+  bests: mergeBests(existing.bests, incoming.bests),
+  stickerBook: mergeStickerBooks(existing.stickerBook, incoming.stickerBook),
+  achievements: mergeAchievements(existing.achievements, incoming.achievements),
+  daily: mergeDailyData(existing.daily, incoming.daily),
+});
+
+export type ImportResult = {
+  profiles: Profile[];
+  added: string[];
+  merged: string[];
+};
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Imported players are matched to existing ones by id, then by name; any
+// without a match are added as new players
+export const importProfiles = (
+  profiles: Profile[],
+  incoming: Profile[],
+): ImportResult => {
+  const result: ImportResult = {
+    profiles: [...profiles],
+    added: [],
+    merged: [],
+  };
+
+  incoming.forEach((profile) => {
+    const byId = result.profiles.findIndex(({ id }) => id === profile.id);
+    const index =
+      byId !== -1
+        ? byId
+        : result.profiles.findIndex(({ name }) => sameName(name, profile.name));
+
+    if (index === -1) {
+      result.profiles.push(profile);
+      result.added.push(profile.name);
+    } else {
+      result.profiles[index] = mergeProfile(result.profiles[index], profile);
+      result.merged.push(result.profiles[index].name);
+    }
+  });
+  return result;
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  "Player",
+  "Section",
+  "Item",
+  "Value",
+  "Attempts",
+  "Correct",
+  "Accuracy",
+  "Last Seen",
+];
+
+const STAT_LABELS: Record<keyof ProfileStats, string> = {
+  totalPops: "Total Pops",
+  shapesCompleted: "Shapes Completed",
+  colorsLearned: "Colors Learned",
+  lettersLearned: "Letters & Numbers Learned",
+  mathProblemsCompleted: "Math Problems",
+  highScore: "Speed High Score",
+  starsEarned: "Stars Earned",
+};
+
+type CsvValue = string | number | null;
+
+const escapeCsv = (value: CsvValue) => {
+  if (value === null) return "";
+  const text = `${value}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatDate = (time: number) =>
+  time > 0 ? new Date(time).toISOString().slice(0, 10) : null;
+
+const formatPercent = (value: number | null) =>
+  value === null ? null : Math.round(value * 100);
+
+const formatAccuracy = (correct: number, attempts: number) =>
+  attempts > 0 ? formatPercent(correct / attempts) : null;
+
+const profileRows = (profile: Profile): CsvValue[][] => {
+  const rows: CsvValue[][] = [];
+  const row = (...values: CsvValue[]) => rows.push([profile.name, ...values]);
+
+  (Object.keys(STAT_LABELS) as (keyof ProfileStats)[]).forEach((key) =>
+    row("Totals", STAT_LABELS[key], profile.stats[key], null, null, null, null),
+  );
+
+  // Value is the confidence score, as a percentage
+  MASTERY_DOMAINS.forEach((domain) =>
+    Object.entries(profile.mastery[domain]).forEach(([item, mastery]) =>
+      row(
+        domain,
+        item,
+        formatPercent(mastery.confidence),
+        mastery.attempts,
+        mastery.correct,
+        formatAccuracy(mastery.correct, mastery.attempts),
+        formatDate(mastery.lastSeen),
+      ),
+    ),
+  );
+
+  // Value is how many times the word was spelled
+  Object.entries(profile.spelling).forEach(([word, completed]) =>
+    row(
+      "word",
+      word,
+      completed.count,
+      null,
+      null,
+      null,
+      formatDate(completed.lastCompleted),
+    ),
+  );
+
+  // Value is the minutes played
+  const modeSummaries = summarizeByMode(profile.sessions, 0);
+  SESSION_MODES.forEach((mode) => {
+    const summary = modeSummaries[mode];
+    if (summary.sessions === 0) return;
+
+    const lastPlayed = profile.sessions
+      .filter((session) => session.mode === mode)
+      .reduce((latest, session) => Math.max(latest, session.startedAt), 0);
+    row(
+      "time played",
+      mode,
+      Math.round(summary.durationMs / 60000),
+      summary.attempts,
+      summary.correct,
+      formatAccuracy(summary.correct, summary.attempts),
+      formatDate(lastPlayed),
+    );
+  });
+
+  return rows;
+};
+
+// One row per total, item, word and game, for every player
+export const createCsvSummary = (profiles: Profile[]) =>
+  [CSV_COLUMNS, ...profiles.flatMap(profileRows)]
+    .map((values) => values.map(escapeCsv).join(","))
+    .join("\n");
@@ -0,0 +1,55 @@
+// Random choices for the games. Every helper takes the random source to use,
+// so a seeded one makes a round come out the same every time: for daily
+// challenges, bug reports and tests. Without one they use Math.random.
+
+// Returns numbers from 0 up to (but not including) 1, like Math.random
+export type Random = () => number;
+
+// Turns text, like a date, into a seed (32-bit FNV-1a)
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// A small, fast generator (mulberry32); plenty for games
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A whole number from min to max, inclusive
+export const randomInt = (
+  min: number,
+  max: number,
+  random: Random = Math.random,
+) => Math.floor(random() * (max - min + 1)) + min;
+
+export const pickOne = <T>(items: readonly T[], random: Random = Math.random) =>
+  items[Math.floor(random() * items.length)];
+
+// True about `probability` of the time
+export const chance = (probability: number, random: Random = Math.random) =>
+  random() < probability;
+
+// A shuffled copy (Fisher–Yates), leaving the original as it was
+export const shuffle = <T>(
+  items: readonly T[],
+  random: Random = Math.random,
+) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,128 @@
+// How a finished game is scored: stars from each mode's rules, personal
+// bests and the rewards shown on the results screen.
+
+import { MessageKey, Translate } from "./i18n";
+import { SessionMode } from "./sessionHistory";
+
+export type GameSummary = {
+  mode: SessionMode;
+  score: number;
+  // Answers given, for games that ask the child to find something
+  correct: number;
+  attempts: number;
+  durationMs: number;
+};
+
+export type BestKind = "score" | "accuracy";
+
+export type GameResult = GameSummary & {
+  // Null when the game had no right or wrong answers
+  accuracy: number | null;
+  stars: number;
+  newBests: BestKind[];
+};
+
+export type PersonalBest = {
+  score: number;
+  accuracy: number | null;
+  stars: number;
+};
+
+export type PersonalBests = Partial<Record<SessionMode, PersonalBest>>;
+
+export type Reward = {
+  emoji: string;
+  label: string;
+};
+
+// Finishing always earns one star; meeting each threshold earns another
+type StarRule = {
+  measure: "score" | "accuracy";
+  thresholds: [number, number];
+};
+
+export const MAX_STARS = 3;
+
+const STAR_RULES: Record<SessionMode, StarRule> = {
+  freePop: { measure: "score", thresholds: [20, 40] },
+  colors: { measure: "score", thresholds: [40, 80] },
+  abc: { measure: "accuracy", thresholds: [0.7, 0.9] },
+  math: { measure: "accuracy", thresholds: [0.7, 0.9] },
+  speed: { measure: "score", thresholds: [25, 45] },
+  balloon: { measure: "accuracy", thresholds: [0.6, 0.85] },
+};
+
+const getSummaryAccuracy = ({ correct, attempts }: GameSummary) =>
+  attempts > 0 ? correct / attempts : null;
+
+export const rateGame = (summary: GameSummary) => {
+  const { measure, thresholds } = STAR_RULES[summary.mode];
+  const value =
+    measure === "score" ? summary.score : getSummaryAccuracy(summary);
+  if (value === null) return 1;
+  return 1 + thresholds.filter((threshold) => value >= threshold).length;
+};
+
+// Bests only count as new once there's an earlier game to beat
+export const evaluateGame = (
+  summary: GameSummary,
+  previous: PersonalBest | undefined,
+): GameResult => {
+  const accuracy = getSummaryAccuracy(summary);
+  const newBests: BestKind[] = [];
+  if (previous && summary.score > previous.score) {
+    newBests.push("score");
+  }
+  if (
+    previous &&
+    accuracy !== null &&
+    (previous.accuracy === null || accuracy > previous.accuracy)
+  ) {
+    newBests.push("accuracy");
+  }
+
+  return { ...summary, accuracy, stars: rateGame(summary), newBests };
+};
+
+const maxAccuracy = (a: number | null, b: number | null) =>
+  a === null ? b : b === null ? a : Math.max(a, b);
+
+export const mergeBest = (
+  a: PersonalBest | undefined,
+  b: PersonalBest,
+): PersonalBest =>
+  a
+    ? {
+        score: Math.max(a.score, b.score),
+        accuracy: maxAccuracy(a.accuracy, b.accuracy),
+        stars: Math.max(a.stars, b.stars),
+      }
+    : b;
+
+export const mergeBests = (
+  a: PersonalBests,
+  b: PersonalBests,
+): PersonalBests => {
+  const merged = { ...a };
+  (Object.keys(b) as SessionMode[]).forEach((mode) => {
+    merged[mode] = mergeBest(a[mode], b[mode]!);
+  });
+  return merged;
+};
+
+export const getRewards = (result: GameResult, t: Translate): Reward[] => [
+  { emoji: "⭐", label: t("results.starReward", { count: result.stars }) },
+];
+
+export const BEST_LABELS: Record<BestKind, MessageKey> = {
+  score: "results.bestScore",
+  accuracy: "results.bestAccuracy",
+};
+
+// What's read out when the results appear
+export const describeResult = (result: GameResult, t: Translate) =>
+  [
+    t("results.stars", { count: result.stars }),
+    t("results.score", { score: result.score }),
+    ...result.newBests.map((kind) => `${t(BEST_LABELS[kind])}!`),
+  ].join(" ");
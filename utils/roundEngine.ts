@@ -0,0 +1,143 @@
+// The round life cycle every game shares. Games supply their rules; this
+// decides when rounds start, end, pause and run out of time.
+//
+//   idle ─start─▶ intro ─beginPlay─▶ playing ─completeRound─▶ roundComplete
+//                   ▲                   │ time up / finish          │
+//                   └──── nextRound ────┼───────────────────────────┘
+//                                       ▼
+//                                    results ─start─▶ intro …
+//
+// Games with a set number of rounds go to results after the last one.
+// intro, playing and roundComplete can all be paused, and resume where they
+// left off.
+
+export type RoundPhase =
+  | "idle"
+  | "intro"
+  | "playing"
+  | "paused"
+  | "roundComplete"
+  | "results";
+
+export type RoundState = {
+  phase: RoundPhase;
+  // Counts from 1 within a game
+  round: number;
+  // Goes up with every round ever started, so restarts can be told apart
+  roundId: number;
+  // Null when rounds aren't timed
+  timeRemainingMs: number | null;
+  // Where a paused game goes back to
+  resumePhase: RoundPhase | null;
+};
+
+export type RoundEngineConfig = {
+  // How long each round lasts, or null for no time limit
+  roundDurationMs: number | null;
+  // Rounds start with an intro (like announcing the target) when set
+  hasIntro: boolean;
+  // The game ends after this many rounds, or null to keep going
+  roundsPerGame: number | null;
+};
+
+export type RoundAction =
+  | { type: "start" }
+  | { type: "beginPlay" }
+  | { type: "tick"; elapsedMs: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "completeRound" }
+  | { type: "nextRound" }
+  | { type: "finish" }
+  | { type: "reset" };
+
+const PAUSABLE_PHASES: RoundPhase[] = ["intro", "playing", "roundComplete"];
+
+export const isPausable = (phase: RoundPhase) =>
+  PAUSABLE_PHASES.includes(phase);
+
+export const createRoundState = (): RoundState => ({
+  phase: "idle",
+  round: 0,
+  roundId: 0,
+  timeRemainingMs: null,
+  resumePhase: null,
+});
+
+const beginRound = (
+  state: RoundState,
+  round: number,
+  config: RoundEngineConfig,
+): RoundState => ({
+  phase: config.hasIntro ? "intro" : "playing",
+  round,
+  roundId: state.roundId + 1,
+  timeRemainingMs: config.roundDurationMs,
+  resumePhase: null,
+});
+
+// Actions that don't make sense in the current phase leave it unchanged
+export const roundReducer = (
+  state: RoundState,
+  action: RoundAction,
+  config: RoundEngineConfig,
+): RoundState => {
+  switch (action.type) {
+    case "start":
+      return beginRound(state, 1, config);
+
+    case "beginPlay":
+      return state.phase === "intro" ? { ...state, phase: "playing" } : state;
+
+    case "tick": {
+      if (state.phase !== "playing" || state.timeRemainingMs === null) {
+        return state;
+      }
+      const timeRemainingMs = Math.max(
+        0,
+        state.timeRemainingMs - action.elapsedMs,
+      );
+      return {
+        ...state,
+        timeRemainingMs,
+        phase: timeRemainingMs === 0 ? "results" : "playing",
+      };
+    }
+
+    case "pause":
+      return isPausable(state.phase)
+        ? { ...state, phase: "paused", resumePhase: state.phase }
+        : state;
+
+    case "resume":
+      return state.phase === "paused" && state.resumePhase
+        ? { ...state, phase: state.resumePhase, resumePhase: null }
+        : state;
+
+    case "completeRound":
+      return state.phase === "playing"
+        ? { ...state, phase: "roundComplete" }
+        : state;
+
+    case "nextRound":
+      if (state.phase !== "playing" && state.phase !== "roundComplete") {
+        return state;
+      }
+      return config.roundsPerGame !== null &&
+        state.round >= config.roundsPerGame
+        ? { ...state, phase: "results" }
+        : beginRound(state, state.round + 1, config);
+
+    case "finish":
+      return state.phase === "idle"
+        ? state
+        : { ...state, phase: "results", resumePhase: null };
+
+    case "reset":
+      return { ...createRoundState(), roundId: state.roundId };
+  }
+};
+
+// Whether a round ended by running out of time, rather than being finished
+export const isTimeUp = (state: RoundState) =>
+  state.phase === "results" && state.timeRemainingMs === 0;
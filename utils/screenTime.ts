@@ -0,0 +1,84 @@
+// Daily screen-time limits: how much a child has played today, and how much
+// of their allowance is left.
+
+const MINUTE = 60 * 1000;
+
+// Daily limits a parent can choose from, in minutes. null means no limit.
+export const DAILY_LIMIT_OPTIONS: (number | null)[] = [
+  null,
+  15,
+  30,
+  45,
+  60,
+  90,
+  120,
+];
+
+// Spoken warnings are given as the remaining time passes each of these
+export const WARNING_TIMES_MS = [5 * MINUTE, 1 * MINUTE];
+
+// Added to today's allowance when a grown-up ends a rest early
+export const EXTRA_TIME_MS = 15 * MINUTE;
+
+export type ScreenTimeData = {
+  // Local date the counts belong to, as YYYY-MM-DD
+  day: string;
+  playedMs: number;
+  extraMs: number;
+};
+
+export const getDayKey = (time: number) => {
+  const date = new Date(time);
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const createEmptyScreenTime = (now = Date.now()): ScreenTimeData => ({
+  day: getDayKey(now),
+  playedMs: 0,
+  extraMs: 0,
+});
+
+// Yesterday's play doesn't count against today
+const forToday = (data: ScreenTimeData, now: number) =>
+  data.day === getDayKey(now) ? data : createEmptyScreenTime(now);
+
+export const addPlayTime = (
+  data: ScreenTimeData,
+  ms: number,
+  now = Date.now(),
+): ScreenTimeData => {
+  const today = forToday(data, now);
+  return { ...today, playedMs: today.playedMs + ms };
+};
+
+export const addExtraTime = (
+  data: ScreenTimeData,
+  ms: number,
+  now = Date.now(),
+): ScreenTimeData => {
+  const today = forToday(data, now);
+  return { ...today, extraMs: today.extraMs + ms };
+};
+
+export const getPlayedToday = (data: ScreenTimeData, now = Date.now()) =>
+  forToday(data, now).playedMs;
+
+// Time left to play today, or null when there is no limit. Can go below zero.
+export const getRemainingMs = (
+  data: ScreenTimeData,
+  dailyLimit: number | null,
+  now = Date.now(),
+  unsavedMs = 0,
+) => {
+  if (dailyLimit === null) return null;
+  const today = forToday(data, now);
+  return dailyLimit * MINUTE + today.extraMs - today.playedMs - unsavedMs;
+};
+
+// The most urgent warning time passed when the remaining time dropped from
+// previous to current, if any
+export const getPassedWarning = (previous: number, current: number) =>
+  WARNING_TIMES_MS.filter((time) => previous > time && current <= time).pop() ??
+  null;
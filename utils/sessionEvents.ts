@@ -0,0 +1,73 @@
+import { SessionMode } from "./sessionHistory";
+
+// A timeline of what happened during a session, kept for the most recent
+// sessions so problems like a game that stopped responding can be traced.
+
+export type SessionEventInput =
+  | { type: "roundStart"; target?: string; level?: number }
+  // completed is false when a round ends some other way, like running out
+  // of time
+  | { type: "roundEnd"; completed: boolean; score?: number }
+  // correct is null for pops that have no right answer, like in Free Pop
+  | { type: "pop"; item: string; correct: boolean | null; latencyMs?: number }
+  | { type: "hint"; item?: string }
+  | { type: "pause" }
+  | { type: "resume" };
+
+export type SessionEventType = SessionEventInput["type"];
+
+export const SESSION_EVENT_TYPES: SessionEventType[] = [
+  "roundStart",
+  "roundEnd",
+  "pop",
+  "hint",
+  "pause",
+  "resume",
+];
+
+// Logged events always have a time, and pops always have a latency
+export type SessionEvent = (
+  | Exclude<SessionEventInput, { type: "pop" }>
+  | {
+      type: "pop";
+      item: string;
+      correct: boolean | null;
+      latencyMs: number;
+    }
+) & { time: number };
+
+export type SessionLog = {
+  mode: SessionMode;
+  startedAt: number;
+  events: SessionEvent[];
+};
+
+// Only the latest events of a very long session are kept. Logs are saved
+// with the rest of the profile in one storage value, which Android can't
+// read back once it grows past about 2MB, so these stay small.
+export const MAX_EVENTS_PER_LOG = 200;
+export const MAX_LOGS = 5;
+
+export const appendEvent = (
+  events: SessionEvent[],
+  event: SessionEvent,
+): SessionEvent[] => [...events, event].slice(-MAX_EVENTS_PER_LOG);
+
+// Adds a finished log, keeping only the most recent ones. Empty logs are
+// dropped since there's nothing in them to look back on.
+export const addEventLog = (
+  logs: SessionLog[],
+  log: SessionLog,
+): SessionLog[] =>
+  log.events.length === 0 ? logs : [...logs, log].slice(-MAX_LOGS);
+
+export const mergeEventLogs = (
+  a: SessionLog[],
+  b: SessionLog[],
+): SessionLog[] => {
+  const logs = new Map<string, SessionLog>();
+  [...a, ...b].forEach((log) => logs.set(`${log.mode}-${log.startedAt}`, log));
+  return [...logs.values()]
+    .sort((x, y) => x.startedAt - y.startedAt)
+    .slice(-MAX_LOGS);
+};
@@ -0,0 +1,164 @@
+// Time-stamped history of play sessions, kept per profile for the parent
+// dashboard. Each visit to a game screen is one session.
+
+export type SessionMode =
+  | "freePop"
+  | "colors"
+  | "abc"
+  | "math"
+  | "speed"
+  | "balloon";
+
+export const SESSION_MODES: SessionMode[] = [
+  "freePop",
+  "colors",
+  "abc",
+  "math",
+  "speed",
+  "balloon",
+];
+
+export type SessionRecord = {
+  mode: SessionMode;
+  startedAt: number;
+  durationMs: number;
+  // Answers given, for games that ask the child to find something
+  attempts: number;
+  correct: number;
+};
+
+export type SessionSummary = {
+  durationMs: number;
+  attempts: number;
+  correct: number;
+  sessions: number;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Sessions older than this are dropped, and never more than this many kept
+const HISTORY_DAYS = 120;
+const MAX_SESSIONS = 2000;
+// Shorter visits with no answers are just children passing through
+const MIN_SESSION_MS = 5000;
+
+export const createEmptySummary = (): SessionSummary => ({
+  durationMs: 0,
+  attempts: 0,
+  correct: 0,
+  sessions: 0,
+});
+
+// Drops sessions that are too old, keeping the most recent ones
+export const pruneSessions = (history: SessionRecord[], now = Date.now()) => {
+  const cutoff = now - HISTORY_DAYS * DAY;
+  return history
+    .filter((record) => record.startedAt >= cutoff)
+    .slice(-MAX_SESSIONS);
+};
+
+export const addSession = (
+  history: SessionRecord[],
+  session: SessionRecord,
+  now = Date.now(),
+): SessionRecord[] => {
+  if (session.durationMs < MIN_SESSION_MS && session.attempts === 0) {
+    return history;
+  }
+  return pruneSessions([...history, session], now);
+};
+
+// Combines two histories; a session found in both only counts once
+export const mergeSessions = (
+  a: SessionRecord[],
+  b: SessionRecord[],
+  now = Date.now(),
+): SessionRecord[] => {
+  const sessions = new Map<string, SessionRecord>();
+  [...a, ...b].forEach((record) =>
+    sessions.set(`${record.mode}-${record.startedAt}`, record),
+  );
+  return pruneSessions(
+    [...sessions.values()].sort((x, y) => x.startedAt - y.startedAt),
+    now,
+  );
+};
+
+// Share of answers that were correct, or null when there were none
+export const getAccuracy = (summary: SessionSummary) =>
+  summary.attempts > 0 ? summary.correct / summary.attempts : null;
+
+const addToSummary = (summary: SessionSummary, record: SessionRecord) => {
+  summary.durationMs += record.durationMs;
+  summary.attempts += record.attempts;
+  summary.correct += record.correct;
+  summary.sessions += 1;
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+export type PeriodSummary = SessionSummary & {
+  // Local midnight at the start of the day or week
+  start: number;
+};
+
+export type Period = "day" | "week";
+
+/**
+ * Totals for each of the last `count` days or weeks, oldest first and ending
+ * with the current one. Periods without any play are included as zeros so
+ * charts keep an even spacing.
+ */
+export const summarizeByPeriod = (
+  history: SessionRecord[],
+  period: Period,
+  count: number,
+  now = Date.now(),
+  mode?: SessionMode,
+): PeriodSummary[] => {
+  const startOf = period === "day" ? startOfDay : startOfWeek;
+  const current = startOf(now);
+  const periods: PeriodSummary[] = Array.from({ length: count }, (_, i) => {
+    const date = new Date(current);
+    if (period === "day") {
+      date.setDate(date.getDate() - (count - 1 - i));
+    } else {
+      date.setDate(date.getDate() - (count - 1 - i) * 7);
+    }
+    return { ...createEmptySummary(), start: date.getTime() };
+  });
+
+  history.forEach((record) => {
+    if (mode && record.mode !== mode) return;
+    const start = startOf(record.startedAt);
+    const summary = periods.find((p) => p.start === start);
+    if (summary) addToSummary(summary, record);
+  });
+  return periods;
+};
+
+// Totals for each mode played since the given time
+export const summarizeByMode = (
+  history: SessionRecord[],
+  since = 0,
+): Record<SessionMode, SessionSummary> => {
+  const summaries = Object.fromEntries(
+    SESSION_MODES.map((mode) => [mode, createEmptySummary()]),
+  ) as Record<SessionMode, SessionSummary>;
+
+  history.forEach((record) => {
+    if (record.startedAt >= since) addToSummary(summaries[record.mode], record);
+  });
+  return summaries;
+};
@@ -0,0 +1,112 @@
+// Leitner-box scheduler for choosing what a child practises next. Items the
+// child gets wrong drop back to the first box and come round again soon;
+// items they keep getting right move up and are seen less and less often.
+
+export type RepetitionDeck =
+  | "letter"
+  | "number"
+  | "letterSound"
+  | "letterMatch"
+  | "word";
+
+export const REPETITION_DECKS: RepetitionDeck[] = [
+  "letter",
+  "number",
+  "letterSound",
+  "letterMatch",
+  "word",
+];
+
+export type LeitnerCard = {
+  box: number;
+  lastSeen: number;
+};
+
+export type RepetitionData = Record<
+  RepetitionDeck,
+  Record<string, LeitnerCard>
+>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How long a card waits in each box before it is due again
+const BOX_INTERVALS_MS = [0, 2 * MINUTE, 10 * MINUTE, DAY, 3 * DAY];
+
+export const MIN_BOX = 1;
+export const MAX_BOX = BOX_INTERVALS_MS.length;
+
+export const createEmptyRepetition = (): RepetitionData => ({
+  letter: {},
+  number: {},
+  letterSound: {},
+  letterMatch: {},
+  word: {},
+});
+
+export const clampBox = (box: number) =>
+  Math.min(MAX_BOX, Math.max(MIN_BOX, Math.round(box)));
+
+export const reviewCard = (
+  card: LeitnerCard | undefined,
+  correct: boolean,
+  now: number,
+): LeitnerCard => ({
+  box: correct ? clampBox((card?.box ?? MIN_BOX - 1) + 1) : MIN_BOX,
+  lastSeen: now,
+});
+
+const dueAt = (card: LeitnerCard) =>
+  card.lastSeen + BOX_INTERVALS_MS[clampBox(card.box) - 1];
+
+/**
+ * Picks the next item to practise: due cards from the lowest box first, then
+ * the next item the child has never seen (in the deck's usual order), then
+ * whichever card is closest to being due. The previous item is skipped so
+ * the same target never comes up twice in a row.
+ */
+export const selectNextItem = (
+  cards: Record<string, LeitnerCard>,
+  items: string[],
+  now: number,
+  previous?: string,
+): string => {
+  const candidates =
+    items.length > 1 ? items.filter((item) => item !== previous) : items;
+
+  const seen = candidates.filter((item) => cards[item]);
+  const due = seen
+    .filter((item) => dueAt(cards[item]) <= now)
+    .sort(
+      (a, b) =>
+        cards[a].box - cards[b].box || dueAt(cards[a]) - dueAt(cards[b]),
+    );
+
+  // Struggling items always come before anything new
+  if (due.length > 0 && cards[due[0]].box === MIN_BOX) return due[0];
+
+  const unseen = candidates.find((item) => !cards[item]);
+  if (unseen !== undefined) return unseen;
+
+  if (due.length > 0) return due[0];
+
+  return seen.sort((a, b) => dueAt(cards[a]) - dueAt(cards[b]))[0];
+};
+
+// Combines two devices' cards, keeping whichever of each was reviewed last
+export const mergeRepetition = (
+  a: RepetitionData,
+  b: RepetitionData,
+): RepetitionData => {
+  const merged = createEmptyRepetition();
+  REPETITION_DECKS.forEach((deck) => {
+    merged[deck] = { ...a[deck] };
+    Object.entries(b[deck]).forEach(([item, card]) => {
+      const existing = merged[deck][item];
+      if (!existing || card.lastSeen > existing.lastSeen) {
+        merged[deck][item] = card;
+      }
+    });
+  });
+  return merged;
+};
@@ -0,0 +1,70 @@
+// Sight words for the spelling mode of the ABC & 123 game, and a record of
+// the words each child has spelled.
+
+import { MIN_LEVEL, clampLevel } from "./adaptiveDifficulty";
+
+// Words to spell at each difficulty level, easiest first
+export type WordLists = Record<number, string[]>;
+
+export const DEFAULT_WORD_LISTS: WordLists = {
+  1: ["CAT", "DOG", "SUN", "HAT", "BUS", "PIG", "CUP", "BED"],
+  2: ["FISH", "DUCK", "FROG", "BALL", "CAKE", "TREE", "MOON", "STAR"],
+  3: ["THE", "AND", "YOU", "SEE", "CAN", "LOOK", "PLAY", "LIKE"],
+  4: ["APPLE", "HOUSE", "TRAIN", "HORSE", "SMILE", "CLOUD", "PLANT", "SHEEP"],
+  5: ["WHERE", "THERE", "COULD", "FRIEND", "SCHOOL", "PURPLE", "ORANGE"],
+};
+
+export type CompletedWord = {
+  count: number;
+  lastCompleted: number;
+};
+
+export type SpellingData = Record<string, CompletedWord>;
+
+export const createEmptySpelling = (): SpellingData => ({});
+
+/**
+ * Words for a level. Lists are normalised to upper case, and a level without
+ * words falls back to the nearest easier level that has some.
+ */
+export const getWordsForLevel = (
+  level: number,
+  lists: WordLists = DEFAULT_WORD_LISTS,
+): string[] => {
+  for (let current = clampLevel(level); current >= MIN_LEVEL; current--) {
+    const words = (lists[current] ?? [])
+      .map((word) => word.trim().toUpperCase())
+      .filter((word) => /^[A-Z]+$/.test(word));
+    if (words.length > 0) return words;
+  }
+  return DEFAULT_WORD_LISTS[MIN_LEVEL];
+};
+
+export const recordCompletedWord = (
+  spelling: SpellingData,
+  word: string,
+  now: number,
+): SpellingData => ({
+  ...spelling,
+  [word]: { count: (spelling[word]?.count ?? 0) + 1, lastCompleted: now },
+});
+
+export const mergeSpelling = (
+  a: SpellingData,
+  b: SpellingData,
+): SpellingData => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([word, completed]) => {
+    const existing = merged[word];
+    merged[word] = existing
+      ? {
+          count: Math.max(existing.count, completed.count),
+          lastCompleted: Math.max(
+            existing.lastCompleted,
+            completed.lastCompleted,
+          ),
+        }
+      : completed;
+  });
+  return merged;
+};
@@ -0,0 +1,453 @@
+// The sticker book: everything a child can collect with the stars they earn.
+// Stickers are just for collecting; companions, bubble skins and themes
+// change how the app looks once they're chosen. What each one costs, or what
+// awards it, is set out as data below.
+
+import { MessageKey, Translate } from "./i18n";
+import { Reward } from "./results";
+import { ProfileStats } from "./storage";
+import { CharacterType } from "../components/FloatingAnimal";
+
+export type StickerKind = "sticker" | "companion" | "bubbleSkin" | "theme";
+
+// Kinds that can be chosen once unlocked, one of each at a time
+export type EquipKind = Exclude<StickerKind, "sticker">;
+
+export type UnlockRule =
+  // Owned from the start
+  | { type: "starter" }
+  // Bought with stars from the sticker book
+  | { type: "stars"; cost: number }
+  // Awarded as soon as a progress total gets there
+  | { type: "stat"; stat: keyof ProfileStats; atLeast: number };
+
+type BaseItem = {
+  id: string;
+  name: MessageKey;
+  emoji: string;
+  unlock: UnlockRule;
+};
+
+export type StickerItem =
+  | (BaseItem & { kind: "sticker" })
+  | (BaseItem & { kind: "companion"; character: CharacterType })
+  | (BaseItem & { kind: "bubbleSkin"; bubbles: [string, string][] })
+  | (BaseItem & { kind: "theme"; background: [string, string] });
+
+export type StickerBook = {
+  // When each item was unlocked, by id. Starter items aren't listed.
+  unlocked: Record<string, number>;
+  starsSpent: number;
+  equipped: Record<EquipKind, string>;
+};
+
+export const STICKER_KINDS: StickerKind[] = [
+  "sticker",
+  "companion",
+  "bubbleSkin",
+  "theme",
+];
+
+export const EQUIP_KINDS: EquipKind[] = ["companion", "bubbleSkin", "theme"];
+
+export const STICKER_KIND_LABELS: Record<StickerKind, MessageKey> = {
+  sticker: "stickers.kind.sticker",
+  companion: "stickers.kind.companion",
+  bubbleSkin: "stickers.kind.bubbleSkin",
+  theme: "stickers.kind.theme",
+};
+
+const starter: UnlockRule = { type: "starter" };
+const stars = (cost: number): UnlockRule => ({ type: "stars", cost });
+const stat = (key: keyof ProfileStats, atLeast: number): UnlockRule => ({
+  type: "stat",
+  stat: key,
+  atLeast,
+});
+
+export const STICKERS: StickerItem[] = [
+  // Stickers
+  {
+    id: "bubbles",
+    kind: "sticker",
+    name: "stickers.item.bubbles",
+    emoji: "🫧",
+    unlock: stat("totalPops", 10),
+  },
+  {
+    id: "balloon",
+    kind: "sticker",
+    name: "stickers.item.balloon",
+    emoji: "🎈",
+    unlock: stat("totalPops", 100),
+  },
+  {
+    id: "fireworks",
+    kind: "sticker",
+    name: "stickers.item.fireworks",
+    emoji: "🎆",
+    unlock: stat("totalPops", 500),
+  },
+  {
+    id: "rainbow",
+    kind: "sticker",
+    name: "stickers.item.rainbow",
+    emoji: "🌈",
+    unlock: stat("colorsLearned", 5),
+  },
+  {
+    id: "blocks",
+    kind: "sticker",
+    name: "stickers.item.blocks",
+    emoji: "🔤",
+    unlock: stat("lettersLearned", 10),
+  },
+  {
+    id: "books",
+    kind: "sticker",
+    name: "stickers.item.books",
+    emoji: "📚",
+    unlock: stat("lettersLearned", 26),
+  },
+  {
+    id: "diamond",
+    kind: "sticker",
+    name: "stickers.item.diamond",
+    emoji: "🔷",
+    unlock: stat("shapesCompleted", 10),
+  },
+  {
+    id: "abacus",
+    kind: "sticker",
+    name: "stickers.item.abacus",
+    emoji: "🧮",
+    unlock: stat("mathProblemsCompleted", 10),
+  },
+  {
+    id: "rocket",
+    kind: "sticker",
+    name: "stickers.item.rocket",
+    emoji: "🚀",
+    unlock: stat("mathProblemsCompleted", 50),
+  },
+  {
+    id: "lightning",
+    kind: "sticker",
+    name: "stickers.item.lightning",
+    emoji: "⚡",
+    unlock: stat("highScore", 30),
+  },
+  {
+    id: "star",
+    kind: "sticker",
+    name: "stickers.item.star",
+    emoji: "🌟",
+    unlock: stat("starsEarned", 10),
+  },
+  {
+    id: "trophy",
+    kind: "sticker",
+    name: "stickers.item.trophy",
+    emoji: "🏆",
+    unlock: stat("starsEarned", 50),
+  },
+  {
+    id: "icecream",
+    kind: "sticker",
+    name: "stickers.item.icecream",
+    emoji: "🍦",
+    unlock: stars(3),
+  },
+  {
+    id: "cake",
+    kind: "sticker",
+    name: "stickers.item.cake",
+    emoji: "🎂",
+    unlock: stars(5),
+  },
+  {
+    id: "castle",
+    kind: "sticker",
+    name: "stickers.item.castle",
+    emoji: "🏰",
+    unlock: stars(8),
+  },
+
+  // Friends that float around the menu
+  {
+    id: "bunny",
+    kind: "companion",
+    name: "stickers.item.bunny",
+    emoji: "🐰",
+    character: "bunny",
+    unlock: starter,
+  },
+  {
+    id: "puppy",
+    kind: "companion",
+    name: "stickers.item.puppy",
+    emoji: "🐶",
+    character: "dog",
+    unlock: stars(4),
+  },
+  {
+    id: "panda",
+    kind: "companion",
+    name: "stickers.item.panda",
+    emoji: "🐼",
+    character: "panda",
+    unlock: stars(8),
+  },
+  {
+    id: "owl",
+    kind: "companion",
+    name: "stickers.item.owl",
+    emoji: "🦉",
+    character: "owl",
+    unlock: stat("starsEarned", 20),
+  },
+  {
+    id: "unicorn",
+    kind: "companion",
+    name: "stickers.item.unicorn",
+    emoji: "🦄",
+    character: "unicorn",
+    unlock: stars(15),
+  },
+  {
+    id: "dragon",
+    kind: "companion",
+    name: "stickers.item.dragon",
+    emoji: "🐉",
+    character: "dragon",
+    unlock: stars(25),
+  },
+
+  // Bubble and balloon colors in the games, apart from Colors
+  {
+    id: "classic",
+    kind: "bubbleSkin",
+    name: "stickers.item.classic",
+    emoji: "🔴",
+    bubbles: [
+      ["#FF6B6B", "#FF8E8E"],
+      ["#FF6B95", "#FF9EBD"],
+      ["#9D7FE6", "#BEA9FF"],
+      ["#5B9AE6", "#8CB5FF"],
+      ["#5BC9E6", "#8EDFFF"],
+      ["#4BD5B3", "#7FF4D9"],
+      ["#6BD86B", "#9AFF9A"],
+      ["#FFD86B", "#FFEA9A"],
+      ["#FF9858", "#FFBD8E"],
+    ],
+    unlock: starter,
+  },
+  {
+    id: "candy",
+    kind: "bubbleSkin",
+    name: "stickers.item.candy",
+    emoji: "🍬",
+    bubbles: [
+      ["#FF9EBD", "#FFD1E0"],
+      ["#FFB3DE", "#FFE0F0"],
+      ["#C9A9FF", "#E6D9FF"],
+      ["#A9E4FF", "#D9F3FF"],
+    ],
+    unlock: stars(10),
+  },
+  {
+    id: "ocean",
+    kind: "bubbleSkin",
+    name: "stickers.item.ocean",
+    emoji: "🐠",
+    bubbles: [
+      ["#1E88E5", "#64B5F6"],
+      ["#00ACC1", "#4DD0E1"],
+      ["#26A69A", "#80CBC4"],
+      ["#3949AB", "#7986CB"],
+    ],
+    unlock: stars(10),
+  },
+  {
+    id: "sunset",
+    kind: "bubbleSkin",
+    name: "stickers.item.sunset",
+    emoji: "🌅",
+    bubbles: [
+      ["#FF7043", "#FFAB91"],
+      ["#FFA726", "#FFCC80"],
+      ["#EC407A", "#F48FB1"],
+      ["#AB47BC", "#CE93D8"],
+    ],
+    unlock: stat("totalPops", 250),
+  },
+
+  // Backgrounds for the menus and games
+  {
+    id: "sky",
+    kind: "theme",
+    name: "stickers.item.sky",
+    emoji: "☁️",
+    background: ["#f0f8ff", "#e6f0ff"],
+    unlock: starter,
+  },
+  {
+    id: "meadow",
+    kind: "theme",
+    name: "stickers.item.meadow",
+    emoji: "🌼",
+    background: ["#f4ffe6", "#dcf5c4"],
+    unlock: stars(12),
+  },
+  {
+    id: "candyland",
+    kind: "theme",
+    name: "stickers.item.candyland",
+    emoji: "🍭",
+    background: ["#fff0f7", "#ffd6ea"],
+    unlock: stars(12),
+  },
+  {
+    id: "space",
+    kind: "theme",
+    name: "stickers.item.space",
+    emoji: "🪐",
+    background: ["#e8e6ff", "#cfc8f5"],
+    unlock: stat("starsEarned", 40),
+  },
+];
+
+export const getSticker = (id: string) =>
+  STICKERS.find((item) => item.id === id);
+
+const getStarter = (kind: EquipKind) =>
+  STICKERS.find(
+    (item) => item.kind === kind && item.unlock.type === "starter",
+  )!;
+
+export const createStickerBook = (): StickerBook => ({
+  unlocked: {},
+  starsSpent: 0,
+  equipped: {
+    companion: getStarter("companion").id,
+    bubbleSkin: getStarter("bubbleSkin").id,
+    theme: getStarter("theme").id,
+  },
+});
+
+export const isUnlocked = (book: StickerBook, item: StickerItem) =>
+  item.unlock.type === "starter" || item.id in book.unlocked;
+
+// Stars earned and not yet spent
+export const getStarBalance = (book: StickerBook, stats: ProfileStats) =>
+  Math.max(0, stats.starsEarned - book.starsSpent);
+
+const STAT_GOALS: Record<keyof ProfileStats, MessageKey> = {
+  totalPops: "stickers.goal.totalPops",
+  shapesCompleted: "stickers.goal.shapesCompleted",
+  colorsLearned: "stickers.goal.colorsLearned",
+  lettersLearned: "stickers.goal.lettersLearned",
+  mathProblemsCompleted: "stickers.goal.mathProblemsCompleted",
+  highScore: "stickers.goal.highScore",
+  starsEarned: "stickers.goal.starsEarned",
+};
+
+// How a locked item is won, for the sticker book
+export const describeUnlock = (rule: UnlockRule, t: Translate) => {
+  switch (rule.type) {
+    case "starter":
+      return t("stickers.starter");
+    case "stars":
+      return `${rule.cost} ⭐`;
+    case "stat":
+      return t(STAT_GOALS[rule.stat], { count: rule.atLeast });
+  }
+};
+
+// Unlocks every item whose progress goal has been reached. Returns the same
+// book when there's nothing new, so callers can skip saving.
+export const awardStickers = (
+  book: StickerBook,
+  stats: ProfileStats,
+  now = Date.now(),
+): StickerBook => {
+  const earned = STICKERS.filter(
+    ({ id, unlock }) =>
+      unlock.type === "stat" &&
+      stats[unlock.stat] >= unlock.atLeast &&
+      !(id in book.unlocked),
+  );
+  if (earned.length === 0) return book;
+
+  const unlocked = { ...book.unlocked };
+  earned.forEach(({ id }) => {
+    unlocked[id] = now;
+  });
+  return { ...book, unlocked };
+};
+
+// Returns null when the item can't be bought or there aren't enough stars
+export const buySticker = (
+  book: StickerBook,
+  stats: ProfileStats,
+  id: string,
+  now = Date.now(),
+): StickerBook | null => {
+  const item = getSticker(id);
+  if (!item || item.unlock.type !== "stars" || isUnlocked(book, item)) {
+    return null;
+  }
+  if (getStarBalance(book, stats) < item.unlock.cost) return null;
+
+  return {
+    ...book,
+    unlocked: { ...book.unlocked, [id]: now },
+    starsSpent: book.starsSpent + item.unlock.cost,
+  };
+};
+
+export const equipSticker = (book: StickerBook, id: string): StickerBook => {
+  const item = getSticker(id);
+  if (!item || item.kind === "sticker" || !isUnlocked(book, item)) return book;
+  return { ...book, equipped: { ...book.equipped, [item.kind]: id } };
+};
+
+// The chosen item of a kind, falling back to the starter one
+export const getEquipped = <K extends EquipKind>(
+  book: StickerBook,
+  kind: K,
+) => {
+  const item = getSticker(book.equipped[kind]);
+  return (item?.kind === kind ? item : getStarter(kind)) as Extract<
+    StickerItem,
+    { kind: K }
+  >;
+};
+
+// Items unlocked at or after a time, like during the game just played
+export const getUnlockedSince = (book: StickerBook, since: number) =>
+  STICKERS.filter(
+    ({ id }) => id in book.unlocked && book.unlocked[id] >= since,
+  );
+
+// How a newly unlocked item is shown on the results screen
+export const toReward = (item: StickerItem, t: Translate): Reward => ({
+  emoji: item.emoji,
+  label: t("stickers.reward", { name: t(item.name) }),
+});
+
+// Both books' unlocks are kept, with the earlier date for each
+export const mergeStickerBooks = (
+  a: StickerBook,
+  b: StickerBook,
+): StickerBook => {
+  const unlocked = { ...a.unlocked };
+  Object.entries(b.unlocked).forEach(([id, time]) => {
+    unlocked[id] = id in unlocked ? Math.min(unlocked[id], time) : time;
+  });
+  return {
+    unlocked,
+    starsSpent: Math.max(a.starsSpent, b.starsSpent),
+    equipped: a.equipped,
+  };
+};
@@ -0,0 +1,754 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { AchievementData, getAchievement } from "./achievements";
+import {
+  ADAPTIVE_MODES,
+  DifficultyData,
+  DifficultyState,
+  RoundResult,
+  clampLevel,
+  createDifficultyState,
+  createEmptyDifficulty,
+} from "./adaptiveDifficulty";
+import { DailyData, createDailyData } from "./dailyChallenge";
+import { DEFAULT_LOCALE, LOCALES, Locale } from "./i18n";
+import {
+  AnswerRecord,
+  ItemMastery,
+  MASTERY_DOMAINS,
+  MasteryData,
+  calculateConfidence,
+  createEmptyMastery,
+} from "./mastery";
+import {
+  DEFAULT_GATE_CONFIG,
+  GATED_ACTIONS,
+  GATE_CHALLENGES,
+  ParentalGateConfig,
+} from "./parentalGate";
+import { MAX_STARS, PersonalBests } from "./results";
+import {
+  DAILY_LIMIT_OPTIONS,
+  ScreenTimeData,
+  createEmptyScreenTime,
+} from "./screenTime";
+import {
+  MAX_EVENTS_PER_LOG,
+  MAX_LOGS,
+  SESSION_EVENT_TYPES,
+  SessionEvent,
+  SessionLog,
+} from "./sessionEvents";
+import {
+  SESSION_MODES,
+  SessionMode,
+  SessionRecord,
+  pruneSessions,
+} from "./sessionHistory";
+import {
+  LeitnerCard,
+  REPETITION_DECKS,
+  RepetitionData,
+  clampBox,
+  createEmptyRepetition,
+} from "./spacedRepetition";
+import { SpellingData, createEmptySpelling } from "./spelling";
+import {
+  EQUIP_KINDS,
+  StickerBook,
+  createStickerBook,
+  equipSticker,
+  getSticker,
+} from "./stickers";
+import { ANIMAL_TYPES, AnimalType } from "../components/FloatingAnimal";
+
+export type AudioSetting = "full" | "noSpeech" | "noSound" | "mute";
+
+const AUDIO_SETTINGS: AudioSetting[] = ["full", "noSpeech", "noSound", "mute"];
+
+// When Math Fun shows countable objects next to a problem
+export type CountingAidSetting = "always" | "afterMistake" | "off";
+
+export const COUNTING_AID_SETTINGS: CountingAidSetting[] = [
+  "always",
+  "afterMistake",
+  "off",
+];
+
+export type ProfileStats = {
+  totalPops: number;
+  shapesCompleted: number;
+  colorsLearned: number;
+  lettersLearned: number;
+  mathProblemsCompleted: number;
+  highScore: number;
+  // Stars won on results screens, across every game
+  starsEarned: number;
+};
+
+export type ProfileSettings = {
+  audioSetting: AudioSetting;
+  countingAid: CountingAidSetting;
+  // Minutes of play allowed each day, or null for no limit
+  dailyLimit: number | null;
+  // Games a grown-up has turned on or off; others use their default
+  enabledModes: Partial<Record<SessionMode, boolean>>;
+  // What the games are shown and read out in
+  language: Locale;
+  // Prompts are repeated in this language too, or null to only use one
+  secondLanguage: Locale | null;
+};
+
+export type Profile = {
+  id: string;
+  name: string;
+  avatar: AnimalType;
+  stats: ProfileStats;
+  settings: ProfileSettings;
+  mastery: MasteryData;
+  difficulty: DifficultyData;
+  repetition: RepetitionData;
+  spelling: SpellingData;
+  sessions: SessionRecord[];
+  eventLogs: SessionLog[];
+  screenTime: ScreenTimeData;
+  bests: PersonalBests;
+  stickerBook: StickerBook;
+  achievements: AchievementData;
+  daily: DailyData;
+};
+
+export type PersistedData = {
+  version: number;
+  activeProfileId: string;
+  profiles: Profile[];
+  // Shared by every profile, since it's for the grown-ups
+  parentalGate: ParentalGateConfig;
+};
+
+// The subset of AsyncStorage we rely on, so tests can pass an in-memory map
+export type StorageAdapter = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+export const SCHEMA_VERSION = 2;
+export const STORAGE_KEY = "popAndLearn";
+// Where unreadable data is kept so it is never silently thrown away
+export const CORRUPT_BACKUP_KEY = `${STORAGE_KEY}:corrupt`;
+
+// Keys used by earlier versions of the app, before data was versioned
+const V0_STATS_KEY = "gameStats";
+const V1_PROFILES_KEY = "profiles";
+
+// Where each version saved its data, newest first
+const SAVED_KEYS = [
+  { key: STORAGE_KEY, version: SCHEMA_VERSION },
+  { key: V1_PROFILES_KEY, version: 1 },
+  { key: V0_STATS_KEY, version: 0 },
+];
+
+const DEFAULT_STATS: ProfileStats = {
+  totalPops: 0,
+  shapesCompleted: 0,
+  colorsLearned: 0,
+  lettersLearned: 0,
+  mathProblemsCompleted: 0,
+  highScore: 0,
+  starsEarned: 0,
+};
+
+const DEFAULT_SETTINGS: ProfileSettings = {
+  audioSetting: "full",
+  countingAid: "afterMistake",
+  dailyLimit: null,
+  enabledModes: {},
+  language: DEFAULT_LOCALE,
+  secondLanguage: null,
+};
+
+const DEFAULT_PROFILE_NAME = "Player 1";
+const DEFAULT_AVATAR: AnimalType = "bunny";
+
+const createProfileId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProfile = (
+  name: string,
+  avatar: AnimalType,
+  stats: Partial<ProfileStats> = {},
+  settings: Partial<ProfileSettings> = {},
+): Profile => ({
+  id: createProfileId(),
+  name,
+  avatar,
+  stats: { ...DEFAULT_STATS, ...stats },
+  settings: { ...DEFAULT_SETTINGS, ...settings },
+  mastery: createEmptyMastery(),
+  difficulty: createEmptyDifficulty(),
+  repetition: createEmptyRepetition(),
+  spelling: createEmptySpelling(),
+  sessions: [],
+  eventLogs: [],
+  screenTime: createEmptyScreenTime(),
+  bests: {},
+  stickerBook: createStickerBook(),
+  achievements: {},
+  daily: createDailyData(),
+});
+
+export const createDefaultData = (): PersistedData => {
+  const profile = createProfile(DEFAULT_PROFILE_NAME, DEFAULT_AVATAR);
+  return {
+    version: SCHEMA_VERSION,
+    activeProfileId: profile.id,
+    profiles: [profile],
+    parentalGate: { ...DEFAULT_GATE_CONFIG },
+  };
+};
+
+// --- Validation ---
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOneOf = <T>(items: readonly T[], value: unknown): value is T =>
+  items.includes(value as T);
+
+const toCount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : 0;
+
+const validateStats = (raw: unknown): ProfileStats => {
+  const stats = isRecord(raw) ? raw : {};
+  return {
+    totalPops: toCount(stats.totalPops),
+    shapesCompleted: toCount(stats.shapesCompleted),
+    colorsLearned: toCount(stats.colorsLearned),
+    lettersLearned: toCount(stats.lettersLearned),
+    mathProblemsCompleted: toCount(stats.mathProblemsCompleted),
+    highScore: toCount(stats.highScore),
+    starsEarned: toCount(stats.starsEarned),
+  };
+};
+
+const validateEnabledModes = (raw: unknown) => {
+  const enabledModes: ProfileSettings["enabledModes"] = {};
+  if (!isRecord(raw)) return enabledModes;
+  SESSION_MODES.forEach((mode) => {
+    if (typeof raw[mode] === "boolean") enabledModes[mode] = raw[mode];
+  });
+  return enabledModes;
+};
+
+const validateSettings = (raw: unknown): ProfileSettings => {
+  const settings = isRecord(raw) ? raw : {};
+  return {
+    audioSetting: isOneOf(AUDIO_SETTINGS, settings.audioSetting)
+      ? settings.audioSetting
+      : DEFAULT_SETTINGS.audioSetting,
+    countingAid: isOneOf(COUNTING_AID_SETTINGS, settings.countingAid)
+      ? settings.countingAid
+      : DEFAULT_SETTINGS.countingAid,
+    dailyLimit: isOneOf(DAILY_LIMIT_OPTIONS, settings.dailyLimit)
+      ? settings.dailyLimit
+      : DEFAULT_SETTINGS.dailyLimit,
+    enabledModes: validateEnabledModes(settings.enabledModes),
+    language: isOneOf(LOCALES, settings.language)
+      ? settings.language
+      : DEFAULT_SETTINGS.language,
+    secondLanguage: isOneOf(LOCALES, settings.secondLanguage)
+      ? settings.secondLanguage
+      : DEFAULT_SETTINGS.secondLanguage,
+  };
+};
+
+const validateAnswer = (raw: unknown): AnswerRecord | null => {
+  if (!isRecord(raw) || typeof raw.correct !== "boolean") return null;
+  return {
+    correct: raw.correct,
+    responseTimeMs: toCount(raw.responseTimeMs),
+    ...(typeof raw.chosen === "string" && { chosen: raw.chosen }),
+    timestamp: toCount(raw.timestamp),
+  };
+};
+
+const validateItemMastery = (raw: unknown): ItemMastery | null => {
+  if (!isRecord(raw)) return null;
+
+  const history = Array.isArray(raw.history)
+    ? raw.history
+        .map(validateAnswer)
+        .filter((answer): answer is AnswerRecord => answer !== null)
+    : [];
+  const confusions: Record<string, number> = {};
+  if (isRecord(raw.confusions)) {
+    Object.entries(raw.confusions).forEach(([item, count]) => {
+      if (toCount(count) > 0) confusions[item] = toCount(count);
+    });
+  }
+  const attempts = Math.max(toCount(raw.attempts), history.length);
+
+  return {
+    attempts,
+    correct: Math.min(toCount(raw.correct), attempts),
+    history,
+    confusions,
+    // Recalculated rather than trusted, so it always matches the history
+    confidence: calculateConfidence(history),
+    lastSeen: toCount(raw.lastSeen),
+  };
+};
+
+const validateMastery = (raw: unknown): MasteryData => {
+  const mastery = createEmptyMastery();
+  if (!isRecord(raw)) return mastery;
+
+  MASTERY_DOMAINS.forEach((domain) => {
+    if (!isRecord(raw[domain])) return;
+    Object.entries(raw[domain]).forEach(([item, value]) => {
+      const itemMastery = validateItemMastery(value);
+      if (itemMastery) mastery[domain][item] = itemMastery;
+    });
+  });
+  return mastery;
+};
+
+const validateRound = (raw: unknown): RoundResult | null => {
+  if (!isRecord(raw) || typeof raw.accuracy !== "number") return null;
+  return {
+    accuracy: Math.min(1, Math.max(0, raw.accuracy)),
+    averageResponseMs: toCount(raw.averageResponseMs),
+  };
+};
+
+const validateDifficultyState = (raw: unknown): DifficultyState => {
+  if (!isRecord(raw)) return createDifficultyState();
+  return {
+    level: clampLevel(toCount(raw.level)),
+    locked: raw.locked === true,
+    recentRounds: Array.isArray(raw.recentRounds)
+      ? raw.recentRounds
+          .map(validateRound)
+          .filter((round): round is RoundResult => round !== null)
+      : [],
+  };
+};
+
+const validateDifficulty = (raw: unknown): DifficultyData => {
+  const difficulty = createEmptyDifficulty();
+  if (!isRecord(raw)) return difficulty;
+
+  ADAPTIVE_MODES.forEach((mode) => {
+    difficulty[mode] = validateDifficultyState(raw[mode]);
+  });
+  return difficulty;
+};
+
+const validateRepetition = (raw: unknown): RepetitionData => {
+  const repetition = createEmptyRepetition();
+  if (!isRecord(raw)) return repetition;
+
+  REPETITION_DECKS.forEach((deck) => {
+    if (!isRecord(raw[deck])) return;
+    Object.entries(raw[deck]).forEach(([item, card]) => {
+      if (!isRecord(card)) return;
+      repetition[deck][item] = {
+        box: clampBox(toCount(card.box)),
+        lastSeen: toCount(card.lastSeen),
+      } satisfies LeitnerCard;
+    });
+  });
+  return repetition;
+};
+
+const validateSpelling = (raw: unknown): SpellingData => {
+  const spelling = createEmptySpelling();
+  if (!isRecord(raw)) return spelling;
+
+  Object.entries(raw).forEach(([word, completed]) => {
+    if (!isRecord(completed) || toCount(completed.count) === 0) return;
+    spelling[word] = {
+      count: toCount(completed.count),
+      lastCompleted: toCount(completed.lastCompleted),
+    };
+  });
+  return spelling;
+};
+
+const validateSession = (raw: unknown): SessionRecord | null => {
+  if (!isRecord(raw) || !isOneOf(SESSION_MODES, raw.mode)) return null;
+  const attempts = toCount(raw.attempts);
+  return {
+    mode: raw.mode,
+    startedAt: toCount(raw.startedAt),
+    durationMs: toCount(raw.durationMs),
+    attempts,
+    correct: Math.min(toCount(raw.correct), attempts),
+  };
+};
+
+const validateSessions = (raw: unknown): SessionRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  return pruneSessions(
+    raw
+      .map(validateSession)
+      .filter((session): session is SessionRecord => session !== null)
+      .sort((a, b) => a.startedAt - b.startedAt),
+  );
+};
+
+const validateEvent = (raw: unknown): SessionEvent | null => {
+  if (!isRecord(raw) || !isOneOf(SESSION_EVENT_TYPES, raw.type)) return null;
+  const time = toCount(raw.time);
+  const optionalString = (key: string) =>
+    typeof raw[key] === "string" ? { [key]: raw[key] as string } : {};
+
+  const { type } = raw;
+  switch (type) {
+    case "roundStart":
+      return {
+        type: "roundStart",
+        time,
+        ...optionalString("target"),
+        ...(typeof raw.level === "number" && { level: toCount(raw.level) }),
+      };
+    case "roundEnd":
+      return {
+        type: "roundEnd",
+        time,
+        completed: raw.completed === true,
+        ...(typeof raw.score === "number" && { score: toCount(raw.score) }),
+      };
+    case "pop":
+      if (typeof raw.item !== "string") return null;
+      return {
+        type: "pop",
+        time,
+        item: raw.item,
+        correct: typeof raw.correct === "boolean" ? raw.correct : null,
+        latencyMs: toCount(raw.latencyMs),
+      };
+    case "hint":
+      return { type: "hint", time, ...optionalString("item") };
+    case "pause":
+    case "resume":
+      return { type, time };
+  }
+};
+
+const validateEventLog = (raw: unknown): SessionLog | null => {
+  if (!isRecord(raw) || !isOneOf(SESSION_MODES, raw.mode)) return null;
+  const events = Array.isArray(raw.events)
+    ? raw.events
+        .map(validateEvent)
+        .filter((event): event is SessionEvent => event !== null)
+        .slice(-MAX_EVENTS_PER_LOG)
+    : [];
+  return { mode: raw.mode, startedAt: toCount(raw.startedAt), events };
+};
+
+const validateEventLogs = (raw: unknown): SessionLog[] =>
+  Array.isArray(raw)
+    ? raw
+        .map(validateEventLog)
+        .filter(
+          (log): log is SessionLog => log !== null && log.events.length > 0,
+        )
+        .slice(-MAX_LOGS)
+    : [];
+
+const validateScreenTime = (raw: unknown): ScreenTimeData => {
+  if (!isRecord(raw) || typeof raw.day !== "string") {
+    return createEmptyScreenTime();
+  }
+  return {
+    day: raw.day,
+    playedMs: toCount(raw.playedMs),
+    extraMs: toCount(raw.extraMs),
+  };
+};
+
+const validateBests = (raw: unknown): PersonalBests => {
+  const bests: PersonalBests = {};
+  if (!isRecord(raw)) return bests;
+
+  SESSION_MODES.forEach((mode) => {
+    const best = raw[mode];
+    if (!isRecord(best)) return;
+    bests[mode] = {
+      score: toCount(best.score),
+      accuracy:
+        typeof best.accuracy === "number"
+          ? Math.min(1, Math.max(0, best.accuracy))
+          : null,
+      stars: Math.min(MAX_STARS, toCount(best.stars)),
+    };
+  });
+  return bests;
+};
+
+const validateStickerBook = (raw: unknown): StickerBook => {
+  const book = createStickerBook();
+  if (!isRecord(raw)) return book;
+
+  if (isRecord(raw.unlocked)) {
+    Object.entries(raw.unlocked).forEach(([id, time]) => {
+      if (getSticker(id) && typeof time === "number") {
+        book.unlocked[id] = time;
+      }
+    });
+  }
+  book.starsSpent = toCount(raw.starsSpent);
+
+  // Anything not unlocked is left on the starter item
+  const equipped = isRecord(raw.equipped) ? raw.equipped : {};
+  return EQUIP_KINDS.reduce((validated, kind) => {
+    const id = equipped[kind];
+    return typeof id === "string" && getSticker(id)?.kind === kind
+      ? equipSticker(validated, id)
+      : validated;
+  }, book);
+};
+
+const validateAchievements = (raw: unknown): AchievementData => {
+  const achievements: AchievementData = {};
+  if (!isRecord(raw)) return achievements;
+
+  Object.entries(raw).forEach(([id, time]) => {
+    if (getAchievement(id) && typeof time === "number") {
+      achievements[id] = time;
+    }
+  });
+  return achievements;
+};
+
+const validateDaily = (raw: unknown): DailyData => {
+  if (!isRecord(raw) || typeof raw.day !== "string") {
+    return createDailyData();
+  }
+  const streak = toCount(raw.streak);
+  return {
+    day: raw.day,
+    progress: toCount(raw.progress),
+    completed: raw.completed === true,
+    streak,
+    bestStreak: Math.max(toCount(raw.bestStreak), streak),
+    lastCompletedDay:
+      typeof raw.lastCompletedDay === "string" ? raw.lastCompletedDay : null,
+  };
+};
+
+const validateParentalGate = (raw: unknown): ParentalGateConfig => {
+  const config = { ...DEFAULT_GATE_CONFIG };
+  if (!isRecord(raw)) return config;
+
+  GATED_ACTIONS.forEach((action) => {
+    if (isOneOf(GATE_CHALLENGES, raw[action])) config[action] = raw[action];
+  });
+  return config;
+};
+
+export const validateProfile = (raw: unknown): Profile | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || !raw.id) return null;
+
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  return {
+    id: raw.id,
+    name: name || DEFAULT_PROFILE_NAME,
+    avatar: isOneOf(ANIMAL_TYPES, raw.avatar) ? raw.avatar : DEFAULT_AVATAR,
+    stats: validateStats(raw.stats),
+    settings: validateSettings(raw.settings),
+    mastery: validateMastery(raw.mastery),
+    difficulty: validateDifficulty(raw.difficulty),
+    repetition: validateRepetition(raw.repetition),
+    spelling: validateSpelling(raw.spelling),
+    sessions: validateSessions(raw.sessions),
+    eventLogs: validateEventLogs(raw.eventLogs),
+    screenTime: validateScreenTime(raw.screenTime),
+    bests: validateBests(raw.bests),
+    stickerBook: validateStickerBook(raw.stickerBook),
+    achievements: validateAchievements(raw.achievements),
+    daily: validateDaily(raw.daily),
+  };
+};
+
+// The valid profiles in a list, without repeats of the same player
+export const validateProfiles = (raw: unknown): Profile[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const seenIds = new Set<string>();
+  return raw.map(validateProfile).filter((profile): profile is Profile => {
+    if (!profile || seenIds.has(profile.id)) return false;
+    seenIds.add(profile.id);
+    return true;
+  });
+};
+
+/**
+ * Repairs data at the current schema version. Invalid fields fall back to
+ * their defaults and invalid profiles are dropped, so a single bad value
+ * never costs a child the rest of their progress. Newly added sections are
+ * filled in with defaults here too, so they don't need a migration.
+ */
+export const validateData = (raw: unknown): PersistedData => {
+  if (!isRecord(raw)) {
+    return createDefaultData();
+  }
+
+  const profiles = validateProfiles(raw.profiles);
+  if (profiles.length === 0) {
+    return createDefaultData();
+  }
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === raw.activeProfileId) ??
+    profiles[0];
+
+  return {
+    version: SCHEMA_VERSION,
+    activeProfileId: activeProfile.id,
+    profiles,
+    parentalGate: validateParentalGate(raw.parentalGate),
+  };
+};
+
+// --- Migrations ---
+
+// Each migration upgrades data from the version it is keyed by to the next
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v0: a single player's stats and settings in one flat object
+  0: (data) => {
+    const stats = isRecord(data) ? data : {};
+    const profile = createProfile(
+      DEFAULT_PROFILE_NAME,
+      DEFAULT_AVATAR,
+      validateStats(stats),
+      validateSettings(stats),
+    );
+    return { version: 1, activeProfileId: profile.id, profiles: [profile] };
+  },
+  // v1: profiles saved without a version, under their own key
+  1: (data) => ({ ...(isRecord(data) ? data : {}), version: 2 }),
+};
+
+export const migrateData = (raw: unknown, fromVersion: number): unknown => {
+  let data = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    data = migrate(data);
+  }
+  return data;
+};
+
+// --- Loading & saving ---
+
+type StoreOptions = {
+  storage?: StorageAdapter;
+  // How long to wait for more changes before writing
+  debounceMs?: number;
+};
+
+export const createStore = ({
+  storage = AsyncStorage,
+  debounceMs = 1000,
+}: StoreOptions = {}) => {
+  let pending: PersistedData | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Finds the text under whichever key the newest saved version used
+  const readSaved = async () => {
+    for (const { key, version } of SAVED_KEYS) {
+      const text = await storage.getItem(key);
+      if (text !== null) return { key, text, version };
+    }
+    return null;
+  };
+
+  const write = async (data: PersistedData) => {
+    await storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  };
+
+  // Keeps whatever couldn't be used aside and clears its key, so it isn't
+  // read again in place of the fresh data written over it
+  const startFresh = async (saved: { key: string; text: string }) => {
+    await storage.setItem(CORRUPT_BACKUP_KEY, saved.text);
+    await storage.removeItem(saved.key);
+    const data = createDefaultData();
+    await write(data);
+    return data;
+  };
+
+  // Rejects when storage can't be read, so nothing is saved over data that
+  // may still be there
+  const load = async (): Promise<PersistedData> => {
+    const saved = await readSaved();
+    if (!saved) {
+      return createDefaultData();
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(saved.text);
+    } catch (error) {
+      console.error("Saved game data is corrupt, starting fresh:", error);
+      return startFresh(saved);
+    }
+
+    // Current data records its own version
+    const version =
+      saved.key === STORAGE_KEY
+        ? (isRecord(raw) && toCount(raw.version)) || SCHEMA_VERSION
+        : saved.version;
+
+    // Data from a newer app version can't be migrated; keep what we understand
+    const upgraded = version > SCHEMA_VERSION ? raw : migrateData(raw, version);
+    if (
+      !isRecord(upgraded) ||
+      validateProfiles(upgraded.profiles).length === 0
+    ) {
+      console.error("Saved game data has no players, starting fresh");
+      return startFresh(saved);
+    }
+
+    const data = validateData(upgraded);
+    if (version < SCHEMA_VERSION) {
+      await write(data);
+      await storage.removeItem(V1_PROFILES_KEY);
+      await storage.removeItem(V0_STATS_KEY);
+    }
+    return data;
+  };
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const data = pending;
+    pending = null;
+    try {
+      await write(data);
+    } catch (error) {
+      console.error("Failed to save game data:", error);
+    }
+  };
+
+  // Batches rapid changes (like every pop) into a single write
+  const save = (data: PersistedData) => {
+    pending = data;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  return { load, save, flush };
+};
+
+export type Store = ReturnType<typeof createStore>;
@@ -0,0 +1,26 @@
+// Choosing which installed text-to-speech voice reads each language. Devices
+// report voices with tags like "es-ES", "es_MX" or "fr-CA".
+
+import { Voice, VoiceQuality } from "expo-speech";
+
+const normalize = (language: string) =>
+  language.replace("_", "-").toLowerCase();
+
+/**
+ * The best voice for a language: one for the exact region if there is one,
+ * otherwise any voice for the language, preferring enhanced ones. Returns
+ * undefined when nothing fits, so the platform default is used.
+ */
+export const pickVoice = (voices: Voice[], language: string) => {
+  const wanted = normalize(language);
+  const base = wanted.split("-")[0];
+  const byQuality = (candidates: Voice[]) =>
+    candidates.find((voice) => voice.quality === VoiceQuality.Enhanced) ??
+    candidates[0];
+
+  const exact = voices.filter((voice) => normalize(voice.language) === wanted);
+  const sameLanguage = voices.filter(
+    (voice) => normalize(voice.language).split("-")[0] === base,
+  );
+  return (byQuality(exact) ?? byQuality(sameLanguage))?.identifier;
+};